@@ -9,11 +9,18 @@ import {
 
 import { SampleSettingTab } from './src/settings/settings';
 import { DEFAULT_SETTINGS } from './src/settings/defaults';
+import { migrateFallbackChains } from './src/settings/utils';
 import { MyPluginSettings } from './src/settings/types';
 import { SecretsManager } from './src/utils/secrets';
 import { HistoryManager } from './src/utils/historyManager'; // Add HistoryManager import
 import { AiConsoleModal } from './src/ui/console/AiConsoleModal';
 import { registerAiNNS, unregisterAiNNS } from './src/api/aiNNS';
+import { modelCatalog } from './src/core/ModelCatalog';
+import { responseCache } from './src/core/ResponseCache';
+import { requestScheduler } from './src/core/scheduler';
+import { spendTracker } from './src/core/SpendTracker';
+import { setTransport, useProxy } from './src/core/transport';
+import { providerFetchers } from './src/settings/providers/index';
 
 /**
  * Main Plugin Class
@@ -22,6 +29,7 @@ export default class MyPlugin extends Plugin {
     settings: MyPluginSettings;
     secrets: SecretsManager;
     historyManager: HistoryManager; // Add historyManager property
+    private settingsListeners: ((settings: MyPluginSettings) => void)[] = [];
 
     /**
      * Plugin entry point
@@ -48,6 +56,49 @@ export default class MyPlugin extends Plugin {
         // Load plugin settings
         await this.loadSettings();
 
+        // Serve model lists from plugin data; adapters validate models against it
+        modelCatalog.configure({
+            entries: this.settings.modelCatalog ?? (this.settings.modelCatalog = {}),
+            save: () => this.saveSettings(),
+            fetchModels: (provider, apiKey) => {
+                const fetcher = providerFetchers[provider];
+                return fetcher ? fetcher(apiKey, this.app, this.settings) : Promise.resolve([]);
+            },
+            getApiKey: provider => this.secrets.getSecret(provider),
+        });
+
+        // Send traffic through the debugging proxy, if one is set
+        useProxy(this.settings.network.proxyUrl);
+        let proxyUrl = this.settings.network.proxyUrl;
+        this.onSettingsChange(settings => {
+            if (settings.network.proxyUrl === proxyUrl) return;
+            proxyUrl = settings.network.proxyUrl;
+            useProxy(proxyUrl);
+        });
+
+        // Queue requests per provider instead of sending past the configured limits
+        requestScheduler.configure(this.settings.rateLimits);
+
+        // Price each request and enforce monthly budgets
+        spendTracker.configure({
+            ledger: this.settings.spendLedger ?? (this.settings.spendLedger = {}),
+            budgets: this.settings.budgets,
+            priceOverrides: this.settings.priceOverrides,
+            save: () => this.saveSettings(),
+            onWarning: message => new Notice(message, 10000),
+        });
+
+        // Cached text responses live in their own file to keep data.json small
+        const responseCachePath = `${this.manifest.dir}/response-cache.json`;
+        responseCache.configure({
+            settings: this.settings.responseCache,
+            load: async () => {
+                if (!(await this.app.vault.adapter.exists(responseCachePath))) return undefined;
+                return JSON.parse(await this.app.vault.adapter.read(responseCachePath));
+            },
+            save: data => this.app.vault.adapter.write(responseCachePath, JSON.stringify(data)),
+        });
+
         // Example usage: Try to get a secret
         try {
             const openai = await this.secrets.getSecret("openai");
@@ -60,7 +111,7 @@ export default class MyPlugin extends Plugin {
 
         // Register aiNNS API on global scope
         try {
-            await registerAiNNS(this.app, this.secrets, this.settings);
+            await registerAiNNS(this.app, this.secrets, this.settings, listener => this.onSettingsChange(listener));
             console.log('[MyPlugin] aiNNS API registered successfully.');
         } catch (error) {
             console.error('[MyPlugin] Error registering aiNNS API:', error);
@@ -151,17 +202,36 @@ export default class MyPlugin extends Plugin {
     /**
      * Called when plugin is unloaded
      */
-    onunload() {
+    async onunload() {
         console.log('[MyPlugin] Unloaded');
         // Unregister aiNNS API to clean up global scope
         unregisterAiNNS();
+        setTransport();
+        await Promise.all([
+            responseCache.flushPending().catch(error => console.error('[MyPlugin] Failed to save response cache:', error)),
+            spendTracker.flushPending().catch(error => console.error('[MyPlugin] Failed to save spend ledger:', error)),
+        ]);
     }
 
     /**
      * Load plugin settings
      */
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData();
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+        // Merge categories too, so categories added in newer versions get their defaults.
+        // Copy the defaults so editing a chain never mutates DEFAULT_SETTINGS.
+        this.settings.categories = Object.assign({}, JSON.parse(JSON.stringify(DEFAULT_SETTINGS.categories)), data?.categories);
+        this.settings.responseCache = Object.assign({}, DEFAULT_SETTINGS.responseCache, data?.responseCache);
+        this.settings.rateLimits = Object.assign({}, JSON.parse(JSON.stringify(DEFAULT_SETTINGS.rateLimits)), data?.rateLimits);
+        this.settings.budgets = Object.assign(JSON.parse(JSON.stringify(DEFAULT_SETTINGS.budgets)), data?.budgets);
+        this.settings.priceOverrides = Object.assign({}, data?.priceOverrides);
+        this.settings.network = Object.assign({}, DEFAULT_SETTINGS.network, data?.network);
+        this.settings.ollama = Object.assign({}, DEFAULT_SETTINGS.ollama, data?.ollama);
+        this.settings.localSpeech = Object.assign({}, DEFAULT_SETTINGS.localSpeech, data?.localSpeech);
+        if (migrateFallbackChains(this.settings)) {
+            await this.saveSettings();
+        }
     }
 
     /**
@@ -169,6 +239,23 @@ export default class MyPlugin extends Plugin {
      */
     async saveSettings() {
         await this.saveData(this.settings);
+        this.settingsListeners.forEach(listener => {
+            try {
+                listener(this.settings);
+            } catch (error) {
+                console.error('[MyPlugin] Settings listener failed:', error);
+            }
+        });
+    }
+
+    /**
+     * Calls `listener` after every save; returns a function that removes it
+     */
+    onSettingsChange(listener: (settings: MyPluginSettings) => void): () => void {
+        this.settingsListeners.push(listener);
+        return () => {
+            this.settingsListeners = this.settingsListeners.filter(l => l !== listener);
+        };
     }
 }
 
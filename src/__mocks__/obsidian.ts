@@ -0,0 +1,7 @@
+// src/__mocks__/obsidian.ts
+// The obsidian package only ships type definitions; the API exists inside the app.
+// Tests resolve 'obsidian' here (see vitest.config.mjs) and install a MockTransport instead.
+
+export function requestUrl(): never {
+  throw new Error('requestUrl is only available inside Obsidian; use a MockTransport in tests.');
+}
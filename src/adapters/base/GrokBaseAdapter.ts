@@ -1,7 +1,28 @@
-import { requestUrl } from 'obsidian';
+import type { ErrorHints } from '../../core/errors';
+import { HttpClient } from '../../core/HttpClient';
+import { modelCatalog } from '../../core/ModelCatalog';
+
+const GROK_ERROR_HINTS: ErrorHints = {
+    auth: 'Verify your xAI API key and account status at https://console.x.ai.',
+    invalid_request: 'Check request parameters or model validity.',
+    rate_limit: 'Rate limit exceeded. Try again later.',
+    quota: 'Check your xAI credits at https://console.x.ai.',
+    server: 'Server error at xAI. Try again later or contact xAI support.',
+};
+
+function createGrokClient(apiKey: string, logPrefix: string): HttpClient {
+    return new HttpClient({
+        provider: 'grok',
+        baseUrl: 'https://api.x.ai/v1',
+        logPrefix,
+        authHeaders: () => ({ Authorization: `Bearer ${apiKey}` }),
+        errorHints: GROK_ERROR_HINTS,
+    });
+}
 
 export abstract class GrokBaseAdapter {
     protected apiKey: string;
+    protected http: HttpClient;
     public providerKey = 'grok';
 
     constructor(apiKey: string) {
@@ -9,52 +30,22 @@ export abstract class GrokBaseAdapter {
             throw new Error(`[${this.constructor.name}] API key is required.`);
         }
         this.apiKey = apiKey.trim();
+        this.http = createGrokClient(this.apiKey, this.constructor.name);
         console.log(`[${this.constructor.name}] Initialized for provider: ${this.providerKey}`);
         console.log(`[${this.constructor.name}] API key provided: [REDACTED]`);
     }
 
-    protected async makeRequest(endpoint: string, body: any, method: 'POST' | 'GET' = 'POST'): Promise<any> {
-        const url = `https://api.x.ai/v1/${endpoint}`;
-        console.log(`[${this.constructor.name}] Sending ${method} request to ${url}`);
-
-        try {
-            const response = await requestUrl({
-                url,
-                method,
-                headers: {
-                    Authorization: `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json',
-                },
-                body: method === 'POST' ? JSON.stringify(body) : undefined,
-            });
+    protected async makeRequest(endpoint: string, body: any, method: 'POST' | 'GET' = 'POST', signal?: AbortSignal): Promise<any> {
+        return this.http.request(endpoint, { method, body: method === 'POST' ? body : undefined, signal });
+    }
 
-            if (response.status >= 400) {
-                let errorMessage = `${this.providerKey} error ${response.status}`;
-                try {
-                    const errorBody = response.json?.error?.message || response.text || 'No additional details';
-                    console.error(`[${this.constructor.name}] Error response body:`, errorBody);
-                    errorMessage += `: ${errorBody}`;
-                    if (response.status === 401) {
-                        errorMessage += '. Invalid API key. Verify your xAI API key in settings at https://x.ai/api.';
-                    } else if (response.status === 400) {
-                        errorMessage += '. Check request parameters or model validity.';
-                    } else if (response.status === 429) {
-                        errorMessage += '. Rate limit exceeded. Try again later or check your xAI account at https://x.ai/api.';
-                    } else if (response.status === 403) {
-                        errorMessage += '. Check your API key permissions or account status at https://x.ai/api.';
-                    } else if (response.status >= 500) {
-                        errorMessage += '. Server error at xAI. Try again later or contact xAI support.';
-                    }
-                } catch (parseError) {
-                    errorMessage += ': Failed to parse error details';
-                }
-                throw new Error(errorMessage);
-            }
-            return response.json;
-        } catch (error) {
-            console.error(`[${this.constructor.name}] API request failed:`, error);
-            throw error;
-        }
+    protected async makeStreamRequest(endpoint: string, body: any, signal?: AbortSignal): Promise<Response> {
+        return this.http.stream(endpoint, {
+            // Ask for a final usage event so streamed requests can be priced
+            body: { ...body, stream: true, stream_options: { include_usage: true } },
+            headers: { Accept: 'text/event-stream' },
+            signal,
+        });
     }
 
     protected async validateModelInternal(
@@ -62,33 +53,7 @@ export abstract class GrokBaseAdapter {
         defaultModel: string,
         fallbackModel: string
     ): Promise<string> {
-        console.log(`[${this.constructor.name}] Validating model: ${model || 'undefined'} (default: ${defaultModel}, fallback: ${fallbackModel})`);
-        const candidateModel = model || defaultModel;
-
-        try {
-            const availableModels = await GrokBaseAdapter.fetchModels(this.apiKey);
-            console.log(`[${this.constructor.name}] Available models:`, availableModels);
-
-            if (availableModels.includes(candidateModel)) {
-                console.log(`[${this.constructor.name}] Model validated:`, candidateModel);
-                return candidateModel;
-            }
-            if (availableModels.includes(defaultModel)) {
-                console.warn(`[${this.constructor.name}] Invalid model '${candidateModel}', falling back to default '${defaultModel}'`);
-                return defaultModel;
-            }
-            if (availableModels.includes(fallbackModel)) {
-                console.warn(`[${this.constructor.name}] Invalid models '${candidateModel}' and '${defaultModel}', falling back to known '${fallbackModel}'`);
-                return fallbackModel;
-            }
-            console.error(`[${this.constructor.name}] No valid models available from list:`, availableModels);
-            throw new Error(`No valid ${this.providerKey} models available.`);
-        } catch (error) {
-            console.error(`[${this.constructor.name}] Error fetching/validating models:`, error);
-            const finalFallback = defaultModel || fallbackModel;
-            console.warn(`[${this.constructor.name}] Using fallback model due to error:`, finalFallback);
-            return finalFallback;
-        }
+        return modelCatalog.resolveModel(this.providerKey, model, defaultModel, fallbackModel);
     }
 
     public static async fetchModels(apiKey: string): Promise<string[]> {
@@ -96,37 +61,10 @@ export abstract class GrokBaseAdapter {
             if (!apiKey) {
                 throw new Error(`[GrokBaseAdapter] API key is required for fetching models.`);
             }
-            const url = 'https://api.x.ai/v1/models';
-            console.log(`[GrokBaseAdapter] Sending model fetch request:`, {
-                url,
-                headers: { Authorization: `Bearer ${apiKey.trim()}` }
-            });
-
-            const response = await requestUrl({
-                url,
-                method: 'GET',
-                headers: {
-                    Authorization: `Bearer ${apiKey.trim()}`,
-                    'Content-Type': 'application/json'
-                }
-            });
-
-            if (response.status >= 400) {
-                let errorMessage = `grok error: ${response.status}`;
-                try {
-                    const errorBody = response.json?.error?.message || response.text || 'No additional details';
-                    console.log(`[GrokBaseAdapter] Error response body:`, errorBody);
-                    errorMessage += ` - ${errorBody}`;
-                    if (response.status === 403) {
-                        errorMessage += '. Check your API key, permissions, or account status at console.x.ai.';
-                    }
-                } catch {
-                    errorMessage += ' - Failed to parse error details';
-                }
-                throw new Error(errorMessage);
-            }
+            const client = createGrokClient(apiKey.trim(), 'GrokBaseAdapter');
+            const data = await client.request('models', { method: 'GET' });
 
-            const models = (response.json as { data: { id: string }[] }).data?.map(m => m.id).sort() ?? [];
+            const models = (data as { data: { id: string }[] }).data?.map(m => m.id).sort() ?? [];
             console.log(`[GrokBaseAdapter] Fetched models:`, models);
             return models;
         } catch (error) {
@@ -140,43 +78,10 @@ export abstract class GrokBaseAdapter {
             if (!apiKey) {
                 throw new Error(`[GrokBaseAdapter] API key is required for fetching image models.`);
             }
-            const url = 'https://api.x.ai/v1/image-generation-models';
-            console.log(`[GrokBaseAdapter] Sending image model fetch request:`, {
-                url,
-                headers: { Authorization: `Bearer ${apiKey.trim()}` }
-            });
-
-            const response = await requestUrl({
-                url,
-                method: 'GET',
-                headers: {
-                    Authorization: `Bearer ${apiKey.trim()}`,
-                    'Content-Type': 'application/json'
-                }
-            });
-
-            if (response.status >= 400) {
-                let errorMessage = `grok image models error: ${response.status}`;
-                try {
-                    const errorBody = response.json?.error?.message || response.text || 'No additional details';
-                    console.log(`[GrokBaseAdapter] Error response body:`, errorBody);
-                    errorMessage += ` - ${errorBody}`;
-                    if (response.status === 401) {
-                        errorMessage += '. Invalid API key. Verify your xAI API key at https://x.ai/api.';
-                    } else if (response.status === 403) {
-                        errorMessage += '. Check your API key, permissions, or account status at console.x.ai.';
-                    } else if (response.status === 429) {
-                        errorMessage += '. Rate limit exceeded. Try again later or check your xAI account at https://x.ai/api.';
-                    } else if (response.status >= 500) {
-                        errorMessage += '. Server error at xAI. Try again later or contact xAI support.';
-                    }
-                } catch {
-                    errorMessage += ' - Failed to parse error details';
-                }
-                throw new Error(errorMessage);
-            }
+            const client = createGrokClient(apiKey.trim(), 'GrokBaseAdapter');
+            const data = await client.request('image-generation-models', { method: 'GET' });
 
-            const models = (response.json as { models: { id: string }[] }).models?.map(m => m.id).sort() ?? [];
+            const models = (data as { models: { id: string }[] }).models?.map(m => m.id).sort() ?? [];
             console.log(`[GrokBaseAdapter] Fetched image models:`, models);
             return models;
         } catch (error) {
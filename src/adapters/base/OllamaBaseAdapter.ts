@@ -0,0 +1,48 @@
+import type { ErrorHints } from '../../core/errors';
+import { HttpClient } from '../../core/HttpClient';
+import { modelCatalog } from '../../core/ModelCatalog';
+
+export const DEFAULT_OLLAMA_HOST = 'http://localhost:11434';
+
+const OLLAMA_ERROR_HINTS: ErrorHints = {
+    invalid_request: 'If the model is missing, pull it first with `ollama pull <model>`.',
+    network: 'Make sure Ollama is running and the host URL in the local provider settings is correct.',
+};
+
+export abstract class OllamaBaseAdapter {
+    protected host: string;
+    public providerKey = 'local';
+    protected http: HttpClient;
+
+    constructor(host = DEFAULT_OLLAMA_HOST) {
+        this.host = host.replace(/\/+$/, '');
+        this.http = new HttpClient({
+            provider: this.providerKey,
+            baseUrl: this.host,
+            logPrefix: this.constructor.name,
+            errorHints: OLLAMA_ERROR_HINTS,
+        });
+        console.log(`[${this.constructor.name}] Initialized for provider: ${this.providerKey} at ${this.host}`);
+    }
+
+    protected async makeRequest(endpoint: string, body: any, method: 'POST' | 'GET' = 'POST', signal?: AbortSignal): Promise<any> {
+        return this.http.request(endpoint, { method, body: method === 'POST' ? body : undefined, signal });
+    }
+
+    /** Ollama streams newline-delimited JSON, not Server-Sent Events */
+    protected async makeStreamRequest(endpoint: string, body: any, signal?: AbortSignal): Promise<Response> {
+        return this.http.stream(endpoint, {
+            body: { ...body, stream: true },
+            headers: { Accept: 'application/x-ndjson' },
+            signal,
+        });
+    }
+
+    protected async validateModelInternal(
+        model: string | undefined,
+        defaultModel: string,
+        fallbackModel: string
+    ): Promise<string> {
+        return modelCatalog.resolveModel(this.providerKey, model, defaultModel, fallbackModel);
+    }
+}
@@ -1,7 +1,28 @@
-import { requestUrl } from 'obsidian';
+import type { ErrorHints } from '../../core/errors';
+import { HttpClient } from '../../core/HttpClient';
+import { modelCatalog } from '../../core/ModelCatalog';
+
+const OPENAI_ERROR_HINTS: ErrorHints = {
+    auth: 'Verify your OpenAI API key and account status at https://platform.openai.com/account/api-keys.',
+    invalid_request: 'Check request parameters or model validity.',
+    rate_limit: 'Rate limit exceeded. Try again later.',
+    quota: 'Check your OpenAI quota and billing at https://platform.openai.com/account/usage.',
+    server: 'Server error at OpenAI. Try again later or contact OpenAI support.',
+};
+
+function createOpenAIClient(apiKey: string, logPrefix: string): HttpClient {
+    return new HttpClient({
+        provider: 'openai',
+        baseUrl: 'https://api.openai.com/v1',
+        logPrefix,
+        authHeaders: () => ({ Authorization: `Bearer ${apiKey}` }),
+        errorHints: OPENAI_ERROR_HINTS,
+    });
+}
 
 export abstract class OpenAIBaseAdapter {
     protected apiKey: string;
+    protected http: HttpClient;
     public providerKey = 'openai';
 
     constructor(apiKey: string) {
@@ -9,52 +30,22 @@ export abstract class OpenAIBaseAdapter {
             throw new Error(`[${this.constructor.name}] API key is required.`);
         }
         this.apiKey = apiKey.trim();
+        this.http = createOpenAIClient(this.apiKey, this.constructor.name);
         console.log(`[${this.constructor.name}] Initialized for provider: ${this.providerKey}`);
         console.log(`[${this.constructor.name}] API key provided: [REDACTED]`);
     }
 
-    protected async makeRequest(endpoint: string, body: any, method: 'POST' | 'GET' = 'POST'): Promise<any> {
-        const url = `https://api.openai.com/v1/${endpoint}`;
-        console.log(`[${this.constructor.name}] Sending ${method} request to ${url}`);
-
-        try {
-            const response = await requestUrl({
-                url,
-                method,
-                headers: {
-                    Authorization: `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json',
-                },
-                body: method === 'POST' ? JSON.stringify(body) : undefined,
-            });
+    protected async makeRequest(endpoint: string, body: any, method: 'POST' | 'GET' = 'POST', signal?: AbortSignal): Promise<any> {
+        return this.http.request(endpoint, { method, body: method === 'POST' ? body : undefined, signal });
+    }
 
-            if (response.status >= 400) {
-                let errorMessage = `${this.providerKey} error ${response.status}`;
-                try {
-                    const errorBody = response.json?.error?.message || response.text || 'No additional details';
-                    console.error(`[${this.constructor.name}] Error response body:`, errorBody);
-                    errorMessage += `: ${errorBody}`;
-                    if (response.status === 401) {
-                        errorMessage += '. Invalid API key. Verify your OpenAI API key at https://platform.openai.com/account/api-keys.';
-                    } else if (response.status === 400) {
-                        errorMessage += '. Check request parameters or model validity.';
-                    } else if (response.status === 429) {
-                        errorMessage += '. Rate limit exceeded. Try again later or check your OpenAI quota at https://platform.openai.com/account/usage.';
-                    } else if (response.status === 403) {
-                        errorMessage += '. Check your API key permissions or account status at https://platform.openai.com/account.';
-                    } else if (response.status >= 500) {
-                        errorMessage += '. Server error at OpenAI. Try again later or contact OpenAI support.';
-                    }
-                } catch (parseError) {
-                    errorMessage += ': Failed to parse error details';
-                }
-                throw new Error(errorMessage);
-            }
-            return response.json;
-        } catch (error) {
-            console.error(`[${this.constructor.name}] API request failed:`, error);
-            throw error;
-        }
+    protected async makeStreamRequest(endpoint: string, body: any, signal?: AbortSignal): Promise<Response> {
+        return this.http.stream(endpoint, {
+            // Ask for a final usage event so streamed requests can be priced
+            body: { ...body, stream: true, stream_options: { include_usage: true } },
+            headers: { Accept: 'text/event-stream' },
+            signal,
+        });
     }
 
     protected async validateModelInternal(
@@ -62,33 +53,7 @@ export abstract class OpenAIBaseAdapter {
         defaultModel: string,
         fallbackModel: string
     ): Promise<string> {
-        console.log(`[${this.constructor.name}] Validating model: ${model || 'undefined'} (default: ${defaultModel}, fallback: ${fallbackModel})`);
-        const candidateModel = model || defaultModel;
-
-        try {
-            const availableModels = await OpenAIBaseAdapter.fetchModels(this.apiKey);
-            console.log(`[${this.constructor.name}] Available models:`, availableModels);
-
-            if (availableModels.includes(candidateModel)) {
-                console.log(`[${this.constructor.name}] Model validated:`, candidateModel);
-                return candidateModel;
-            }
-            if (availableModels.includes(defaultModel)) {
-                console.warn(`[${this.constructor.name}] Invalid model '${candidateModel}', falling back to default '${defaultModel}'`);
-                return defaultModel;
-            }
-            if (availableModels.includes(fallbackModel)) {
-                console.warn(`[${this.constructor.name}] Invalid models '${candidateModel}' and '${defaultModel}', falling back to known '${fallbackModel}'`);
-                return fallbackModel;
-            }
-            console.error(`[${this.constructor.name}] No valid models available from list:`, availableModels);
-            throw new Error(`No valid ${this.providerKey} models available.`);
-        } catch (error) {
-            console.error(`[${this.constructor.name}] Error fetching/validating models:`, error);
-            const finalFallback = defaultModel || fallbackModel;
-            console.warn(`[${this.constructor.name}] Using fallback model due to error:`, finalFallback);
-            return finalFallback;
-        }
+        return modelCatalog.resolveModel(this.providerKey, model, defaultModel, fallbackModel);
     }
 
     public static async fetchModels(apiKey: string): Promise<string[]> {
@@ -96,39 +61,10 @@ export abstract class OpenAIBaseAdapter {
             if (!apiKey) {
                 throw new Error(`[OpenAIBaseAdapter] API key is required for fetching models.`);
             }
-            const url = 'https://api.openai.com/v1/models';
-            console.log(`[OpenAIBaseAdapter] Sending model fetch request:`, {
-                url,
-                headers: { Authorization: `Bearer ${apiKey.trim()}` }
-            });
-
-            const response = await requestUrl({
-                url,
-                method: 'GET',
-                headers: {
-                    Authorization: `Bearer ${apiKey.trim()}`,
-                    'Content-Type': 'application/json'
-                }
-            });
-
-            if (response.status >= 400) {
-                let errorMessage = `openai error: ${response.status}`;
-                try {
-                    const errorBody = response.json?.error?.message || response.text || 'No additional details';
-                    console.log(`[OpenAIBaseAdapter] Error response body:`, errorBody);
-                    errorMessage += ` - ${errorBody}`;
-                    if (response.status === 401) {
-                        errorMessage += '. Invalid API key. Verify your OpenAI API key at https://platform.openai.com/account/api-keys.';
-                    } else if (response.status === 403) {
-                        errorMessage += '. Check your API key permissions or account status at https://platform.openai.com/account.';
-                    }
-                } catch {
-                    errorMessage += ' - Failed to parse error details';
-                }
-                throw new Error(errorMessage);
-            }
+            const client = createOpenAIClient(apiKey.trim(), 'OpenAIBaseAdapter');
+            const data = await client.request('models', { method: 'GET' });
 
-            const models = (response.json as { data: { id: string }[] }).data
+            const models = (data as { data: { id: string }[] }).data
                 ?.map(m => m.id)
                 .filter(id => id.startsWith('gpt-') || id.startsWith('chatgpt-'))
                 .sort() ?? [];
@@ -1,7 +1,53 @@
-import { requestUrl } from 'obsidian';
+import type { ErrorHints } from '../../core/errors';
+import { HttpClient } from '../../core/HttpClient';
+import { modelCatalog } from '../../core/ModelCatalog';
+
+const STABILITYAI_ERROR_HINTS: ErrorHints = {
+    auth: 'Verify your StabilityAI API key at https://platform.stability.ai/account/keys.',
+    invalid_request: 'Check request parameters or model validity.',
+    rate_limit: 'Rate limit exceeded. Try again later.',
+    quota: 'Check your StabilityAI credits at https://platform.stability.ai/account/credits.',
+    server: 'Server error at StabilityAI. Try again later or contact StabilityAI support.',
+};
+
+export interface StableImageModel {
+    endpoint: 'core' | 'ultra' | 'sd3';
+    outputFormats: string[];
+    negativePrompt: boolean;
+    stylePreset: boolean;
+}
+
+/** Models the Stable Image generate endpoints accept; SD3.x models share the `sd3` endpoint */
+export const STABILITY_IMAGE_MODELS: Record<string, StableImageModel> = {
+    'stable-image-core': { endpoint: 'core', outputFormats: ['png', 'jpeg', 'webp'], negativePrompt: true, stylePreset: true },
+    'stable-image-ultra': { endpoint: 'ultra', outputFormats: ['png', 'jpeg', 'webp'], negativePrompt: true, stylePreset: false },
+    'sd3.5-large': { endpoint: 'sd3', outputFormats: ['png', 'jpeg'], negativePrompt: true, stylePreset: false },
+    'sd3.5-large-turbo': { endpoint: 'sd3', outputFormats: ['png', 'jpeg'], negativePrompt: false, stylePreset: false },
+    'sd3.5-medium': { endpoint: 'sd3', outputFormats: ['png', 'jpeg'], negativePrompt: true, stylePreset: false },
+};
+
+export const STABILITY_ASPECT_RATIOS = ['1:1', '16:9', '21:9', '2:3', '3:2', '4:5', '5:4', '9:16', '9:21'];
+
+export const STABILITY_STYLE_PRESETS = [
+    '3d-model', 'analog-film', 'anime', 'cinematic', 'comic-book', 'digital-art', 'enhance', 'fantasy-art',
+    'isometric', 'line-art', 'low-poly', 'modeling-compound', 'neon-punk', 'origami', 'photographic',
+    'pixel-art', 'tile-texture',
+];
+
+// Endpoints are prefixed with the API version ('v1/...', 'v2beta/...')
+function createStabilityAIClient(apiKey: string, logPrefix: string): HttpClient {
+    return new HttpClient({
+        provider: 'stabilityai',
+        baseUrl: 'https://api.stability.ai',
+        logPrefix,
+        authHeaders: () => ({ Authorization: `Bearer ${apiKey}` }),
+        errorHints: STABILITYAI_ERROR_HINTS,
+    });
+}
 
 export abstract class StabilityAIBaseAdapter {
     protected apiKey: string;
+    protected http: HttpClient;
     public providerKey = 'stabilityai';
 
     constructor(apiKey: string) {
@@ -9,52 +55,13 @@ export abstract class StabilityAIBaseAdapter {
             throw new Error(`[${this.constructor.name}] API key is required.`);
         }
         this.apiKey = apiKey.trim();
+        this.http = createStabilityAIClient(this.apiKey, this.constructor.name);
         console.log(`[${this.constructor.name}] Initialized for provider: ${this.providerKey}`);
         console.log(`[${this.constructor.name}] API key provided: [REDACTED]`);
     }
 
-    protected async makeRequest(endpoint: string, body: any, method: 'POST' | 'GET' = 'POST'): Promise<any> {
-        const url = `https://api.stability.ai/v1/${endpoint}`;
-        console.log(`[${this.constructor.name}] Sending ${method} request to ${url}`);
-
-        try {
-            const response = await requestUrl({
-                url,
-                method,
-                headers: {
-                    Authorization: `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json',
-                },
-                body: method === 'POST' ? JSON.stringify(body) : undefined,
-            });
-
-            if (response.status >= 400) {
-                let errorMessage = `${this.providerKey} error ${response.status}`;
-                try {
-                    const errorBody = response.json?.error?.message || response.text || 'No additional details';
-                    console.error(`[${this.constructor.name}] Error response body:`, errorBody);
-                    errorMessage += `: ${errorBody}`;
-                    if (response.status === 401) {
-                        errorMessage += '. Invalid API key. Verify your StabilityAI API key at https://platform.stability.ai/account/keys.';
-                    } else if (response.status === 400) {
-                        errorMessage += '. Check request parameters or model validity.';
-                    } else if (response.status === 429) {
-                        errorMessage += '. Rate limit exceeded. Try again later or check your StabilityAI quota at https://platform.stability.ai/account/credits.';
-                    } else if (response.status === 403) {
-                        errorMessage += '. Check your API key permissions or account status at https://platform.stability.ai/account.';
-                    } else if (response.status >= 500) {
-                        errorMessage += '. Server error at StabilityAI. Try again later or contact StabilityAI support.';
-                    }
-                } catch (parseError) {
-                    errorMessage += ': Failed to parse error details';
-                }
-                throw new Error(errorMessage);
-            }
-            return response.json;
-        } catch (error) {
-            console.error(`[${this.constructor.name}] API request failed:`, error);
-            throw error;
-        }
+    protected async makeRequest(endpoint: string, body: any, method: 'POST' | 'GET' = 'POST', signal?: AbortSignal): Promise<any> {
+        return this.http.request(endpoint, { method, body: method === 'POST' ? body : undefined, signal });
     }
 
     protected async validateModelInternal(
@@ -62,81 +69,28 @@ export abstract class StabilityAIBaseAdapter {
         defaultModel: string,
         fallbackModel: string
     ): Promise<string> {
-        console.log(`[${this.constructor.name}] Validating model: ${model || 'undefined'} (default: ${defaultModel}, fallback: ${fallbackModel})`);
-        const candidateModel = model || defaultModel;
-
-        try {
-            const availableModels = await StabilityAIBaseAdapter.fetchModels(this.apiKey);
-            console.log(`[${this.constructor.name}] Available models:`, availableModels);
-
-            if (availableModels.includes(candidateModel)) {
-                console.log(`[${this.constructor.name}] Model validated:`, candidateModel);
-                return candidateModel;
-            }
-            if (availableModels.includes(defaultModel)) {
-                console.warn(`[${this.constructor.name}] Invalid model '${candidateModel}', falling back to default '${defaultModel}'`);
-                return defaultModel;
-            }
-            if (availableModels.includes(fallbackModel)) {
-                console.warn(`[${this.constructor.name}] Invalid models '${candidateModel}' and '${defaultModel}', falling back to known '${fallbackModel}'`);
-                return fallbackModel;
-            }
-            console.error(`[${this.constructor.name}] No valid models available from list:`, availableModels);
-            throw new Error(`No valid ${this.providerKey} models available.`);
-        } catch (error) {
-            console.error(`[${this.constructor.name}] Error fetching/validating models:`, error);
-            const finalFallback = defaultModel || fallbackModel;
-            console.warn(`[${this.constructor.name}] Using fallback model due to error:`, finalFallback);
-            return finalFallback;
-        }
+        return modelCatalog.resolveModel(this.providerKey, model, defaultModel, fallbackModel);
     }
 
+    /**
+     * Not live discovery: Stability has no endpoint listing the Stable Image
+     * models, so this returns the fixed STABILITY_IMAGE_MODELS list once the
+     * account balance endpoint has confirmed the key works.
+     */
     public static async fetchModels(apiKey: string): Promise<string[]> {
         try {
             if (!apiKey) {
                 throw new Error(`[StabilityAIBaseAdapter] API key is required for fetching models.`);
             }
-            const url = 'https://api.stability.ai/v1/engines/list';
-            console.log(`[StabilityAIBaseAdapter] Sending model fetch request:`, {
-                url,
-                headers: { Authorization: `Bearer ${apiKey.trim()}` }
-            });
-
-            const response = await requestUrl({
-                url,
-                method: 'GET',
-                headers: {
-                    Authorization: `Bearer ${apiKey.trim()}`,
-                    'Content-Type': 'application/json'
-                }
-            });
-
-            if (response.status >= 400) {
-                let errorMessage = `stabilityai error: ${response.status}`;
-                try {
-                    const errorBody = response.json?.error?.message || response.text || 'No additional details';
-                    console.log(`[StabilityAIBaseAdapter] Error response body:`, errorBody);
-                    errorMessage += ` - ${errorBody}`;
-                    if (response.status === 401) {
-                        errorMessage += '. Invalid API key. Verify your StabilityAI API key at https://platform.stability.ai/account/keys.';
-                    } else if (response.status === 403) {
-                        errorMessage += '. Check your API key permissions or account status at https://platform.stability.ai/account.';
-                    }
-                } catch {
-                    errorMessage += ' - Failed to parse error details';
-                }
-                throw new Error(errorMessage);
-            }
+            const client = createStabilityAIClient(apiKey.trim(), 'StabilityAIBaseAdapter');
+            await client.request('v1/user/balance', { method: 'GET' });
 
-            const models = (response.json as { id: string }[])
-                ?.map(m => m.id)
-                .filter(id => id.includes('stable-diffusion'))
-                .sort() ?? [];
-            console.log(`[StabilityAIBaseAdapter] Fetched models:`, models);
+            const models = Object.keys(STABILITY_IMAGE_MODELS);
+            console.log(`[StabilityAIBaseAdapter] Key accepted; supported models:`, models);
             return models;
         } catch (error) {
             console.error(`[StabilityAIBaseAdapter] Model fetch error:`, error);
             throw error;
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import type { EmbeddingAdapter, EmbeddingRequest, EmbeddingResponse } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { GeminiBaseAdapter, normalizeGeminiModel } from '../base/GeminiBaseAdapter';
+
+export class GeminiEmbeddingAdapter extends GeminiBaseAdapter implements EmbeddingAdapter {
+    private defaultModel: string;
+
+    constructor(apiKey: string, model = 'text-embedding-004') {
+        super(apiKey);
+        this.defaultModel = model;
+        console.log('[GeminiEmbeddingAdapter] Initialized with model:', model);
+    }
+
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+        const model = normalizeGeminiModel(request.model || this.defaultModel);
+        const body = {
+            requests: request.input.map(text => ({
+                model: `models/${model}`,
+                content: { parts: [{ text }] },
+                ...(request.dimensions ? { outputDimensionality: request.dimensions } : {}),
+            })),
+        };
+
+        console.log('[GeminiEmbeddingAdapter] Sending request:', { model, inputs: request.input.length });
+
+        // outputDimensionality is only accepted by v1beta
+        const data = await this.makeRequest(`models/${model}:batchEmbedContents`, body, 'POST', 'v1beta', request.signal);
+        if (!Array.isArray(data.embeddings)) {
+            console.error('[GeminiEmbeddingAdapter] Unexpected response format:', data);
+            throw new ServerError('Unexpected Gemini embeddings response format', this.providerKey);
+        }
+
+        return {
+            embeddings: data.embeddings.map((item: { values: number[] }) => item.values),
+            model,
+        };
+    }
+}
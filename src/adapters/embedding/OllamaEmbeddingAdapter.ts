@@ -0,0 +1,31 @@
+import type { EmbeddingAdapter, EmbeddingRequest, EmbeddingResponse } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { OllamaBaseAdapter } from '../base/OllamaBaseAdapter';
+
+export class OllamaEmbeddingAdapter extends OllamaBaseAdapter implements EmbeddingAdapter {
+    private defaultModel: string;
+
+    constructor(host?: string, model = 'nomic-embed-text') {
+        super(host);
+        this.defaultModel = model;
+        console.log('[OllamaEmbeddingAdapter] Initialized with model:', model);
+    }
+
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+        const model = request.model || this.defaultModel;
+        console.log('[OllamaEmbeddingAdapter] Sending request:', { model, inputs: request.input.length });
+
+        // /api/embeddings takes one prompt per call
+        const embeddings: number[][] = [];
+        for (const prompt of request.input) {
+            const data = await this.makeRequest('api/embeddings', { model, prompt }, 'POST', request.signal);
+            if (!Array.isArray(data.embedding)) {
+                console.error('[OllamaEmbeddingAdapter] Unexpected response format:', data);
+                throw new ServerError('Unexpected Ollama embeddings response format', this.providerKey);
+            }
+            embeddings.push(data.embedding);
+        }
+
+        return { embeddings, model };
+    }
+}
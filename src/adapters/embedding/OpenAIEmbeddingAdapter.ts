@@ -0,0 +1,43 @@
+import type { EmbeddingAdapter, EmbeddingRequest, EmbeddingResponse } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { OpenAIBaseAdapter } from '../base/OpenAIBaseAdapter';
+
+export class OpenAIEmbeddingAdapter extends OpenAIBaseAdapter implements EmbeddingAdapter {
+    private defaultModel: string;
+
+    constructor(apiKey: string, model = 'text-embedding-3-small') {
+        super(apiKey);
+        this.defaultModel = model;
+        console.log('[OpenAIEmbeddingAdapter] Initialized with model:', model);
+    }
+
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+        const model = request.model || this.defaultModel;
+        const body: any = {
+            model,
+            input: request.input,
+        };
+        // Only the text-embedding-3 family accepts a custom size
+        if (request.dimensions && model.startsWith('text-embedding-3')) {
+            body.dimensions = request.dimensions;
+        }
+
+        console.log('[OpenAIEmbeddingAdapter] Sending request:', { model, inputs: request.input.length });
+
+        const data = await this.makeRequest('embeddings', body, 'POST', request.signal);
+        if (!Array.isArray(data.data)) {
+            console.error('[OpenAIEmbeddingAdapter] Unexpected response format:', data);
+            throw new ServerError('Unexpected OpenAI embeddings response format', this.providerKey);
+        }
+
+        const embeddings = [...data.data]
+            .sort((a: { index: number }, b: { index: number }) => a.index - b.index)
+            .map((item: { embedding: number[] }) => item.embedding);
+
+        return {
+            embeddings,
+            model: data.model || model,
+            tokensUsed: data.usage?.total_tokens,
+        };
+    }
+}
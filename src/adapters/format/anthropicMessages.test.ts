@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { parseAnthropicStreamChunk } from './anthropicMessages';
+
+describe('parseAnthropicStreamChunk', () => {
+    it('reads input tokens and the model from message_start', () => {
+        const event = { type: 'message_start', message: { model: 'claude-3-5-sonnet-20241022', usage: { input_tokens: 25, output_tokens: 1 } } };
+        expect(parseAnthropicStreamChunk(JSON.stringify(event))).toEqual({
+            delta: '',
+            usage: { promptTokens: 25, completionTokens: 1, totalTokens: 26 },
+            model: 'claude-3-5-sonnet-20241022',
+        });
+    });
+
+    it('reads text deltas', () => {
+        const event = { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hi' } };
+        expect(parseAnthropicStreamChunk(JSON.stringify(event))).toEqual({ delta: 'Hi' });
+    });
+
+    it('merges the output count from message_delta with the earlier input tokens', () => {
+        const previous = { promptTokens: 25, completionTokens: 1, totalTokens: 26 };
+        const event = { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 15 } };
+        expect(parseAnthropicStreamChunk(JSON.stringify(event), previous).usage).toEqual({ promptTokens: 25, completionTokens: 15, totalTokens: 40 });
+    });
+
+    it('ignores other events', () => {
+        expect(parseAnthropicStreamChunk('{"type":"ping"}')).toEqual({ delta: '', model: undefined });
+        expect(parseAnthropicStreamChunk('{"type":"content_block_delta","delta":{"type":"input_json_delta","partial_json":"{"}}').delta).toBe('');
+    });
+
+    it('throws on error events', () => {
+        expect(() => parseAnthropicStreamChunk('{"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}')).toThrow(
+            'anthropic stream error: Overloaded'
+        );
+    });
+});
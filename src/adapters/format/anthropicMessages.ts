@@ -0,0 +1,167 @@
+// src/adapters/format/anthropicMessages.ts
+import type {
+    ChatMessage,
+    FinishReason,
+    LLMStreamChunk,
+    ResponseFormat,
+    TokenUsage,
+    ToolCall,
+    ToolChoice,
+    ToolDefinition,
+} from '../../core/Adapter';
+import type { SamplingOptions } from '../../core/sampling';
+
+export type AnthropicContentBlock =
+    | { type: 'text'; text: string }
+    | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+    | { type: 'tool_result'; tool_use_id: string; content: string };
+
+export interface AnthropicMessage {
+    role: 'user' | 'assistant';
+    content: string | AnthropicContentBlock[];
+}
+
+function toContentBlocks(msg: ChatMessage): AnthropicContentBlock[] {
+    if (msg.role === 'tool') {
+        return [{ type: 'tool_result', tool_use_id: msg.toolCallId ?? '', content: msg.content }];
+    }
+    const blocks: AnthropicContentBlock[] = msg.content ? [{ type: 'text', text: msg.content }] : [];
+    for (const call of msg.toolCalls ?? []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+    }
+    return blocks;
+}
+
+/**
+ * Anthropic takes system instructions as a top-level `system` field,
+ * so system turns are pulled out of the conversation and joined.
+ * Tool results travel as `user` turns, and consecutive turns with the same
+ * role are merged so several tool results share one message.
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): { system?: string; messages: AnthropicMessage[] } {
+    const systemParts = messages.filter(msg => msg.role === 'system').map(msg => msg.content);
+    const turns: AnthropicMessage[] = [];
+
+    for (const msg of messages) {
+        if (msg.role === 'system') continue;
+        const role = msg.role === 'assistant' ? 'assistant' : 'user';
+        const isPlain = msg.role !== 'tool' && !msg.toolCalls?.length;
+        const previous = turns[turns.length - 1];
+
+        if (previous && previous.role === role && (!isPlain || typeof previous.content !== 'string')) {
+            const existing: AnthropicContentBlock[] = typeof previous.content === 'string'
+                ? [{ type: 'text', text: previous.content }]
+                : previous.content;
+            previous.content = [...existing, ...toContentBlocks(msg)];
+        } else {
+            turns.push({ role, content: isPlain ? msg.content : toContentBlocks(msg) });
+        }
+    }
+
+    return {
+        system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+        messages: turns,
+    };
+}
+
+/** Maps tool definitions and tool choice to the `tools` / `tool_choice` fields */
+export function toAnthropicTools(tools: ToolDefinition[] | undefined, toolChoice: ToolChoice | undefined): Record<string, unknown> {
+    if (!tools || tools.length === 0) return {};
+    let choice: Record<string, unknown> | undefined;
+    if (toolChoice === 'auto') choice = { type: 'auto' };
+    else if (toolChoice === 'none') choice = { type: 'none' };
+    else if (toolChoice === 'required') choice = { type: 'any' };
+    else if (toolChoice) choice = { type: 'tool', name: toolChoice.name };
+
+    return {
+        tools: tools.map(tool => ({
+            name: tool.name,
+            description: tool.description ?? '',
+            input_schema: tool.parameters,
+        })),
+        ...(choice ? { tool_choice: choice } : {}),
+    };
+}
+
+/** Collects `tool_use` blocks from a Messages API response */
+export function parseAnthropicToolCalls(content: any[]): ToolCall[] | undefined {
+    const calls = content
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: block.input ?? {} }));
+    return calls.length > 0 ? calls : undefined;
+}
+
+/**
+ * Anthropic has no JSON mode, so structured output is requested by forcing
+ * a single tool call whose input schema is the requested schema.
+ */
+export function toAnthropicStructuredOutput(format: ResponseFormat | undefined): Record<string, unknown> {
+    if (!format || format.type !== 'json') return {};
+    const name = format.name || 'structured_output';
+    return {
+        tools: [{
+            name,
+            description: 'Return the response as structured data matching the input schema.',
+            input_schema: format.schema ?? { type: 'object' },
+        }],
+        tool_choice: { type: 'tool', name },
+    };
+}
+
+export function toAnthropicSampling(options: SamplingOptions): Record<string, unknown> {
+    return {
+        ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+        ...(options.topK !== undefined ? { top_k: options.topK } : {}),
+        ...(options.stop ? { stop_sequences: options.stop } : {}),
+    };
+}
+
+export function parseAnthropicUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        promptTokens: usage.input_tokens,
+        completionTokens: usage.output_tokens,
+        totalTokens: (usage.input_tokens || 0) + (usage.output_tokens || 0),
+    };
+}
+
+export function normalizeAnthropicStopReason(reason: string | null | undefined): FinishReason | undefined {
+    switch (reason) {
+        case 'end_turn':
+        case 'stop_sequence':
+            return 'stop';
+        case 'max_tokens':
+            return 'length';
+        case 'tool_use':
+            return 'tool_calls';
+        case 'refusal':
+            return 'content_filter';
+        case null:
+        case undefined:
+            return undefined;
+        default:
+            return 'other';
+    }
+}
+
+/**
+ * Pulls the text delta and token usage out of one Messages API stream event.
+ * `message_start` carries the input tokens and `message_delta` the running
+ * output count, so each is merged into `previous` to report the whole usage.
+ */
+export function parseAnthropicStreamChunk(data: string, previous?: TokenUsage): LLMStreamChunk {
+    const event = JSON.parse(data);
+    if (event.type === 'error') {
+        throw new Error(`anthropic stream error: ${event.error?.message || 'Unknown error'}`);
+    }
+    if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        return { delta: event.delta.text ?? '' };
+    }
+    const usage = event.type === 'message_start' ? event.message?.usage : event.type === 'message_delta' ? event.usage : undefined;
+    // Only message_start names the model
+    const model: string | undefined = event.type === 'message_start' ? event.message?.model : undefined;
+    if (!usage) return { delta: '', model };
+    const promptTokens = usage.input_tokens ?? previous?.promptTokens ?? 0;
+    const completionTokens = usage.output_tokens ?? previous?.completionTokens ?? 0;
+    return { delta: '', usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }, model };
+}
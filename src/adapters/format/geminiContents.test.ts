@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parseGeminiStreamChunk } from './geminiContents';
+
+describe('parseGeminiStreamChunk', () => {
+    it('joins the text parts and reads the running usage and model', () => {
+        const event = {
+            candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }, { text: ', world' }] } }],
+            usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 3, totalTokenCount: 7 },
+            modelVersion: 'gemini-1.5-flash-002',
+        };
+        expect(parseGeminiStreamChunk(JSON.stringify(event))).toEqual({
+            delta: 'Hello, world',
+            usage: { promptTokens: 4, completionTokens: 3, totalTokens: 7 },
+            model: 'gemini-1.5-flash-002',
+        });
+    });
+
+    it('returns an empty delta for events without candidates', () => {
+        expect(parseGeminiStreamChunk('{"promptFeedback":{"blockReason":"SAFETY"}}')).toEqual({ delta: '', usage: undefined, model: undefined });
+    });
+});
@@ -0,0 +1,196 @@
+// src/adapters/format/geminiContents.ts
+import type {
+    ChatMessage,
+    FinishReason,
+    LLMStreamChunk,
+    JSONSchema,
+    ResponseFormat,
+    TokenUsage,
+    ToolCall,
+    ToolChoice,
+    ToolDefinition,
+} from '../../core/Adapter';
+import type { SamplingOptions } from '../../core/sampling';
+
+export type GeminiPart =
+    | { text: string }
+    | { functionCall: { name: string; args: Record<string, unknown> } }
+    | { functionResponse: { name: string; response: Record<string, unknown> } };
+
+export interface GeminiContent {
+    role: 'user' | 'model';
+    parts: GeminiPart[];
+}
+
+function toParts(msg: ChatMessage, toolNames: Record<string, string>): GeminiPart[] {
+    if (msg.role === 'tool') {
+        let response: Record<string, unknown>;
+        try {
+            const parsed = JSON.parse(msg.content);
+            response = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { result: parsed };
+        } catch {
+            response = { result: msg.content };
+        }
+        const name = msg.name ?? toolNames[msg.toolCallId ?? ''] ?? 'tool';
+        return [{ functionResponse: { name, response } }];
+    }
+    const parts: GeminiPart[] = msg.content ? [{ text: msg.content }] : [];
+    for (const call of msg.toolCalls ?? []) {
+        parts.push({ functionCall: { name: call.name, args: call.arguments } });
+    }
+    return parts;
+}
+
+/**
+ * Gemini calls the assistant role `model` and takes system turns
+ * through `systemInstruction` rather than inside `contents`.
+ * Function responses are sent as `user` turns; consecutive turns with the
+ * same role are merged because Gemini expects them to alternate.
+ */
+export function toGeminiContents(messages: ChatMessage[]): {
+    systemInstruction?: { parts: { text: string }[] };
+    contents: GeminiContent[];
+} {
+    const systemParts = messages.filter(msg => msg.role === 'system').map(msg => ({ text: msg.content }));
+    const toolNames: Record<string, string> = {};
+    const contents: GeminiContent[] = [];
+
+    for (const msg of messages) {
+        if (msg.role === 'system') continue;
+        msg.toolCalls?.forEach(call => { toolNames[call.id] = call.name; });
+
+        const role = msg.role === 'assistant' ? 'model' : 'user';
+        const parts = toParts(msg, toolNames);
+        const previous = contents[contents.length - 1];
+        if (previous && previous.role === role) {
+            previous.parts.push(...parts);
+        } else {
+            contents.push({ role, parts });
+        }
+    }
+
+    return {
+        systemInstruction: systemParts.length > 0 ? { parts: systemParts } : undefined,
+        contents,
+    };
+}
+
+/** Maps tool definitions and tool choice to `tools` / `toolConfig` */
+export function toGeminiTools(tools: ToolDefinition[] | undefined, toolChoice: ToolChoice | undefined): Record<string, unknown> {
+    if (!tools || tools.length === 0) return {};
+    let functionCallingConfig: Record<string, unknown> | undefined;
+    if (toolChoice === 'auto') functionCallingConfig = { mode: 'AUTO' };
+    else if (toolChoice === 'none') functionCallingConfig = { mode: 'NONE' };
+    else if (toolChoice === 'required') functionCallingConfig = { mode: 'ANY' };
+    else if (toolChoice) functionCallingConfig = { mode: 'ANY', allowedFunctionNames: [toolChoice.name] };
+
+    return {
+        tools: [{
+            functionDeclarations: tools.map(tool => ({
+                name: tool.name,
+                description: tool.description ?? '',
+                parameters: toGeminiSchema(tool.parameters),
+            })),
+        }],
+        ...(functionCallingConfig ? { toolConfig: { functionCallingConfig } } : {}),
+    };
+}
+
+/** Collects `functionCall` parts. Gemini has no call IDs, so stable ones are derived from position */
+export function parseGeminiToolCalls(parts: any[]): ToolCall[] | undefined {
+    const calls = parts
+        .filter(part => part.functionCall)
+        .map((part, index) => ({
+            id: `${part.functionCall.name}-${index}`,
+            name: part.functionCall.name,
+            arguments: part.functionCall.args ?? {},
+        }));
+    return calls.length > 0 ? calls : undefined;
+}
+
+/**
+ * Gemini accepts an OpenAPI subset of JSON Schema with upper-case type names
+ * and rejects keywords it does not know, so the schema is rewritten before sending.
+ */
+export function toGeminiSchema(schema: JSONSchema): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    if (schema.type) result.type = schema.type.toUpperCase();
+    if (schema.description) result.description = schema.description;
+    if (schema.enum) result.enum = schema.enum.map(String);
+    if (schema.nullable) result.nullable = true;
+    if (schema.required) result.required = schema.required;
+    if (schema.minItems !== undefined) result.minItems = schema.minItems;
+    if (schema.maxItems !== undefined) result.maxItems = schema.maxItems;
+    if (schema.items) result.items = toGeminiSchema(schema.items);
+    if (schema.properties) {
+        const properties: Record<string, unknown> = {};
+        for (const key of Object.keys(schema.properties)) {
+            properties[key] = toGeminiSchema(schema.properties[key]);
+        }
+        result.properties = properties;
+    }
+    return result;
+}
+
+/** Maps a ResponseFormat to the generationConfig fields for JSON mode */
+export function toGeminiResponseConfig(format: ResponseFormat | undefined): Record<string, unknown> {
+    if (!format || format.type !== 'json') return {};
+    return {
+        responseMimeType: 'application/json',
+        ...(format.schema ? { responseSchema: toGeminiSchema(format.schema) } : {}),
+    };
+}
+
+/** Sampling fields for generationConfig */
+export function toGeminiSampling(options: SamplingOptions): Record<string, unknown> {
+    return {
+        ...(options.topP !== undefined ? { topP: options.topP } : {}),
+        ...(options.topK !== undefined ? { topK: options.topK } : {}),
+        ...(options.stop ? { stopSequences: options.stop } : {}),
+        ...(options.seed !== undefined ? { seed: options.seed } : {}),
+        ...(options.presencePenalty !== undefined ? { presencePenalty: options.presencePenalty } : {}),
+        ...(options.frequencyPenalty !== undefined ? { frequencyPenalty: options.frequencyPenalty } : {}),
+    };
+}
+
+export function parseGeminiUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        promptTokens: usage.promptTokenCount,
+        completionTokens: usage.candidatesTokenCount,
+        totalTokens: usage.totalTokenCount,
+    };
+}
+
+export function normalizeGeminiFinishReason(reason: string | undefined): FinishReason | undefined {
+    switch (reason) {
+        case 'STOP':
+            return 'stop';
+        case 'MAX_TOKENS':
+            return 'length';
+        case 'SAFETY':
+        case 'RECITATION':
+        case 'BLOCKLIST':
+        case 'PROHIBITED_CONTENT':
+        case 'SPII':
+            return 'content_filter';
+        case undefined:
+            return undefined;
+        default:
+            return 'other';
+    }
+}
+
+/**
+ * Pulls the text delta and token usage out of one streamGenerateContent event.
+ * Every event repeats the running `usageMetadata`, so the last one holds the totals.
+ */
+export function parseGeminiStreamChunk(data: string): LLMStreamChunk {
+    const event = JSON.parse(data);
+    const parts: { text?: string }[] = event.candidates?.[0]?.content?.parts ?? [];
+    return {
+        delta: parts.map(part => part.text ?? '').join(''),
+        usage: parseGeminiUsage(event.usageMetadata),
+        model: event.modelVersion,
+    };
+}
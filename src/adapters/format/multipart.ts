@@ -0,0 +1,45 @@
+// src/adapters/format/multipart.ts
+// multipart/form-data bodies for upload endpoints (audio transcription, Stability AI).
+
+export interface MultipartFile {
+    data: ArrayBuffer;
+    fileName: string;
+    contentType?: string;
+}
+
+export interface MultipartBody {
+    body: ArrayBuffer;
+    /** Value for the Content-Type header, including the boundary */
+    contentType: string;
+}
+
+/** Encodes form fields as multipart/form-data; requestUrl cannot send FormData */
+export function encodeMultipart(fields: Record<string, string | MultipartFile | undefined>): MultipartBody {
+    const boundary = `----aiNNS${Date.now().toString(16)}${Math.random().toString(16).slice(2)}`;
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+
+    Object.keys(fields).forEach(name => {
+        const value = fields[name];
+        if (value === undefined) return;
+        if (typeof value === 'string') {
+            chunks.push(encoder.encode(`--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`));
+            return;
+        }
+        chunks.push(encoder.encode(
+            `--${boundary}\r\nContent-Disposition: form-data; name="${name}"; filename="${value.fileName}"\r\n`
+            + `Content-Type: ${value.contentType ?? 'application/octet-stream'}\r\n\r\n`
+        ));
+        chunks.push(new Uint8Array(value.data));
+        chunks.push(encoder.encode('\r\n'));
+    });
+    chunks.push(encoder.encode(`--${boundary}--\r\n`));
+
+    const body = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        body.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return { body: body.buffer, contentType: `multipart/form-data; boundary=${boundary}` };
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseOllamaStreamChunk } from './ollamaChat';
+
+describe('parseOllamaStreamChunk', () => {
+    it('reads the content of an intermediate line', () => {
+        const line = '{"model":"llama3.2","message":{"role":"assistant","content":"Hi"},"done":false}';
+        expect(parseOllamaStreamChunk(line)).toEqual({ delta: 'Hi', usage: undefined, model: 'llama3.2' });
+    });
+
+    it('reads the token counts from the done line', () => {
+        const line = '{"model":"llama3.2","message":{"role":"assistant","content":""},"done":true,"prompt_eval_count":10,"eval_count":20}';
+        expect(parseOllamaStreamChunk(line).usage).toEqual({ promptTokens: 10, completionTokens: 20, totalTokens: 30 });
+    });
+
+    it('throws on error lines', () => {
+        expect(() => parseOllamaStreamChunk('{"error":"model not found"}')).toThrow('Ollama stream error: model not found');
+    });
+});
@@ -0,0 +1,113 @@
+// src/adapters/format/ollamaChat.ts
+// Request/response mapping for Ollama's native `/api/chat` endpoint.
+import type {
+    ChatMessage,
+    FinishReason,
+    LLMStreamChunk,
+    ResponseFormat,
+    TokenUsage,
+    ToolCall,
+    ToolDefinition,
+} from '../../core/Adapter';
+import type { SamplingOptions } from '../../core/sampling';
+
+export interface OllamaChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    /** Arguments are objects here, not JSON strings as in OpenAI's API */
+    tool_calls?: { function: { name: string; arguments: Record<string, unknown> } }[];
+    /** For `tool` messages */
+    tool_name?: string;
+}
+
+export function toOllamaMessages(messages: ChatMessage[]): OllamaChatMessage[] {
+    return messages.map(msg => {
+        if (msg.role === 'tool') {
+            return { role: 'tool', content: msg.content, ...(msg.name ? { tool_name: msg.name } : {}) };
+        }
+        if (msg.role === 'assistant' && msg.toolCalls?.length) {
+            return {
+                role: 'assistant',
+                content: msg.content,
+                tool_calls: msg.toolCalls.map(call => ({ function: { name: call.name, arguments: call.arguments } })),
+            };
+        }
+        return { role: msg.role, content: msg.content };
+    });
+}
+
+/** Ollama has no tool choice; the model decides whether to call a tool */
+export function toOllamaTools(tools: ToolDefinition[] | undefined): Record<string, unknown> {
+    if (!tools || tools.length === 0) return {};
+    return {
+        tools: tools.map(tool => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description ?? '',
+                parameters: tool.parameters,
+            },
+        })),
+    };
+}
+
+/** Ollama assigns no call IDs, so they are numbered per response */
+export function parseOllamaToolCalls(message: any): ToolCall[] | undefined {
+    if (!Array.isArray(message?.tool_calls) || message.tool_calls.length === 0) return undefined;
+    return message.tool_calls.map((call: any, index: number) => ({
+        id: `call_${index}`,
+        name: call.function?.name,
+        arguments: call.function?.arguments ?? {},
+    }));
+}
+
+/** `format` takes a JSON schema directly, or 'json' for free-form JSON */
+export function toOllamaFormat(format: ResponseFormat | undefined): Record<string, unknown> {
+    if (!format || format.type !== 'json') return {};
+    return { format: format.schema ?? 'json' };
+}
+
+/** Sampling parameters go in `options` together with generation limits */
+export function toOllamaSampling(options: SamplingOptions): Record<string, unknown> {
+    return {
+        ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+        ...(options.topK !== undefined ? { top_k: options.topK } : {}),
+        ...(options.stop ? { stop: options.stop } : {}),
+        ...(options.seed !== undefined ? { seed: options.seed } : {}),
+        ...(options.presencePenalty !== undefined ? { presence_penalty: options.presencePenalty } : {}),
+        ...(options.frequencyPenalty !== undefined ? { frequency_penalty: options.frequencyPenalty } : {}),
+    };
+}
+
+export function parseOllamaUsage(data: any): TokenUsage | undefined {
+    if (data?.prompt_eval_count === undefined && data?.eval_count === undefined) return undefined;
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export function normalizeOllamaDoneReason(reason: string | undefined): FinishReason | undefined {
+    switch (reason) {
+        case 'stop':
+            return 'stop';
+        case 'length':
+            return 'length';
+        case undefined:
+            return undefined;
+        default:
+            return 'other';
+    }
+}
+
+/** One line of a streamed `/api/chat` response; the last line (`done: true`) has the token counts */
+export function parseOllamaStreamChunk(line: string): LLMStreamChunk {
+    const event = JSON.parse(line);
+    if (event.error) {
+        throw new Error(`Ollama stream error: ${event.error}`);
+    }
+    return {
+        delta: event.message?.content ?? '',
+        usage: event.done ? parseOllamaUsage(event) : undefined,
+        model: event.model,
+    };
+}
@@ -0,0 +1,54 @@
+// src/adapters/format/openaiAudio.ts
+// Shared request/response mapping for OpenAI-compatible audio APIs (OpenAI, Groq, local servers).
+import type { SpeechFormat, SpeechRequest, TranscriptionRequest } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { encodeMultipart, type MultipartBody } from './multipart';
+
+const SPEECH_MIME_TYPES: Record<SpeechFormat, string> = {
+    mp3: 'audio/mpeg',
+    opus: 'audio/ogg',
+    aac: 'audio/aac',
+    flac: 'audio/flac',
+    wav: 'audio/wav',
+    pcm: 'audio/pcm',
+};
+
+export function speechMimeType(format: SpeechFormat): string {
+    return SPEECH_MIME_TYPES[format] ?? 'application/octet-stream';
+}
+
+/** Body for `audio/speech` */
+export function toOpenAISpeechBody(request: SpeechRequest, model: string, voice: string): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+        model,
+        input: request.text,
+        voice,
+        response_format: request.format ?? 'mp3',
+    };
+    if (request.speed !== undefined) body.speed = request.speed;
+    if (request.instructions) body.instructions = request.instructions;
+    return body;
+}
+
+export const DEFAULT_AUDIO_FILE_NAME = 'audio.wav';
+
+/** Form for `audio/transcriptions`; whisper.cpp's `/inference` accepts the same fields */
+export function toTranscriptionForm(request: TranscriptionRequest, model?: string): MultipartBody {
+    return encodeMultipart({
+        file: { data: request.audio, fileName: request.fileName || DEFAULT_AUDIO_FILE_NAME },
+        model,
+        language: request.language,
+        prompt: request.prompt,
+        temperature: request.temperature?.toString(),
+        response_format: 'json',
+    });
+}
+
+/** Reads `{ text }` from a transcription response */
+export function parseTranscriptionText(data: any, provider: string, logPrefix: string): string {
+    if (typeof data?.text !== 'string') {
+        console.error(`[${logPrefix}] Unexpected response format:`, data);
+        throw new ServerError(`Unexpected transcription response format from ${logPrefix}`, provider);
+    }
+    return data.text.trim();
+}
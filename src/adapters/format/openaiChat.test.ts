@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { parseOpenAIStreamChunk } from './openaiChat';
+
+describe('parseOpenAIStreamChunk', () => {
+    it('reads the text delta and model', () => {
+        const event = { model: 'gpt-4o-2024-08-06', choices: [{ index: 0, delta: { content: 'Hel' } }] };
+        expect(parseOpenAIStreamChunk(JSON.stringify(event))).toEqual({ delta: 'Hel', usage: undefined, model: 'gpt-4o-2024-08-06' });
+    });
+
+    it('returns an empty delta for role-only and finish events', () => {
+        expect(parseOpenAIStreamChunk('{"choices":[{"delta":{"role":"assistant"}}]}').delta).toBe('');
+        expect(parseOpenAIStreamChunk('{"choices":[{"delta":{},"finish_reason":"stop"}]}').delta).toBe('');
+    });
+
+    it('reads usage from the final include_usage event', () => {
+        const event = { choices: [], usage: { prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 } };
+        expect(parseOpenAIStreamChunk(JSON.stringify(event)).usage).toEqual({ promptTokens: 12, completionTokens: 30, totalTokens: 42 });
+    });
+
+    it("reads Groq's x_groq usage", () => {
+        const event = { choices: [{ delta: {} }], x_groq: { usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 } } };
+        expect(parseOpenAIStreamChunk(JSON.stringify(event)).usage).toEqual({ promptTokens: 5, completionTokens: 7, totalTokens: 12 });
+    });
+});
@@ -0,0 +1,151 @@
+// src/adapters/format/openaiChat.ts
+// Shared request/response mapping for OpenAI-compatible chat APIs (OpenAI, Groq, xAI, OpenRouter).
+import type {
+    ChatMessage,
+    FinishReason,
+    LLMStreamChunk,
+    ResponseFormat,
+    TokenUsage,
+    ToolCall,
+    ToolChoice,
+    ToolDefinition,
+} from '../../core/Adapter';
+import type { SamplingOptions } from '../../core/sampling';
+
+export interface OpenAIChatMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    tool_calls?: {
+        id: string;
+        type: 'function';
+        function: { name: string; arguments: string };
+    }[];
+    tool_call_id?: string;
+}
+
+export function toOpenAIMessages(messages: ChatMessage[]): OpenAIChatMessage[] {
+    return messages.map(msg => {
+        if (msg.role === 'tool') {
+            return { role: 'tool', content: msg.content, tool_call_id: msg.toolCallId };
+        }
+        if (msg.role === 'assistant' && msg.toolCalls?.length) {
+            return {
+                role: 'assistant',
+                content: msg.content,
+                tool_calls: msg.toolCalls.map(call => ({
+                    id: call.id,
+                    type: 'function' as const,
+                    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                })),
+            };
+        }
+        return { role: msg.role, content: msg.content };
+    });
+}
+
+/** Maps tool definitions and tool choice to the `tools` / `tool_choice` fields */
+export function toOpenAITools(tools: ToolDefinition[] | undefined, toolChoice: ToolChoice | undefined): Record<string, unknown> {
+    if (!tools || tools.length === 0) return {};
+    return {
+        tools: tools.map(tool => ({
+            type: 'function',
+            function: {
+                name: tool.name,
+                description: tool.description ?? '',
+                parameters: tool.parameters,
+            },
+        })),
+        ...(toolChoice
+            ? { tool_choice: typeof toolChoice === 'string' ? toolChoice : { type: 'function', function: { name: toolChoice.name } } }
+            : {}),
+    };
+}
+
+/** Reads `message.tool_calls` from a chat completion; arguments arrive as a JSON string */
+export function parseOpenAIToolCalls(message: any): ToolCall[] | undefined {
+    if (!Array.isArray(message?.tool_calls) || message.tool_calls.length === 0) return undefined;
+    return message.tool_calls.map((call: any) => {
+        let args: Record<string, unknown> = {};
+        try {
+            args = call.function?.arguments ? JSON.parse(call.function.arguments) : {};
+        } catch (error) {
+            console.warn('[openaiChat] Could not parse tool call arguments:', call.function?.arguments);
+        }
+        return { id: call.id, name: call.function?.name, arguments: args };
+    });
+}
+
+/**
+ * Maps a ResponseFormat to `response_format`. Providers without strict schema
+ * support (Groq) fall back to plain JSON mode; the gateway still validates the result.
+ */
+export function toOpenAIResponseFormat(
+    format: ResponseFormat | undefined,
+    supportsSchema = true
+): Record<string, unknown> | undefined {
+    if (!format || format.type !== 'json') return undefined;
+    if (format.schema && supportsSchema) {
+        return {
+            type: 'json_schema',
+            json_schema: {
+                name: format.name || 'response',
+                schema: format.schema,
+            },
+        };
+    }
+    return { type: 'json_object' };
+}
+
+/** `top_k` is only passed through by OpenRouter; callers filter with pickSampling first */
+export function toOpenAISampling(options: SamplingOptions): Record<string, unknown> {
+    return {
+        ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+        ...(options.topK !== undefined ? { top_k: options.topK } : {}),
+        ...(options.stop ? { stop: options.stop } : {}),
+        ...(options.seed !== undefined ? { seed: options.seed } : {}),
+        ...(options.presencePenalty !== undefined ? { presence_penalty: options.presencePenalty } : {}),
+        ...(options.frequencyPenalty !== undefined ? { frequency_penalty: options.frequencyPenalty } : {}),
+    };
+}
+
+export function parseOpenAIUsage(usage: any): TokenUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+    };
+}
+
+export function normalizeOpenAIFinishReason(reason: string | null | undefined): FinishReason | undefined {
+    switch (reason) {
+        case 'stop':
+            return 'stop';
+        case 'length':
+            return 'length';
+        case 'tool_calls':
+        case 'function_call':
+            return 'tool_calls';
+        case 'content_filter':
+            return 'content_filter';
+        case null:
+        case undefined:
+            return undefined;
+        default:
+            return 'other';
+    }
+}
+
+/**
+ * Pulls the text delta and any token usage out of one `chat.completion.chunk` stream event.
+ * Usage arrives in a final event with no choices when `stream_options.include_usage` is set;
+ * Groq also sends it as `x_groq.usage`.
+ */
+export function parseOpenAIStreamChunk(data: string): LLMStreamChunk {
+    const event = JSON.parse(data);
+    return {
+        delta: event.choices?.[0]?.delta?.content ?? '',
+        usage: parseOpenAIUsage(event.usage ?? event.x_groq?.usage),
+        model: event.model,
+    };
+}
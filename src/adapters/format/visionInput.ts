@@ -0,0 +1,105 @@
+// src/adapters/format/visionInput.ts
+// Image-plus-question requests in each provider's message format.
+import { arrayBufferToBase64 } from 'obsidian';
+import type { VisionRequest } from '../../core/Adapter';
+import { InvalidRequestError } from '../../core/errors';
+
+export const DEFAULT_CAPTION_PROMPT = 'Describe this image in one or two sentences.';
+
+export const DEFAULT_VISION_MAX_TOKENS = 1000;
+
+/** Recognizes PNG, JPEG, GIF and WebP by their magic bytes */
+export function detectImageMimeType(image: ArrayBuffer): string | undefined {
+    const bytes = new Uint8Array(image, 0, Math.min(image.byteLength, 12));
+    const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(bytes.subarray(start, end)));
+    if (bytes[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'image/jpeg';
+    if (ascii(0, 4) === 'GIF8') return 'image/gif';
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+    return undefined;
+}
+
+export interface EncodedImage {
+    mimeType: string;
+    base64: string;
+    question: string;
+}
+
+/** Throws an InvalidRequestError for unknown formats, so the gateway does not retry or fall back with the same image */
+export function encodeVisionInput(request: VisionRequest, provider: string): EncodedImage {
+    const mimeType = request.mimeType || detectImageMimeType(request.image);
+    if (!mimeType) {
+        throw new InvalidRequestError('Unrecognized image format; pass mimeType or use PNG, JPEG, GIF or WebP.', provider);
+    }
+    return {
+        mimeType,
+        base64: arrayBufferToBase64(request.image),
+        question: request.question?.trim() || DEFAULT_CAPTION_PROMPT,
+    };
+}
+
+/** `chat/completions` body for OpenAI-compatible APIs (OpenAI, xAI) */
+export function toOpenAIVisionBody(request: VisionRequest, model: string, provider: string): Record<string, unknown> {
+    const { mimeType, base64, question } = encodeVisionInput(request, provider);
+    return {
+        model,
+        messages: [{
+            role: 'user',
+            content: [
+                { type: 'text', text: question },
+                { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64}` } },
+            ],
+        }],
+        max_tokens: request.maxTokens ?? DEFAULT_VISION_MAX_TOKENS,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    };
+}
+
+/** `messages` body for Anthropic; the image goes before the question, as Anthropic recommends */
+export function toAnthropicVisionBody(request: VisionRequest, model: string, provider: string): Record<string, unknown> {
+    const { mimeType, base64, question } = encodeVisionInput(request, provider);
+    return {
+        model,
+        messages: [{
+            role: 'user',
+            content: [
+                { type: 'image', source: { type: 'base64', media_type: mimeType, data: base64 } },
+                { type: 'text', text: question },
+            ],
+        }],
+        max_tokens: request.maxTokens ?? DEFAULT_VISION_MAX_TOKENS,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    };
+}
+
+/** `generateContent` body for Gemini */
+export function toGeminiVisionBody(request: VisionRequest, provider: string): Record<string, unknown> {
+    const { mimeType, base64, question } = encodeVisionInput(request, provider);
+    return {
+        contents: [{
+            role: 'user',
+            parts: [
+                { inline_data: { mime_type: mimeType, data: base64 } },
+                { text: question },
+            ],
+        }],
+        generationConfig: {
+            maxOutputTokens: request.maxTokens ?? DEFAULT_VISION_MAX_TOKENS,
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        },
+    };
+}
+
+/** `/api/chat` body for Ollama, which takes raw base64 without a MIME type */
+export function toOllamaVisionBody(request: VisionRequest, model: string, provider: string): Record<string, unknown> {
+    const { base64, question } = encodeVisionInput(request, provider);
+    return {
+        model,
+        messages: [{ role: 'user', content: question, images: [base64] }],
+        stream: false,
+        options: {
+            num_predict: request.maxTokens ?? DEFAULT_VISION_MAX_TOKENS,
+            ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        },
+    };
+}
@@ -1,6 +1,8 @@
 import type { ImageRequest, ImageResponse } from '../../core/Adapter';
 import { GrokBaseAdapter } from '../base/GrokBaseAdapter';
-import { requestUrl } from 'obsidian';
+import { isAbortError } from '../../utils/abort';
+import { getTransport } from '../../core/transport';
+import { ProviderError } from '../../core/errors';
 
 export class GrokImageAdapter extends GrokBaseAdapter {
   private defaultModel: string;
@@ -56,7 +58,9 @@ export class GrokImageAdapter extends GrokBaseAdapter {
 
     try {
       // Use /v1/images/generations endpoint (xAI API)
-      const data = await this.makeRequest('images/generations', body, 'POST');
+      const startedAt = Date.now();
+      const data = await this.makeRequest('images/generations', body, 'POST', request.signal);
+      const latencyMs = Date.now() - startedAt;
 
       // Log raw response for debugging
       console.log('[GrokImageAdapter] Raw API response:', JSON.stringify(data, null, 2));
@@ -101,11 +105,11 @@ export class GrokImageAdapter extends GrokBaseAdapter {
           // Handle URL responses by fetching base64
           if (item.url) {
             try {
-              const response = await requestUrl({ url: item.url, method: 'GET' });
+              const response = await getTransport().request({ url: item.url, method: 'GET', headers: {}, signal: request.signal });
               if (response.status >= 400) {
                 throw new Error(`Failed to fetch image from URL: ${response.status}`);
               }
-              const buffer = await response.arrayBuffer;
+              const buffer = response.arrayBuffer;
               const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
                 const bytes = new Uint8Array(buffer);
                 let binary = '';
@@ -117,6 +121,7 @@ export class GrokImageAdapter extends GrokBaseAdapter {
               const base64 = arrayBufferToBase64(buffer);
               return `data:image/jpeg;base64,${base64}`;
             } catch (fetchError) {
+              if (isAbortError(fetchError)) throw fetchError;
               console.error('[GrokImageAdapter] Failed to fetch image from URL:', item.url, fetchError);
               throw new Error(`Failed to fetch image from URL in response item ${index}`);
             }
@@ -133,19 +138,17 @@ export class GrokImageAdapter extends GrokBaseAdapter {
         }
       });
 
-      return { imageUrls };
+      return {
+        imageUrls,
+        model: data.model || model,
+        requestId: data.id,
+        latencyMs,
+        provider: this.providerKey,
+      };
     } catch (error: any) {
       console.error('[GrokImageAdapter] Image generation failed:', error);
-      console.error('[GrokImageAdapter] API error response:', error.response?.data);
-      let errorMessage = error.message || 'Unknown error';
-      if (error.message.includes('400')) {
-        errorMessage = 'Invalid request parameters or prompt content. Ensure the prompt complies with xAI content policies and try again.';
-      } else if (error.message.includes('401')) {
-        errorMessage = 'Invalid API key. Verify your xAI API key at https://console.x.ai.';
-      } else if (error.message.includes('429')) {
-        errorMessage = 'Rate limit exceeded. Wait and try again.';
-      }
-      throw new Error(`[GrokImageAdapter] Failed to generate image: ${errorMessage}`);
+      if (isAbortError(error) || error instanceof ProviderError) throw error;
+      throw new Error(`[GrokImageAdapter] Failed to generate image: ${error.message || 'Unknown error'}`);
     }
   }
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
 import type { ImageRequest, ImageResponse } from '../../core/Adapter';
 import { OpenAIBaseAdapter } from '../base/OpenAIBaseAdapter';
+import { isAbortError } from '../../utils/abort';
+import { ProviderError } from '../../core/errors';
 
 export class OpenAIImageAdapter extends OpenAIBaseAdapter {
   private defaultModel: string;
@@ -79,7 +81,9 @@ export class OpenAIImageAdapter extends OpenAIBaseAdapter {
     console.log('[OpenAIImageAdapter] Sending request body:', body);
 
     try {
-      const data = await this.makeRequest('images/generations', body, 'POST');
+      const startedAt = Date.now();
+      const data = await this.makeRequest('images/generations', body, 'POST', request.signal);
+      const latencyMs = Date.now() - startedAt;
 
       if (!data.data || !Array.isArray(data.data)) {
         throw new Error('[OpenAIImageAdapter] Invalid response format from OpenAI API');
@@ -91,9 +95,24 @@ export class OpenAIImageAdapter extends OpenAIBaseAdapter {
         throw new Error('[OpenAIImageAdapter] Missing image data in response');
       });
 
-      return { imageUrls };
+      return {
+        imageUrls,
+        model,
+        latencyMs,
+        provider: this.providerKey,
+        // Only gpt-image-1 reports token usage
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.input_tokens,
+              completionTokens: data.usage.output_tokens,
+              totalTokens: data.usage.total_tokens,
+            }
+          : undefined,
+      };
     } catch (error: any) {
       console.error('[OpenAIImageAdapter] Image generation failed:', error);
+      // Keep typed provider errors intact so callers can branch on their code
+      if (isAbortError(error) || error instanceof ProviderError) throw error;
       throw new Error(`[OpenAIImageAdapter] Failed to generate image: ${error.message || 'Unknown error'}`);
     }
   }
@@ -0,0 +1,98 @@
+import type { ImageAdapter, ImageRequest, ImageResponse } from '../../core/Adapter';
+import { ContentFilteredError, InvalidRequestError } from '../../core/errors';
+import {
+  STABILITY_ASPECT_RATIOS,
+  STABILITY_IMAGE_MODELS,
+  StabilityAIBaseAdapter,
+} from '../base/StabilityAIBaseAdapter';
+import { encodeMultipart } from '../format/multipart';
+
+const DEFAULT_MODEL = 'stable-image-core';
+const MAX_IMAGES = 4;
+
+export class StabilityAIImageAdapter extends StabilityAIBaseAdapter implements ImageAdapter {
+  private defaultModel: string;
+
+  constructor(apiKey: string, model: string = DEFAULT_MODEL) {
+    super(apiKey);
+    // Settings saved before the Stable Image endpoints may still hold a v1 engine ID
+    if (!STABILITY_IMAGE_MODELS[model]) {
+      console.warn(`[StabilityAIImageAdapter] Configured model '${model}' is a v1 engine; defaulting to ${DEFAULT_MODEL}. Pick a new model in settings.`);
+    }
+    this.defaultModel = STABILITY_IMAGE_MODELS[model] ? model : DEFAULT_MODEL;
+    console.log('[StabilityAIImageAdapter] Initialized with model:', this.defaultModel);
+  }
+
+  async generate(request: ImageRequest): Promise<ImageResponse> {
+    const model = request.model || this.defaultModel;
+    if (!STABILITY_IMAGE_MODELS[model]) {
+      throw new InvalidRequestError(
+        `Stability AI model '${model}' is not supported; use one of ${Object.keys(STABILITY_IMAGE_MODELS).join(', ')}.`,
+        this.providerKey
+      );
+    }
+    const spec = STABILITY_IMAGE_MODELS[model];
+
+    const outputFormat = request.output_format && spec.outputFormats.includes(request.output_format)
+      ? request.output_format
+      : 'png';
+    const aspectRatio = request.aspect_ratio && STABILITY_ASPECT_RATIOS.includes(request.aspect_ratio)
+      ? request.aspect_ratio
+      : '1:1';
+    if (request.negative_prompt && !spec.negativePrompt) {
+      console.warn(`[StabilityAIImageAdapter] ${model} does not take a negative prompt; ignoring it`);
+    }
+    if (request.style_preset && !spec.stylePreset) {
+      console.warn(`[StabilityAIImageAdapter] ${model} does not take a style preset; ignoring it`);
+    }
+
+    // Each call returns one image; with a fixed seed, later images use the following seeds so they differ
+    const n = Math.min(Math.max(request.n || 1, 1), MAX_IMAGES);
+    const imageUrls: string[] = [];
+    const startedAt = Date.now();
+
+    for (let i = 0; i < n; i++) {
+      const seed = request.seed ? request.seed + i : undefined;
+      const form = encodeMultipart({
+        prompt: request.prompt,
+        model: spec.endpoint === 'sd3' ? model : undefined,
+        negative_prompt: spec.negativePrompt ? request.negative_prompt || undefined : undefined,
+        aspect_ratio: aspectRatio,
+        seed: seed?.toString(),
+        style_preset: spec.stylePreset ? request.style_preset || undefined : undefined,
+        output_format: outputFormat,
+      });
+
+      console.log('[StabilityAIImageAdapter] Sending request:', {
+        endpoint: spec.endpoint,
+        model,
+        aspectRatio,
+        seed,
+        stylePreset: spec.stylePreset ? request.style_preset : undefined,
+        outputFormat,
+      });
+
+      const data = await this.http.request(`v2beta/stable-image/generate/${spec.endpoint}`, {
+        body: form.body,
+        headers: { 'Content-Type': form.contentType, Accept: 'application/json' },
+        signal: request.signal,
+      });
+
+      if (data.finish_reason === 'CONTENT_FILTERED') {
+        throw new ContentFilteredError('Stability AI filtered the generated image.', this.providerKey);
+      }
+      if (typeof data.image !== 'string') {
+        console.error('[StabilityAIImageAdapter] Unexpected response format:', data);
+        throw new Error('[StabilityAIImageAdapter] Missing image data in response');
+      }
+      imageUrls.push(data.image);
+    }
+
+    return {
+      imageUrls,
+      model,
+      latencyMs: Date.now() - startedAt,
+      provider: this.providerKey,
+    };
+  }
+}
@@ -0,0 +1,82 @@
+// src/adapters/providers.ts
+// Built-in providers and the adapters each one offers. Adding a provider means
+// adding an entry here (and its metadata in settings/providers).
+import { providerMetadata } from '../settings/providers/index';
+import { ProviderRegistry, type ProviderDefinition } from '../core/ProviderRegistry';
+import { OpenAITextAdapter } from './text/OpenAITextAdapter';
+import { AnthropicTextAdapter } from './text/AnthropicTextAdapter';
+import { GrokTextAdapter } from './text/GrokTextAdapter';
+import { OpenRouterTextAdapter } from './text/OpenRouterTextAdapter';
+import { GeminiTextAdapter } from './text/GeminiTextAdapter';
+import { GroqTextAdapter } from './text/GroqTextAdapter';
+import { OllamaTextAdapter } from './text/OllamaTextAdapter';
+import { OpenAIImageAdapter } from './image/OpenAIImageAdapter';
+import { GrokImageAdapter } from './image/GrokImageAdapter';
+import { StabilityAIImageAdapter } from './image/StabilityAIImageAdapter';
+import { OpenAIEmbeddingAdapter } from './embedding/OpenAIEmbeddingAdapter';
+import { GeminiEmbeddingAdapter } from './embedding/GeminiEmbeddingAdapter';
+import { OllamaEmbeddingAdapter } from './embedding/OllamaEmbeddingAdapter';
+import { OpenAISpeechAdapter } from './speech/OpenAISpeechAdapter';
+import { OpenAITranscriptionAdapter } from './speech/OpenAITranscriptionAdapter';
+import { GroqTranscriptionAdapter } from './speech/GroqTranscriptionAdapter';
+import { LocalSpeechAdapter } from './speech/LocalSpeechAdapter';
+import { WhisperCppTranscriptionAdapter } from './speech/WhisperCppTranscriptionAdapter';
+import { OpenAIVisionAdapter } from './vision/OpenAIVisionAdapter';
+import { AnthropicVisionAdapter } from './vision/AnthropicVisionAdapter';
+import { GeminiVisionAdapter } from './vision/GeminiVisionAdapter';
+import { GrokVisionAdapter } from './vision/GrokVisionAdapter';
+import { OllamaVisionAdapter } from './vision/OllamaVisionAdapter';
+
+function builtin(key: string, factories: ProviderDefinition['factories']): ProviderDefinition {
+  const { requiresApiKey, defaultModel } = providerMetadata[key];
+  return { key, requiresApiKey, defaultModel, factories };
+}
+
+// Settings models are chat models, so embedding and audio adapters keep their own default model
+export const BUILTIN_PROVIDERS: ProviderDefinition[] = [
+  builtin('openai', {
+    text: ({ apiKey, model }) => new OpenAITextAdapter(apiKey!, model!),
+    image: ({ apiKey, model }) => new OpenAIImageAdapter(apiKey!, model),
+    embedding: ({ apiKey }) => new OpenAIEmbeddingAdapter(apiKey!),
+    speech: ({ apiKey }) => new OpenAISpeechAdapter(apiKey!),
+    transcription: ({ apiKey }) => new OpenAITranscriptionAdapter(apiKey!),
+    vision: ({ apiKey, model }) => new OpenAIVisionAdapter(apiKey!, model),
+  }),
+  builtin('anthropic', {
+    text: ({ apiKey, model }) => new AnthropicTextAdapter(apiKey!, model!),
+    vision: ({ apiKey, model }) => new AnthropicVisionAdapter(apiKey!, model),
+  }),
+  builtin('groq', {
+    text: ({ apiKey, model }) => new GroqTextAdapter(apiKey!, model!),
+    transcription: ({ apiKey }) => new GroqTranscriptionAdapter(apiKey!),
+  }),
+  builtin('gemini', {
+    text: ({ apiKey, model }) => new GeminiTextAdapter(apiKey!, model!),
+    embedding: ({ apiKey }) => new GeminiEmbeddingAdapter(apiKey!),
+    vision: ({ apiKey, model }) => new GeminiVisionAdapter(apiKey!, model),
+  }),
+  builtin('openrouter', {
+    text: ({ apiKey, model }) => new OpenRouterTextAdapter(apiKey!, model!),
+  }),
+  builtin('grok', {
+    text: ({ apiKey, model }) => new GrokTextAdapter(apiKey!, model!),
+    image: ({ apiKey, model }) => new GrokImageAdapter(apiKey!, model),
+    vision: ({ apiKey, model }) => new GrokVisionAdapter(apiKey!, model),
+  }),
+  builtin('stabilityai', {
+    image: ({ apiKey, model }) => new StabilityAIImageAdapter(apiKey!, model),
+  }),
+  builtin('local', {
+    text: ({ model, settings }) => new OllamaTextAdapter(settings.ollama, model!),
+    embedding: ({ settings }) => new OllamaEmbeddingAdapter(settings.ollama.host),
+    speech: ({ settings }) => {
+      const { ttsUrl, ttsModel, ttsVoice } = settings.localSpeech;
+      return new LocalSpeechAdapter(ttsUrl, ttsModel, ttsVoice);
+    },
+    transcription: ({ settings }) => new WhisperCppTranscriptionAdapter(settings.localSpeech.sttUrl),
+    vision: ({ model, settings }) => new OllamaVisionAdapter(settings.ollama.host, model),
+  }),
+];
+
+/** Shared by every gateway and by `window.aiNNS.registerProvider` */
+export const providerRegistry = new ProviderRegistry(BUILTIN_PROVIDERS);
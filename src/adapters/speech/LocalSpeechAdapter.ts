@@ -0,0 +1,44 @@
+import type { SpeechAdapter, SpeechRequest, SpeechResponse } from '../../core/Adapter';
+import { HttpClient } from '../../core/HttpClient';
+import { speechMimeType, toOpenAISpeechBody } from '../format/openaiAudio';
+
+/** Text to speech through a local server with an OpenAI-compatible `audio/speech` endpoint (Kokoro-FastAPI, openedai-speech) */
+export class LocalSpeechAdapter implements SpeechAdapter {
+    public providerKey = 'local';
+    private http: HttpClient;
+
+    constructor(baseUrl: string, private defaultModel: string, private defaultVoice: string) {
+        const host = baseUrl.replace(/\/+$/, '');
+        this.http = new HttpClient({
+            provider: this.providerKey,
+            baseUrl: host,
+            logPrefix: 'LocalSpeechAdapter',
+            errorHints: {
+                network: `Make sure the speech server is running at ${host}.`,
+                invalid_request: 'Check that the server knows the requested model and voice.',
+            },
+        });
+        console.log(`[LocalSpeechAdapter] Initialized at ${host} with model: ${defaultModel}`);
+    }
+
+    async synthesize(request: SpeechRequest): Promise<SpeechResponse> {
+        const model = request.model || this.defaultModel;
+        const body = toOpenAISpeechBody(request, model, request.voice || this.defaultVoice);
+        console.log('[LocalSpeechAdapter] Sending request:', { model, voice: body.voice, characters: request.text.length });
+
+        const startedAt = Date.now();
+        const audio = await this.http.request<ArrayBuffer>('audio/speech', {
+            body,
+            signal: request.signal,
+            responseType: 'arrayBuffer',
+        });
+
+        return {
+            audio,
+            mimeType: speechMimeType(request.format ?? 'mp3'),
+            model,
+            provider: this.providerKey,
+            latencyMs: Date.now() - startedAt,
+        };
+    }
+}
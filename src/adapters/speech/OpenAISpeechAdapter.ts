@@ -0,0 +1,37 @@
+import type { SpeechAdapter, SpeechRequest, SpeechResponse } from '../../core/Adapter';
+import { OpenAIBaseAdapter } from '../base/OpenAIBaseAdapter';
+import { speechMimeType, toOpenAISpeechBody } from '../format/openaiAudio';
+
+export class OpenAISpeechAdapter extends OpenAIBaseAdapter implements SpeechAdapter {
+    private defaultModel: string;
+
+    constructor(apiKey: string, model = 'gpt-4o-mini-tts') {
+        super(apiKey);
+        this.defaultModel = model;
+        console.log('[OpenAISpeechAdapter] Initialized with model:', model);
+    }
+
+    async synthesize(request: SpeechRequest): Promise<SpeechResponse> {
+        const model = request.model || this.defaultModel;
+        const body = toOpenAISpeechBody(request, model, request.voice || 'alloy');
+        // Only the gpt-4o TTS models take delivery instructions
+        if (!model.startsWith('gpt-4o')) delete body.instructions;
+
+        console.log('[OpenAISpeechAdapter] Sending request:', { model, voice: body.voice, characters: request.text.length });
+
+        const startedAt = Date.now();
+        const audio = await this.http.request<ArrayBuffer>('audio/speech', {
+            body,
+            signal: request.signal,
+            responseType: 'arrayBuffer',
+        });
+
+        return {
+            audio,
+            mimeType: speechMimeType(request.format ?? 'mp3'),
+            model,
+            provider: this.providerKey,
+            latencyMs: Date.now() - startedAt,
+        };
+    }
+}
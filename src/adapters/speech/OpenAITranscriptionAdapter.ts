@@ -0,0 +1,34 @@
+import type { TranscriptionAdapter, TranscriptionRequest, TranscriptionResponse } from '../../core/Adapter';
+import { OpenAIBaseAdapter } from '../base/OpenAIBaseAdapter';
+import { parseTranscriptionText, toTranscriptionForm } from '../format/openaiAudio';
+
+export class OpenAITranscriptionAdapter extends OpenAIBaseAdapter implements TranscriptionAdapter {
+    private defaultModel: string;
+
+    constructor(apiKey: string, model = 'whisper-1') {
+        super(apiKey);
+        this.defaultModel = model;
+        console.log('[OpenAITranscriptionAdapter] Initialized with model:', model);
+    }
+
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+        const model = request.model || this.defaultModel;
+        const form = toTranscriptionForm(request, model);
+        console.log('[OpenAITranscriptionAdapter] Sending request:', { model, bytes: request.audio.byteLength });
+
+        const startedAt = Date.now();
+        const data = await this.http.request('audio/transcriptions', {
+            body: form.body,
+            headers: { 'Content-Type': form.contentType },
+            signal: request.signal,
+        });
+
+        return {
+            text: parseTranscriptionText(data, this.providerKey, 'OpenAITranscriptionAdapter'),
+            language: request.language,
+            model,
+            provider: this.providerKey,
+            latencyMs: Date.now() - startedAt,
+        };
+    }
+}
@@ -0,0 +1,47 @@
+import type { TranscriptionAdapter, TranscriptionRequest, TranscriptionResponse } from '../../core/Adapter';
+import { HttpClient } from '../../core/HttpClient';
+import { parseTranscriptionText, toTranscriptionForm } from '../format/openaiAudio';
+
+/**
+ * Speech to text through whisper.cpp's example server. The server loads one
+ * model at startup, so `model` on the request is ignored. Without `--convert`
+ * it only accepts 16 kHz WAV.
+ */
+export class WhisperCppTranscriptionAdapter implements TranscriptionAdapter {
+    public providerKey = 'local';
+    private http: HttpClient;
+
+    constructor(baseUrl: string) {
+        const host = baseUrl.replace(/\/+$/, '');
+        this.http = new HttpClient({
+            provider: this.providerKey,
+            baseUrl: host,
+            logPrefix: 'WhisperCppTranscriptionAdapter',
+            errorHints: {
+                network: `Make sure whisper.cpp's server is running at ${host}.`,
+                invalid_request: 'Send 16 kHz WAV audio, or start the server with --convert.',
+            },
+        });
+        console.log(`[WhisperCppTranscriptionAdapter] Initialized at ${host}`);
+    }
+
+    async transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+        const form = toTranscriptionForm(request);
+        console.log('[WhisperCppTranscriptionAdapter] Sending request:', { bytes: request.audio.byteLength });
+
+        const startedAt = Date.now();
+        const data = await this.http.request('inference', {
+            body: form.body,
+            headers: { 'Content-Type': form.contentType },
+            signal: request.signal,
+        });
+
+        return {
+            text: parseTranscriptionText(data, this.providerKey, 'WhisperCppTranscriptionAdapter'),
+            language: request.language,
+            model: 'whisper.cpp',
+            provider: this.providerKey,
+            latencyMs: Date.now() - startedAt,
+        };
+    }
+}
@@ -1,6 +1,20 @@
 // src/adapters/text/AnthropicTextAdapter.ts
-import type { LLMAdapter, LLMRequest, LLMResponse } from '../../core/Adapter';
+import type { LLMAdapter, LLMRequest, LLMResponse, LLMStreamChunk, TokenUsage } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { buildConversation, truncateForLog } from '../../core/messages';
 import { AnthropicBaseAdapter } from '../base/AnthropicBaseAdapter';
+import {
+    normalizeAnthropicStopReason,
+    parseAnthropicStreamChunk,
+    parseAnthropicToolCalls,
+    parseAnthropicUsage,
+    toAnthropicMessages,
+    toAnthropicSampling,
+    toAnthropicStructuredOutput,
+    toAnthropicTools,
+} from '../format/anthropicMessages';
+import { readServerSentEvents } from '../../utils/sse';
+import { pickSampling } from '../../core/sampling';
 
 export class AnthropicTextAdapter extends AnthropicBaseAdapter implements LLMAdapter {
     private defaultModel: string;
@@ -12,18 +26,24 @@ export class AnthropicTextAdapter extends AnthropicBaseAdapter implements LLMAda
         console.log('[AnthropicTextAdapter] Initialized with default model:', defaultModel);
     }
 
-    async generate(req: LLMRequest): Promise<LLMResponse> {
-        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
-
-        const body = {
+    private buildBody(req: LLMRequest, model: string) {
+        const { system, messages } = toAnthropicMessages(buildConversation(req, this.providerKey));
+        return {
             model,
-            messages: [
-                ...(req.systemPrompt ? [{ role: 'system', content: req.systemPrompt }] : []),
-                { role: 'user', content: req.prompt },
-            ],
+            ...(system ? { system } : {}),
+            messages,
             temperature: req.temperature ?? 0.7,
             max_tokens: req.maxTokens ?? 1000,
+            ...toAnthropicSampling(pickSampling(req, this.providerKey, this.constructor.name)),
+            ...toAnthropicTools(req.tools, req.toolChoice),
+            // Structured output forces its own tool, so it takes precedence over caller tools
+            ...toAnthropicStructuredOutput(req.responseFormat),
         };
+    }
+
+    async generate(req: LLMRequest): Promise<LLMResponse> {
+        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
+        const body = this.buildBody(req, model);
 
         console.log('[AnthropicTextAdapter] Sending request:', {
             endpoint: 'messages',
@@ -31,35 +51,83 @@ export class AnthropicTextAdapter extends AnthropicBaseAdapter implements LLMAda
                 ...body,
                 messages: body.messages.map(msg => ({
                     ...msg,
-                    content: msg.content.length > 50 ? msg.content.slice(0, 50) + '...' : msg.content,
+                    content: typeof msg.content === 'string'
+                        ? truncateForLog(msg.content)
+                        : `[${msg.content.length} content block(s)]`,
                 })),
             },
         });
 
         try {
-            const data = await this.makeRequest('messages', body, 'POST');
+            const startedAt = Date.now();
+            const data = await this.makeRequest('messages', body, 'POST', req.signal);
+            const latencyMs = Date.now() - startedAt;
+
+            if (!data.content || !Array.isArray(data.content)) {
+                console.error('[AnthropicTextAdapter] Unexpected response format:', data);
+                throw new ServerError('Unexpected Anthropic API response format', this.providerKey);
+            }
 
-            if (!data.content || !Array.isArray(data.content) || !data.content[0]?.text) {
+            const toolCalls = parseAnthropicToolCalls(data.content);
+            const text = data.content
+                .filter((block: any) => block.type === 'text')
+                .map((block: any) => block.text)
+                .join('')
+                .trim();
+            if (!text && !toolCalls) {
                 console.error('[AnthropicTextAdapter] Unexpected response format:', data);
-                throw new Error('Unexpected Anthropic API response format');
+                throw new ServerError('Unexpected Anthropic API response format', this.providerKey);
             }
 
-            const output = data.content[0].text.trim();
+            // Structured output arrives as the input of the forced tool call
+            const structured = req.responseFormat?.type === 'json' && toolCalls ? toolCalls[0] : undefined;
+            const output = structured ? JSON.stringify(structured.arguments) : text;
             const tokensUsed = (data.usage?.output_tokens || 0) + (data.usage?.input_tokens || 0);
+            // The forced structured-output tool call is the answer, not a pending tool call
+            const finishReason = structured && data.stop_reason === 'tool_use'
+                ? 'stop'
+                : normalizeAnthropicStopReason(data.stop_reason);
 
             console.log('[AnthropicTextAdapter] Response received:', {
                 output: output.length > 50 ? output.slice(0, 50) + '...' : output,
                 tokensUsed,
-                model,
+                model: data.model || model,
+                finishReason: data.stop_reason,
+                latencyMs,
             });
 
             return {
                 output,
                 tokensUsed,
+                toolCalls: structured ? undefined : toolCalls,
+                usage: parseAnthropicUsage(data.usage),
+                finishReason,
+                rawFinishReason: data.stop_reason ?? undefined,
+                model: data.model || model,
+                requestId: data.id,
+                latencyMs,
+                provider: this.providerKey,
             };
         } catch (error) {
             console.error('[AnthropicTextAdapter] Generation error:', error);
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    async *generateStream(req: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
+        const body = this.buildBody(req, model);
+
+        console.log('[AnthropicTextAdapter] Opening stream:', { endpoint: 'messages', model });
+
+        const response = await this.makeStreamRequest('messages', body, req.signal);
+        let usage: TokenUsage | undefined;
+        let answeredBy = model;
+        for await (const data of readServerSentEvents(response)) {
+            const chunk = parseAnthropicStreamChunk(data, usage);
+            usage = chunk.usage ?? usage;
+            answeredBy = chunk.model || answeredBy;
+            if (chunk.delta || chunk.usage) yield { ...chunk, model: answeredBy };
+        }
+    }
+}
@@ -1,5 +1,20 @@
-import type { LLMAdapter, LLMRequest, LLMResponse } from '../../core/Adapter';
+import type { LLMAdapter, LLMRequest, LLMResponse, LLMStreamChunk } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { buildConversation, truncateForLog } from '../../core/messages';
 import { GeminiBaseAdapter } from '../base/GeminiBaseAdapter';
+import {
+    normalizeGeminiFinishReason,
+    parseGeminiStreamChunk,
+    parseGeminiToolCalls,
+    parseGeminiUsage,
+    toGeminiContents,
+    toGeminiResponseConfig,
+    toGeminiSampling,
+    toGeminiTools,
+} from '../format/geminiContents';
+import { isAbortError } from '../../utils/abort';
+import { readServerSentEvents } from '../../utils/sse';
+import { pickSampling } from '../../core/sampling';
 
 export class GeminiTextAdapter extends GeminiBaseAdapter implements LLMAdapter {
     private defaultModel: string;
@@ -11,30 +26,32 @@ export class GeminiTextAdapter extends GeminiBaseAdapter implements LLMAdapter {
         console.log('[GeminiTextAdapter] Initialized with default model:', defaultModel);
     }
 
-    async generate(req: LLMRequest): Promise<LLMResponse> {
-        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
-
-        const body = {
-            contents: [
-                ...(req.systemPrompt
-                    ? [{ parts: [{ text: req.systemPrompt }], role: 'system' }]
-                    : []),
-                { parts: [{ text: req.prompt }], role: 'user' },
-            ],
+    private buildBody(req: LLMRequest) {
+        const { systemInstruction, contents } = toGeminiContents(buildConversation(req, this.providerKey));
+        return {
+            ...(systemInstruction ? { systemInstruction } : {}),
+            contents,
             generationConfig: {
                 temperature: req.temperature ?? 0.7,
                 maxOutputTokens: req.maxTokens ?? 1000,
+                ...toGeminiSampling(pickSampling(req, this.providerKey, this.constructor.name)),
+                ...toGeminiResponseConfig(req.responseFormat),
             },
+            ...toGeminiTools(req.tools, req.toolChoice),
         };
+    }
+
+    async generate(req: LLMRequest): Promise<LLMResponse> {
+        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
+        const body = this.buildBody(req);
 
         console.log('[GeminiTextAdapter] Sending request:', {
             endpoint: `models/${model}:generateContent`,
             body: {
+                systemInstruction: body.systemInstruction,
                 contents: body.contents.map(c => ({
                     ...c,
-                    parts: c.parts.map(p => ({
-                        text: p.text.length > 50 ? p.text.slice(0, 50) + '...' : p.text,
-                    })),
+                    parts: c.parts.map(p => ('text' in p ? { text: truncateForLog(p.text) } : p)),
                 })),
                 generationConfig: body.generationConfig,
             },
@@ -44,32 +61,46 @@ export class GeminiTextAdapter extends GeminiBaseAdapter implements LLMAdapter {
 
         for (const apiVersion of this.apiVersions) {
             try {
-                const data = await this.makeRequest(`models/${model}:generateContent`, body, 'POST', apiVersion);
+                const startedAt = Date.now();
+                const data = await this.makeRequest(`models/${model}:generateContent`, body, 'POST', apiVersion, req.signal);
+                const latencyMs = Date.now() - startedAt;
 
-                if (
-                    !data.candidates ||
-                    !Array.isArray(data.candidates) ||
-                    !data.candidates[0]?.content?.parts?.[0]?.text
-                ) {
+                const candidate = Array.isArray(data.candidates) ? data.candidates[0] : undefined;
+                const parts: any[] = candidate?.content?.parts ?? [];
+                const toolCalls = parseGeminiToolCalls(parts);
+                const output = parts.map(part => part.text ?? '').join('').trim();
+                if (!output && !toolCalls) {
                     console.error('[GeminiTextAdapter] Unexpected response format:', data);
-                    throw new Error('Unexpected Gemini API response format');
+                    throw new ServerError('Unexpected Gemini API response format', this.providerKey);
                 }
 
-                const output = data.candidates[0].content.parts[0].text.trim();
                 const tokensUsed = data.usageMetadata?.totalTokenCount || 0;
+                // Gemini reports STOP for function calls too
+                const finishReason = toolCalls ? 'tool_calls' : normalizeGeminiFinishReason(candidate?.finishReason);
 
                 console.log('[GeminiTextAdapter] Response received:', {
                     output: output.length > 50 ? output.slice(0, 50) + '...' : output,
                     tokensUsed,
-                    model,
+                    model: data.modelVersion || model,
+                    finishReason: candidate?.finishReason,
+                    latencyMs,
                     apiVersion,
                 });
 
                 return {
                     output,
                     tokensUsed,
+                    toolCalls,
+                    usage: parseGeminiUsage(data.usageMetadata),
+                    finishReason,
+                    rawFinishReason: candidate?.finishReason,
+                    model: data.modelVersion || model,
+                    requestId: data.responseId,
+                    latencyMs,
+                    provider: this.providerKey,
                 };
             } catch (error) {
+                if (isAbortError(error)) throw error;
                 console.error('[GeminiTextAdapter] Generation error for API version', apiVersion, ':', error);
                 lastError = error;
                 continue;
@@ -78,4 +109,32 @@ export class GeminiTextAdapter extends GeminiBaseAdapter implements LLMAdapter {
 
         throw lastError || new Error('All API versions failed to generate content');
     }
-}
\ No newline at end of file
+
+    async *generateStream(req: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
+        const body = this.buildBody(req);
+        let lastError: Error | null = null;
+
+        // Only retry on another API version if the stream failed before producing output
+        for (const apiVersion of this.apiVersions) {
+            let response: Response;
+            try {
+                console.log('[GeminiTextAdapter] Opening stream:', { model, apiVersion });
+                response = await this.makeStreamRequest(`models/${model}:streamGenerateContent`, body, apiVersion, req.signal);
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                console.error('[GeminiTextAdapter] Stream error for API version', apiVersion, ':', error);
+                lastError = error;
+                continue;
+            }
+
+            for await (const data of readServerSentEvents(response)) {
+                const chunk = parseGeminiStreamChunk(data);
+                if (chunk.delta || chunk.usage) yield { ...chunk, model: chunk.model || model };
+            }
+            return;
+        }
+
+        throw lastError || new Error('All API versions failed to stream content');
+    }
+}
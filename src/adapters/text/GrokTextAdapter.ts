@@ -1,4 +1,18 @@
-import type { LLMAdapter, LLMRequest, LLMResponse } from '../../core/Adapter';
+import type { LLMAdapter, LLMRequest, LLMResponse, LLMStreamChunk } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { buildConversation, truncateForLog } from '../../core/messages';
+import {
+    normalizeOpenAIFinishReason,
+    parseOpenAIStreamChunk,
+    parseOpenAIToolCalls,
+    parseOpenAIUsage,
+    toOpenAIMessages,
+    toOpenAIResponseFormat,
+    toOpenAISampling,
+    toOpenAITools,
+} from '../format/openaiChat';
+import { readServerSentEvents } from '../../utils/sse';
+import { pickSampling } from '../../core/sampling';
 import { GrokBaseAdapter } from '../base/GrokBaseAdapter';
 
 export class GrokTextAdapter extends GrokBaseAdapter implements LLMAdapter {
@@ -11,18 +25,22 @@ export class GrokTextAdapter extends GrokBaseAdapter implements LLMAdapter {
         console.log('[GrokTextAdapter] Initialized with default model:', defaultModel);
     }
 
-    async generate(req: LLMRequest): Promise<LLMResponse> {
-        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
-
-        const body = {
+    private buildBody(req: LLMRequest, model: string) {
+        const responseFormat = toOpenAIResponseFormat(req.responseFormat);
+        return {
             model,
-            messages: [
-                ...(req.systemPrompt ? [{ role: 'system', content: req.systemPrompt }] : []),
-                { role: 'user', content: req.prompt },
-            ],
+            messages: toOpenAIMessages(buildConversation(req, this.providerKey)),
             temperature: req.temperature ?? 0.7,
             max_tokens: req.maxTokens ?? 1000,
+            ...toOpenAISampling(pickSampling(req, this.providerKey, this.constructor.name)),
+            ...(responseFormat ? { response_format: responseFormat } : {}),
+            ...toOpenAITools(req.tools, req.toolChoice),
         };
+    }
+
+    async generate(req: LLMRequest): Promise<LLMResponse> {
+        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
+        const body = this.buildBody(req, model);
 
         console.log('[GrokTextAdapter] Sending request:', {
             endpoint: 'chat/completions',
@@ -30,35 +48,64 @@ export class GrokTextAdapter extends GrokBaseAdapter implements LLMAdapter {
                 ...body,
                 messages: body.messages.map(msg => ({
                     ...msg,
-                    content: msg.content.length > 50 ? msg.content.slice(0, 50) + '...' : msg.content,
+                    content: truncateForLog(msg.content),
                 })),
             },
         });
 
         try {
-            const data = await this.makeRequest('chat/completions', body, 'POST');
+            const startedAt = Date.now();
+            const data = await this.makeRequest('chat/completions', body, 'POST', req.signal);
+            const latencyMs = Date.now() - startedAt;
 
-            if (!data.choices || !Array.isArray(data.choices) || !data.choices[0]?.message?.content) {
+            const choice = Array.isArray(data.choices) ? data.choices[0] : undefined;
+            const message = choice?.message;
+            const toolCalls = parseOpenAIToolCalls(message);
+            if (!message || (!message.content && !toolCalls)) {
                 console.error('[GrokTextAdapter] Unexpected response format:', data);
-                throw new Error('Unexpected xAI API response format');
+                throw new ServerError('Unexpected xAI API response format', this.providerKey);
             }
 
-            const output = data.choices[0].message.content.trim();
+            const output = (message.content ?? '').trim();
             const tokensUsed = data.usage?.total_tokens || 0;
+            const finishReason = normalizeOpenAIFinishReason(choice.finish_reason);
 
             console.log('[GrokTextAdapter] Response received:', {
                 output: output.length > 50 ? output.slice(0, 50) + '...' : output,
                 tokensUsed,
-                model,
+                model: data.model || model,
+                finishReason: choice.finish_reason,
+                latencyMs,
             });
 
             return {
                 output,
                 tokensUsed,
+                toolCalls,
+                usage: parseOpenAIUsage(data.usage),
+                finishReason,
+                rawFinishReason: choice.finish_reason ?? undefined,
+                model: data.model || model,
+                requestId: data.id,
+                latencyMs,
+                provider: this.providerKey,
             };
         } catch (error) {
             console.error('[GrokTextAdapter] Generation error:', error);
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    async *generateStream(req: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
+        const body = this.buildBody(req, model);
+
+        console.log('[GrokTextAdapter] Opening stream:', { endpoint: 'chat/completions', model });
+
+        const response = await this.makeStreamRequest('chat/completions', body, req.signal);
+        for await (const data of readServerSentEvents(response)) {
+            const chunk = parseOpenAIStreamChunk(data);
+            if (chunk.delta || chunk.usage) yield { ...chunk, model: chunk.model || model };
+        }
+    }
+}
@@ -0,0 +1,119 @@
+import type { LLMAdapter, LLMRequest, LLMResponse, LLMStreamChunk } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { buildConversation, truncateForLog } from '../../core/messages';
+import {
+    normalizeOllamaDoneReason,
+    parseOllamaStreamChunk,
+    parseOllamaToolCalls,
+    parseOllamaUsage,
+    toOllamaFormat,
+    toOllamaMessages,
+    toOllamaSampling,
+    toOllamaTools,
+} from '../format/ollamaChat';
+import { readLines } from '../../utils/sse';
+import { pickSampling } from '../../core/sampling';
+import { OllamaBaseAdapter } from '../base/OllamaBaseAdapter';
+import type { OllamaSettings } from '../../settings/types';
+
+export class OllamaTextAdapter extends OllamaBaseAdapter implements LLMAdapter {
+    private defaultModel: string;
+    private fallbackModel = 'llama3.2';
+    private keepAlive: string;
+    private numCtx?: number;
+
+    constructor(settings: OllamaSettings, defaultModel: string) {
+        super(settings.host);
+        this.defaultModel = defaultModel;
+        this.keepAlive = settings.keepAlive;
+        this.numCtx = settings.numCtx;
+        console.log('[OllamaTextAdapter] Initialized with default model:', defaultModel);
+    }
+
+    private buildBody(req: LLMRequest, model: string) {
+        return {
+            model,
+            messages: toOllamaMessages(buildConversation(req, this.providerKey)),
+            ...(this.keepAlive ? { keep_alive: this.keepAlive } : {}),
+            options: {
+                temperature: req.temperature ?? 0.7,
+                num_predict: req.maxTokens ?? 1000,
+                ...(this.numCtx ? { num_ctx: this.numCtx } : {}),
+                ...toOllamaSampling(pickSampling(req, this.providerKey, this.constructor.name)),
+            },
+            ...toOllamaFormat(req.responseFormat),
+            ...toOllamaTools(req.tools),
+        };
+    }
+
+    async generate(req: LLMRequest): Promise<LLMResponse> {
+        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
+        const body = this.buildBody(req, model);
+
+        console.log('[OllamaTextAdapter] Sending request:', {
+            endpoint: 'api/chat',
+            body: {
+                ...body,
+                messages: body.messages.map(msg => ({
+                    ...msg,
+                    content: truncateForLog(msg.content),
+                })),
+            },
+        });
+
+        try {
+            const startedAt = Date.now();
+            const data = await this.makeRequest('api/chat', { ...body, stream: false }, 'POST', req.signal);
+            const latencyMs = Date.now() - startedAt;
+
+            const message = data.message;
+            const toolCalls = parseOllamaToolCalls(message);
+            if (!message || (typeof message.content !== 'string' && !toolCalls)) {
+                console.error('[OllamaTextAdapter] Unexpected response format:', data);
+                throw new ServerError('Unexpected Ollama response format', this.providerKey);
+            }
+
+            const output = (message.content ?? '').trim();
+            const usage = parseOllamaUsage(data);
+            // Ollama reports 'stop' when the model calls a tool
+            const finishReason = toolCalls ? 'tool_calls' : normalizeOllamaDoneReason(data.done_reason);
+
+            console.log('[OllamaTextAdapter] Response received:', {
+                output: output.length > 50 ? output.slice(0, 50) + '...' : output,
+                tokensUsed: usage?.totalTokens,
+                model: data.model || model,
+                finishReason: data.done_reason,
+                latencyMs,
+            });
+
+            return {
+                output,
+                tokensUsed: usage?.totalTokens,
+                toolCalls,
+                usage,
+                finishReason,
+                rawFinishReason: data.done_reason,
+                model: data.model || model,
+                latencyMs,
+                provider: this.providerKey,
+            };
+        } catch (error) {
+            console.error('[OllamaTextAdapter] Generation error:', error);
+            throw error;
+        }
+    }
+
+    async *generateStream(req: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        const model = await this.validateModelInternal(req.model, this.defaultModel, this.fallbackModel);
+        const body = this.buildBody(req, model);
+
+        console.log('[OllamaTextAdapter] Opening stream:', { endpoint: 'api/chat', model });
+
+        const response = await this.makeStreamRequest('api/chat', body, req.signal);
+        for await (const line of readLines(response)) {
+            if (!line.trim()) continue;
+            const chunk = parseOllamaStreamChunk(line);
+            if (chunk.delta || chunk.usage) yield { ...chunk, model: chunk.model || model };
+        }
+    }
+}
@@ -0,0 +1,39 @@
+import type { VisionAdapter, VisionRequest, VisionResponse } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { resolveVisionModel } from '../../core/visionModels';
+import { AnthropicBaseAdapter } from '../base/AnthropicBaseAdapter';
+import { normalizeAnthropicStopReason, parseAnthropicUsage } from '../format/anthropicMessages';
+import { toAnthropicVisionBody } from '../format/visionInput';
+
+export class AnthropicVisionAdapter extends AnthropicBaseAdapter implements VisionAdapter {
+    constructor(apiKey: string, private configuredModel?: string) {
+        super(apiKey);
+        console.log('[AnthropicVisionAdapter] Initialized');
+    }
+
+    async describe(request: VisionRequest): Promise<VisionResponse> {
+        const model = resolveVisionModel(this.providerKey, request.model, this.configuredModel);
+        console.log('[AnthropicVisionAdapter] Sending request:', { model, bytes: request.image.byteLength, question: request.question });
+
+        const startedAt = Date.now();
+        const data = await this.makeRequest('messages', toAnthropicVisionBody(request, model, this.providerKey), 'POST', request.signal);
+        if (!Array.isArray(data.content)) {
+            console.error('[AnthropicVisionAdapter] Unexpected response format:', data);
+            throw new ServerError('Unexpected Anthropic API response format', this.providerKey);
+        }
+
+        return {
+            output: data.content
+                .filter((block: any) => block.type === 'text')
+                .map((block: any) => block.text)
+                .join('')
+                .trim(),
+            finishReason: normalizeAnthropicStopReason(data.stop_reason),
+            usage: parseAnthropicUsage(data.usage),
+            model: data.model || model,
+            requestId: data.id,
+            latencyMs: Date.now() - startedAt,
+            provider: this.providerKey,
+        };
+    }
+}
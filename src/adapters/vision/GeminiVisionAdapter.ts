@@ -0,0 +1,50 @@
+import type { VisionAdapter, VisionRequest, VisionResponse } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { resolveVisionModel } from '../../core/visionModels';
+import { isAbortError } from '../../utils/abort';
+import { GeminiBaseAdapter, normalizeGeminiModel } from '../base/GeminiBaseAdapter';
+import { normalizeGeminiFinishReason, parseGeminiUsage } from '../format/geminiContents';
+import { toGeminiVisionBody } from '../format/visionInput';
+
+export class GeminiVisionAdapter extends GeminiBaseAdapter implements VisionAdapter {
+    constructor(apiKey: string, private configuredModel?: string) {
+        super(apiKey);
+        console.log('[GeminiVisionAdapter] Initialized');
+    }
+
+    async describe(request: VisionRequest): Promise<VisionResponse> {
+        const model = normalizeGeminiModel(resolveVisionModel(this.providerKey, request.model, this.configuredModel));
+        const body = toGeminiVisionBody(request, this.providerKey);
+        console.log('[GeminiVisionAdapter] Sending request:', { model, bytes: request.image.byteLength, question: request.question });
+
+        let lastError: Error | null = null;
+        for (const apiVersion of this.apiVersions) {
+            try {
+                const startedAt = Date.now();
+                const data = await this.makeRequest(`models/${model}:generateContent`, body, 'POST', apiVersion, request.signal);
+                const candidate = Array.isArray(data.candidates) ? data.candidates[0] : undefined;
+                const parts: any[] = candidate?.content?.parts ?? [];
+                if (!candidate) {
+                    console.error('[GeminiVisionAdapter] Unexpected response format:', data);
+                    throw new ServerError('Unexpected Gemini API response format', this.providerKey);
+                }
+
+                return {
+                    output: parts.map(part => part.text ?? '').join('').trim(),
+                    finishReason: normalizeGeminiFinishReason(candidate.finishReason),
+                    usage: parseGeminiUsage(data.usageMetadata),
+                    model: data.modelVersion || model,
+                    requestId: data.responseId,
+                    latencyMs: Date.now() - startedAt,
+                    provider: this.providerKey,
+                };
+            } catch (error) {
+                if (isAbortError(error)) throw error;
+                console.error('[GeminiVisionAdapter] Error for API version', apiVersion, ':', error);
+                lastError = error;
+            }
+        }
+
+        throw lastError || new Error('All API versions failed to describe the image');
+    }
+}
@@ -0,0 +1,36 @@
+import type { VisionAdapter, VisionRequest, VisionResponse } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { resolveVisionModel } from '../../core/visionModels';
+import { GrokBaseAdapter } from '../base/GrokBaseAdapter';
+import { normalizeOpenAIFinishReason, parseOpenAIUsage } from '../format/openaiChat';
+import { toOpenAIVisionBody } from '../format/visionInput';
+
+export class GrokVisionAdapter extends GrokBaseAdapter implements VisionAdapter {
+    constructor(apiKey: string, private configuredModel?: string) {
+        super(apiKey);
+        console.log('[GrokVisionAdapter] Initialized');
+    }
+
+    async describe(request: VisionRequest): Promise<VisionResponse> {
+        const model = resolveVisionModel(this.providerKey, request.model, this.configuredModel);
+        console.log('[GrokVisionAdapter] Sending request:', { model, bytes: request.image.byteLength, question: request.question });
+
+        const startedAt = Date.now();
+        const data = await this.makeRequest('chat/completions', toOpenAIVisionBody(request, model, this.providerKey), 'POST', request.signal);
+        const choice = data.choices?.[0];
+        if (typeof choice?.message?.content !== 'string') {
+            console.error('[GrokVisionAdapter] Unexpected response format:', data);
+            throw new ServerError('Unexpected xAI API response format', this.providerKey);
+        }
+
+        return {
+            output: choice.message.content.trim(),
+            finishReason: normalizeOpenAIFinishReason(choice.finish_reason),
+            usage: parseOpenAIUsage(data.usage),
+            model: data.model || model,
+            requestId: data.id,
+            latencyMs: Date.now() - startedAt,
+            provider: this.providerKey,
+        };
+    }
+}
@@ -0,0 +1,34 @@
+import type { VisionAdapter, VisionRequest, VisionResponse } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { resolveVisionModel } from '../../core/visionModels';
+import { OllamaBaseAdapter } from '../base/OllamaBaseAdapter';
+import { toOllamaVisionBody } from '../format/visionInput';
+
+/** Local llava-style models through Ollama's chat endpoint */
+export class OllamaVisionAdapter extends OllamaBaseAdapter implements VisionAdapter {
+    constructor(host?: string, private configuredModel?: string) {
+        super(host);
+        console.log('[OllamaVisionAdapter] Initialized');
+    }
+
+    async describe(request: VisionRequest): Promise<VisionResponse> {
+        const model = resolveVisionModel(this.providerKey, request.model, this.configuredModel);
+        console.log('[OllamaVisionAdapter] Sending request:', { model, bytes: request.image.byteLength, question: request.question });
+
+        const startedAt = Date.now();
+        const data = await this.makeRequest('api/chat', toOllamaVisionBody(request, model, this.providerKey), 'POST', request.signal);
+        if (typeof data.message?.content !== 'string') {
+            console.error('[OllamaVisionAdapter] Unexpected response format:', data);
+            throw new ServerError('Unexpected Ollama response format', this.providerKey);
+        }
+
+        return {
+            output: data.message.content.trim(),
+            finishReason: data.done_reason === 'length' ? 'length' : 'stop',
+            usage: { promptTokens: data.prompt_eval_count, completionTokens: data.eval_count },
+            model: data.model || model,
+            latencyMs: Date.now() - startedAt,
+            provider: this.providerKey,
+        };
+    }
+}
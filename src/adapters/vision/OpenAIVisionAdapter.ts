@@ -0,0 +1,36 @@
+import type { VisionAdapter, VisionRequest, VisionResponse } from '../../core/Adapter';
+import { ServerError } from '../../core/errors';
+import { resolveVisionModel } from '../../core/visionModels';
+import { OpenAIBaseAdapter } from '../base/OpenAIBaseAdapter';
+import { normalizeOpenAIFinishReason, parseOpenAIUsage } from '../format/openaiChat';
+import { toOpenAIVisionBody } from '../format/visionInput';
+
+export class OpenAIVisionAdapter extends OpenAIBaseAdapter implements VisionAdapter {
+    constructor(apiKey: string, private configuredModel?: string) {
+        super(apiKey);
+        console.log('[OpenAIVisionAdapter] Initialized');
+    }
+
+    async describe(request: VisionRequest): Promise<VisionResponse> {
+        const model = resolveVisionModel(this.providerKey, request.model, this.configuredModel);
+        console.log('[OpenAIVisionAdapter] Sending request:', { model, bytes: request.image.byteLength, question: request.question });
+
+        const startedAt = Date.now();
+        const data = await this.makeRequest('chat/completions', toOpenAIVisionBody(request, model, this.providerKey), 'POST', request.signal);
+        const choice = data.choices?.[0];
+        if (typeof choice?.message?.content !== 'string') {
+            console.error('[OpenAIVisionAdapter] Unexpected response format:', data);
+            throw new ServerError('Unexpected OpenAI API response format', this.providerKey);
+        }
+
+        return {
+            output: choice.message.content.trim(),
+            finishReason: normalizeOpenAIFinishReason(choice.finish_reason),
+            usage: parseOpenAIUsage(data.usage),
+            model: data.model || model,
+            requestId: data.id,
+            latencyMs: Date.now() - startedAt,
+            provider: this.providerKey,
+        };
+    }
+}
@@ -1,27 +1,157 @@
 import type { App } from 'obsidian';
 import type { SecretsManager } from '../utils/secrets';
 import type { MyPluginSettings } from '../settings/types';
+import type {
+  ChatMessage,
+  JSONSchema,
+  LLMRequest,
+  LLMResponse,
+  SpeechFormat,
+  SpeechResponse,
+  ToolDefinition,
+  TranscriptionResponse,
+  VisionResponse,
+} from '../core/Adapter';
+import { ToolRegistry, type ToolHandler } from '../core/ToolRegistry';
+import type { ProviderDefinition } from '../core/ProviderRegistry';
+import type { RouteCapability, RouteTrace } from '../core/router';
+import type { CacheMode } from '../core/ResponseCache';
+import { requestScheduler, type ProviderQueueStats, type RequestPriority } from '../core/scheduler';
+import type { FanOutMode, FanOutResult, FanOutTarget } from '../core/Gateway';
+import { modelCatalog } from '../core/ModelCatalog';
+import { filterVisionModels } from '../core/visionModels';
+import { providerRegistry } from '../adapters/providers';
+import {
+  AuthenticationError,
+  BudgetExceededError,
+  ContentFilteredError,
+  InvalidRequestError,
+  NetworkError,
+  ProviderError,
+  QuotaExceededError,
+  RateLimitError,
+  ServerError,
+  StructuredOutputError,
+  TimeoutError,
+} from '../core/errors';
 
 import { TextGateway } from '../gateways/TextGateway';
+import { EmbeddingGateway } from '../gateways/EmbeddingGateway';
+import { SpeechGateway } from '../gateways/SpeechGateway';
+import { VisionGateway } from '../gateways/VisionGateway';
 //import { ImageGateway } from '../gateways/ImageGateway';
-//import { SpeechGateway } from '../gateways/SpeechGateway';
 //import { VideoGateway } from '../gateways/VideoGateway';
-//import { VisionGateway } from '../gateways/VisionGateway';
 
 /* ---------------------------------- *
  * Interfaces for Each AI Modality   *
  * ---------------------------------- */
+export interface TextGenerateOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  systemPrompt?: string;
+  /** Sampling parameters a provider does not support are dropped with a console warning */
+  topP?: number;
+  topK?: number;
+  stop?: string[];
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  /** Aborting rejects the call with an error named 'AbortError' */
+  signal?: AbortSignal;
+  /** Routing inputs: without `model`, the first matching rule in settings picks provider and model */
+  tag?: string;
+  pluginId?: string;
+  requires?: RouteCapability[];
+  /** `use` reads and fills the response cache, `refresh` replaces the cached answer, `bypass` skips it */
+  cache?: CacheMode;
+  /** Order in the provider's rate-limit queue; `high` requests start before `normal` and `low` ones */
+  priority?: RequestPriority;
+}
+
+export interface TextFanOutOptions extends TextGenerateOptions {
+  /** Provider keys, or provider/model pairs; defaults to each provider in the routed fallback chain */
+  providers?: (string | FanOutTarget)[];
+}
+
 export interface TextAPI {
+  /** Accepts a single prompt or a full conversation of user/assistant/system turns */
   generate(
-    prompt: string,
-    opts?: {
-      model?: string;
-      temperature?: number;
-      maxTokens?: number;
-    }
+    prompt: string | ChatMessage[],
+    opts?: TextGenerateOptions
   ): Promise<string>;
+
+  /**
+   * Same as generate, but resolves with the whole response: token usage, finish
+   * reason, the model and provider that answered, request ID and latency.
+   */
+  generateDetailed(
+    prompt: string | ChatMessage[],
+    opts?: TextGenerateOptions
+  ): Promise<LLMResponse>;
+
+  /**
+   * Returns the response parsed as JSON and validated against `schema`.
+   * Rejects with a StructuredOutputError if the model cannot produce valid output.
+   */
+  generateObject<T = unknown>(
+    prompt: string | ChatMessage[],
+    schema: JSONSchema,
+    opts?: TextGenerateOptions & { retries?: number; name?: string }
+  ): Promise<T>;
+
+  /**
+   * Sends the prompt to several providers at once.
+   * `race` resolves with the first successful response and cancels the others.
+   * `all` resolves with every provider's response or error, in `providers` order.
+   */
+  fanOut(
+    prompt: string | ChatMessage[],
+    opts: TextFanOutOptions & { mode: 'race' }
+  ): Promise<LLMResponse>;
+  fanOut(
+    prompt: string | ChatMessage[],
+    opts: TextFanOutOptions & { mode: 'all' }
+  ): Promise<FanOutResult<LLMResponse>[]>;
+
+  /** Which provider and model a call with these inputs would be routed to, and why */
+  explainRoute(
+    prompt: string | ChatMessage[],
+    opts?: TextGenerateOptions
+  ): RouteTrace;
+
+  /** Same inputs as generate, but yields text deltas as they arrive */
+  stream(
+    prompt: string | ChatMessage[],
+    opts?: TextGenerateOptions
+  ): AsyncIterable<string>;
+
+  /**
+   * Lets the model call registered tools until it produces a final answer.
+   * `tools` limits the call to the named tools; by default all registered tools are offered.
+   */
+  runTools(
+    prompt: string | ChatMessage[],
+    opts?: TextGenerateOptions & { tools?: string[]; maxSteps?: number }
+  ): Promise<string>;
+}
+
+export interface ToolsAPI {
+  /** Returns a function that unregisters the tool */
+  register(definition: ToolDefinition, handler: ToolHandler): () => void;
+  unregister(name: string): void;
+  list(): ToolDefinition[];
+}
+
+export interface EmbedOptions {
+  model?: string;
+  dimensions?: number;
+  signal?: AbortSignal;
 }
 
+/** Returns one vector per input text, in the same order */
+export type EmbedAPI = (texts: string | string[], opts?: EmbedOptions) => Promise<number[][]>;
+
 export interface ImageAPI {
   generate(
     prompt: string,
@@ -33,21 +163,43 @@ export interface ImageAPI {
   ): Promise<string>;
 }
 
+export interface SynthesizeOptions {
+  model?: string;
+  /** Provider-specific; without one, OpenAI uses 'alloy' and local servers the voice from settings */
+  voice?: string;
+  /** Defaults to mp3 */
+  format?: SpeechFormat;
+  speed?: number;
+  /** Tone and delivery hints, e.g. 'Speak calmly'; only some models use them */
+  instructions?: string;
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+}
+
+export interface RecognizeOptions {
+  model?: string;
+  /** File name with an extension matching the audio format, e.g. 'memo.webm'; defaults to 'audio.wav' */
+  fileName?: string;
+  /** ISO-639-1 code; detected when omitted */
+  language?: string;
+  /** Names or earlier text that help with spelling */
+  prompt?: string;
+  temperature?: number;
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+}
+
 export interface SpeechAPI {
-  synthesize(
-    text: string,
-    opts?: {
-      voice?: string;
-      format?: string;
-    }
-  ): Promise<string>;
+  /** Resolves with the encoded audio in `opts.format` */
+  synthesize(text: string, opts?: SynthesizeOptions): Promise<ArrayBuffer>;
 
-  recognize(
-    audioData: ArrayBuffer,
-    opts?: {
-      model?: string;
-    }
-  ): Promise<string>;
+  /** Same as synthesize, with the MIME type, provider, model and fallback path */
+  synthesizeDetailed(text: string, opts?: SynthesizeOptions): Promise<SpeechResponse>;
+
+  /** Resolves with the transcript */
+  recognize(audioData: ArrayBuffer, opts?: RecognizeOptions): Promise<string>;
+
+  recognizeDetailed(audioData: ArrayBuffer, opts?: RecognizeOptions): Promise<TranscriptionResponse>;
 }
 
 export interface VideoAPI {
@@ -67,15 +219,65 @@ export interface VideoAPI {
   ): Promise<string>;
 }
 
+export interface VisionOptions {
+  /** Must accept images; see `vision.models()` */
+  model?: string;
+  /** Detected from the bytes for PNG, JPEG, GIF and WebP */
+  mimeType?: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+}
+
 export interface VisionAPI {
-  caption(
-    imageData: ArrayBuffer,
-    opts?: {
-      model?: string;
-    }
-  ): Promise<string>;
+  /** A one- or two-sentence description of the image */
+  caption(imageData: ArrayBuffer, opts?: VisionOptions): Promise<string>;
+
+  /** Answers a question about the image */
+  ask(imageData: ArrayBuffer, question: string, opts?: VisionOptions): Promise<string>;
+
+  /** Same as ask, with token usage, cost and the provider and model that answered */
+  askDetailed(imageData: ArrayBuffer, question: string, opts?: VisionOptions): Promise<VisionResponse>;
+
+  /** Vision-capable models per provider, from the cached model lists */
+  models(): Record<string, string[]>;
+}
+
+/** Error classes callers can match with `instanceof`; provider failures also carry a `code` */
+const errors = {
+  ProviderError,
+  AuthenticationError,
+  RateLimitError,
+  QuotaExceededError,
+  InvalidRequestError,
+  ContentFilteredError,
+  ServerError,
+  NetworkError,
+  TimeoutError,
+  BudgetExceededError,
+  StructuredOutputError,
+};
+
+/** Why the gateways were rebuilt */
+export type RebuildReason = 'settings' | 'secrets' | 'providers';
+
+export interface GatewaysRebuiltEvent {
+  reason: RebuildReason;
+  /** Providers each rebuilt gateway can call */
+  text: string[];
+  embedding: string[];
+  speech: string[];
+  vision: string[];
+}
+
+export interface AiNNSEvents {
+  /** The gateways behind `window.aiNNS` were replaced; calls already in flight finish on the old ones */
+  rebuilt: GatewaysRebuiltEvent;
 }
 
+export type AiNNSEventListener<K extends keyof AiNNSEvents> = (event: AiNNSEvents[K]) => void;
+
 /* ---------------------------------- *
  * Global Window Interface Extension *
  * ---------------------------------- */
@@ -83,52 +285,230 @@ declare global {
   interface Window {
     aiNNS?: {
       text: TextAPI;
+      tools: ToolsAPI;
+      embed: EmbedAPI;
+      speech: SpeechAPI;
+      vision: VisionAPI;
+      errors: typeof errors;
+      /**
+       * Adds a provider whose factories the gateways use alongside the built-in ones.
+       * Add it to a category's fallback chain to route calls to it.
+       * Returns a function that unregisters it.
+       */
+      registerProvider(definition: ProviderDefinition): () => void;
+      /** Active and queued requests per provider; `LLMResponse.queueWaitMs` has the wait of a single call */
+      queueStats(): ProviderQueueStats[];
+      on<K extends keyof AiNNSEvents>(event: K, listener: AiNNSEventListener<K>): void;
+      off<K extends keyof AiNNSEvents>(event: K, listener: AiNNSEventListener<K>): void;
       //image: ImageAPI;
-      //speech: SpeechAPI;
      // video: VideoAPI;
-      //vision: VisionAPI;
     };
   }
 }
 
+/** Maps the public (prompt | messages, opts) call shape onto an LLMRequest */
+function toLLMRequest(prompt: string | ChatMessage[], opts?: TextGenerateOptions): LLMRequest {
+  return typeof prompt === 'string'
+    ? { prompt, ...opts }
+    : { messages: prompt, ...opts };
+}
+
+let unsubscribers: (() => void)[] = [];
+
+const REBUILD_DELAY_MS = 300;
+
+/** The settings that decide which adapters a gateway builds and how it routes */
+function gatewayFingerprint(settings: MyPluginSettings): string {
+  return JSON.stringify({
+    categories: settings.categories,
+    providers: settings.providers,
+    routing: settings.routing,
+    ollama: settings.ollama,
+    localSpeech: settings.localSpeech,
+  });
+}
+
 /* ---------------------------------- *
  * Register aiNNS on Global Scope    *
  * ---------------------------------- */
 export async function registerAiNNS(
   app: App,
   secrets: SecretsManager,
-  settings: MyPluginSettings
+  settings: MyPluginSettings,
+  onSettingsChange?: (listener: () => void) => () => void
 ) {
-  const textGw = await TextGateway.create(secrets, settings);
+  let textGw = await TextGateway.create(secrets, settings);
+  let embeddingGw = await EmbeddingGateway.create(secrets, settings);
+  let speechGw = await SpeechGateway.create(secrets, settings);
+  let visionGw = await VisionGateway.create(secrets, settings);
+  const toolRegistry = new ToolRegistry();
   //const imageGw = new ImageGateway(secrets, settings);
-  //const speechGw = new SpeechGateway(secrets, settings);
   //const videoGw = new VideoGateway(secrets, settings);
-  //const visionGw = new VisionGateway(secrets, settings);
+
+  // Gateways build their adapters once, so swap in new ones when providers,
+  // keys or gateway settings change. Calls capture the gateway when they start,
+  // so requests in flight finish on the old instance.
+  const listeners: { [K in keyof AiNNSEvents]: Set<AiNNSEventListener<K>> } = { rebuilt: new Set() };
+  let fingerprint = gatewayFingerprint(settings);
+  let generation = 0;
+  let pendingReasons = new Set<RebuildReason>();
+  let rebuildTimer: number | undefined;
+
+  const rebuild = async () => {
+    rebuildTimer = undefined;
+    const reasons = Array.from(pendingReasons);
+    pendingReasons = new Set();
+    const current = ++generation;
+    try {
+      const [nextText, nextEmbedding, nextSpeech, nextVision] = await Promise.all([
+        TextGateway.create(secrets, settings),
+        EmbeddingGateway.create(secrets, settings),
+        SpeechGateway.create(secrets, settings),
+        VisionGateway.create(secrets, settings),
+      ]);
+      // A later change already started a newer rebuild
+      if (current !== generation) return;
+      textGw = nextText;
+      embeddingGw = nextEmbedding;
+      speechGw = nextSpeech;
+      visionGw = nextVision;
+      fingerprint = gatewayFingerprint(settings);
+      console.log(`[aiNNS] Gateways rebuilt (${reasons.join(', ')})`);
+      reasons.forEach(reason => {
+        const event: GatewaysRebuiltEvent = {
+          reason,
+          text: textGw.providers,
+          embedding: embeddingGw.providers,
+          speech: speechGw.providers,
+          vision: visionGw.providers,
+        };
+        listeners.rebuilt.forEach(listener => {
+          try {
+            listener(event);
+          } catch (error) {
+            console.error('[aiNNS] rebuilt listener failed:', error);
+          }
+        });
+      });
+    } catch (error) {
+      console.error('[aiNNS] Failed to rebuild gateways:', error);
+    }
+  };
+
+  const scheduleRebuild = (reason: RebuildReason) => {
+    pendingReasons.add(reason);
+    if (rebuildTimer === undefined) {
+      rebuildTimer = window.setTimeout(rebuild, REBUILD_DELAY_MS);
+    }
+  };
+
+  unsubscribers.forEach(unsubscribe => unsubscribe());
+  unsubscribers = [
+    providerRegistry.onChange(() => scheduleRebuild('providers')),
+    secrets.onChange(() => scheduleRebuild('secrets')),
+    () => window.clearTimeout(rebuildTimer),
+  ];
+  if (onSettingsChange) {
+    // Saves also come from the model catalog and spend ledger; only gateway settings matter here
+    unsubscribers.push(onSettingsChange(() => {
+      if (gatewayFingerprint(settings) !== fingerprint) scheduleRebuild('settings');
+    }));
+  }
+
+  function fanOut(prompt: string | ChatMessage[], opts: TextFanOutOptions & { mode: 'race' }): Promise<LLMResponse>;
+  function fanOut(prompt: string | ChatMessage[], opts: TextFanOutOptions & { mode: 'all' }): Promise<FanOutResult<LLMResponse>[]>;
+  function fanOut(prompt: string | ChatMessage[], opts: TextFanOutOptions & { mode: FanOutMode }) {
+    const { mode, providers, ...rest } = opts;
+    return textGw.fanOut(toLLMRequest(prompt, rest), { mode, providers });
+  }
 
   window.aiNNS = {
     text: {
       generate: (prompt, opts) =>
-        textGw.generate({ prompt, ...opts }),
+        textGw.generate(toLLMRequest(prompt, opts)),
+      generateDetailed: (prompt, opts) =>
+        textGw.generateDetailed(toLLMRequest(prompt, opts)),
+      generateObject: <T>(prompt: string | ChatMessage[], schema: JSONSchema, opts?: TextGenerateOptions & { retries?: number; name?: string }) => {
+        const { retries, name, ...rest } = opts ?? {};
+        return textGw.generateObject<T>(toLLMRequest(prompt, rest), schema, { retries, name });
+      },
+      fanOut,
+      explainRoute: (prompt, opts) =>
+        textGw.route(toLLMRequest(prompt, opts)),
+      stream: (prompt, opts) =>
+        textGw.stream(toLLMRequest(prompt, opts)),
+      runTools: async (prompt, opts) => {
+        const { tools, maxSteps, ...rest } = opts ?? {};
+        const { definitions, handlers } = toolRegistry.select(tools);
+        const res = await textGw.runTools(
+          { ...toLLMRequest(prompt, rest), tools: definitions },
+          handlers,
+          { maxSteps }
+        );
+        return res.output;
+      },
+    },
+    tools: {
+      register: (definition, handler) => toolRegistry.register(definition, handler),
+      unregister: (name) => toolRegistry.unregister(name),
+      list: () => toolRegistry.list(),
+    },
+    embed: async (texts, opts) => {
+      const input = typeof texts === 'string' ? [texts] : texts;
+      const res = await embeddingGw.embed({ input, ...opts });
+      return res.embeddings;
+    },
+    speech: {
+      synthesize: async (text, opts) => {
+        const res = await speechGw.synthesize({ text, ...opts });
+        return res.audio;
+      },
+      synthesizeDetailed: (text, opts) =>
+        speechGw.synthesize({ text, ...opts }),
+      recognize: async (audioData, opts) => {
+        const res = await speechGw.recognize({ audio: audioData, ...opts });
+        return res.text;
+      },
+      recognizeDetailed: (audioData, opts) =>
+        speechGw.recognize({ audio: audioData, ...opts }),
+    },
+    vision: {
+      caption: async (imageData, opts) => {
+        const res = await visionGw.describe({ image: imageData, ...opts });
+        return res.output;
+      },
+      ask: async (imageData, question, opts) => {
+        const res = await visionGw.describe({ image: imageData, question, ...opts });
+        return res.output;
+      },
+      askDetailed: (imageData, question, opts) =>
+        visionGw.describe({ image: imageData, question, ...opts }),
+      models: () => {
+        const models: Record<string, string[]> = {};
+        visionGw.providers.forEach(provider => {
+          models[provider] = filterVisionModels(provider, modelCatalog.getEntry(provider)?.models ?? []);
+        });
+        return models;
+      },
+    },
+    errors,
+    registerProvider: (definition) => providerRegistry.register(definition),
+    queueStats: () => requestScheduler.stats(),
+    on: (event, listener) => {
+      listeners[event].add(listener);
+    },
+    off: (event, listener) => {
+      listeners[event].delete(listener);
     },/*
     image: {
       generate: (prompt, opts) =>
         imageGw.generate({ prompt, ...opts }),
     },
-    speech: {
-      synthesize: (text, opts) =>
-        speechGw.synthesize({ text, ...opts }),
-      recognize: (audioData, opts) =>
-        speechGw.recognize({ audioData, ...opts }),
-    },
     video: {
       generate: (prompt, opts) =>
         videoGw.generate({ prompt, ...opts }),
       caption: (videoData, opts) =>
         videoGw.caption({ videoData, ...opts }),
-    },
-    vision: {
-      caption: (imageData, opts) =>
-        visionGw.caption({ imageData, ...opts }),
     },*/
   };
 }
@@ -137,5 +517,7 @@ export async function registerAiNNS(
  * Cleanup aiNNS on Plugin Unload    *
  * ---------------------------------- */
 export function unregisterAiNNS() {
+  unsubscribers.forEach(unsubscribe => unsubscribe());
+  unsubscribers = [];
   delete window.aiNNS;
 }
@@ -1,15 +1,149 @@
 // src/core/Adapter.ts
+import type { ProviderErrorCode } from './errors';
+import type { RouteCapability, RouteTrace } from './router';
+import type { CacheMode } from './ResponseCache';
+import type { RequestPriority } from './scheduler';
+
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  /** Tool calls requested by the assistant in this turn */
+  toolCalls?: ToolCall[];
+  /** For `tool` messages: the call this message answers */
+  toolCallId?: string;
+  /** For `tool` messages: the name of the tool that produced the result */
+  name?: string;
+}
+
+/** Subset of JSON Schema used for structured output */
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JSONSchema;
+  enum?: (string | number | boolean | null)[];
+  nullable?: boolean;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  /** JSON schema of the tool's arguments object */
+  parameters: JSONSchema;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export type ToolChoice = 'auto' | 'none' | 'required' | { name: string };
+
+export interface ResponseFormat {
+  type: 'text' | 'json';
+  /** When set, providers that support it constrain output to this schema */
+  schema?: JSONSchema;
+  /** Schema name, used by providers that require one (OpenAI, Anthropic tool name) */
+  name?: string;
+}
+
 export interface LLMRequest {
-  prompt: string;
+  /** Single user turn; appended after `messages` when both are given */
+  prompt?: string;
+  /** Prior conversation turns, oldest first */
+  messages?: ChatMessage[];
   model?: string;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  /** Nucleus sampling: only tokens within this cumulative probability are considered */
+  topP?: number;
+  /** Only the K most likely tokens are considered */
+  topK?: number;
+  /** Generation stops before any of these sequences */
+  stop?: string[];
+  /** Best-effort deterministic sampling where the provider supports it */
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  responseFormat?: ResponseFormat;
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  /** Cancels the request; adapters reject with an AbortError */
+  signal?: AbortSignal;
+  /** Caller-chosen label that routing rules can match, e.g. 'summarize' */
+  tag?: string;
+  /** ID of the plugin making the call, for routing rules */
+  pluginId?: string;
+  /** Capabilities the answer needs beyond those implied by the request (e.g. 'vision') */
+  requires?: RouteCapability[];
+  /** Response cache behaviour; defaults to `use` when the cache is enabled in settings, else `bypass` */
+  cache?: CacheMode;
+  /** Position in the provider's rate-limit queue; `normal` when omitted */
+  priority?: RequestPriority;
+}
+
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
 }
 
-export interface LLMResponse {
+/** Provider stop reasons normalized across APIs; `length` means the output was truncated */
+export type FinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'other';
+
+/** One provider the gateway tried, in order, while serving a request */
+export interface FallbackStep {
+  provider: string;
+  model?: string;
+  /** `skipped` means no adapter was available (e.g. missing API key) */
+  status: 'success' | 'failed' | 'skipped';
+  /** ProviderError code of the failure */
+  errorCode?: ProviderErrorCode;
+}
+
+/** Details about who answered and how, filled in by the adapter that served the request */
+export interface ResponseMetadata {
+  /** Provider key, e.g. 'openai' */
+  provider?: string;
+  /** Model that actually answered, which may differ from the requested one */
+  model?: string;
+  /** Provider-assigned response or request ID */
+  requestId?: string;
+  /** Wall-clock time of the HTTP call, in milliseconds */
+  latencyMs?: number;
+  usage?: TokenUsage;
+  /** Providers the gateway tried before (and including) the one that answered */
+  fallbackPath?: FallbackStep[];
+  /** Why the gateway chose this route; set by TextGateway */
+  route?: RouteTrace;
+  /** True when TextGateway answered from the response cache */
+  cached?: boolean;
+  /** Time spent in the provider's rate-limit queue before the request was sent */
+  queueWaitMs?: number;
+  /** Estimated cost in USD from the usage and the price table; unset when the model has no price */
+  costUsd?: number;
+}
+
+export interface LLMResponse extends ResponseMetadata {
   output: string;
   tokensUsed?: number;
+  /** Present when the model asked to call one or more tools instead of (or as well as) answering */
+  toolCalls?: ToolCall[];
+  finishReason?: FinishReason;
+  /** The provider's own value behind `finishReason` */
+  rawFinishReason?: string;
 }
 
 export interface ImageRequest {
@@ -25,16 +159,137 @@ export interface ImageRequest {
   background?: string;
   moderation?: boolean;
   output_compression?: 'none' | 'low' | 'medium' | 'high';
+  // Stability AI specific fields
+  /** What the image should not contain */
+  negative_prompt?: string;
+  /** 0 picks a random seed */
+  seed?: number;
+  /** e.g. '16:9'; used instead of `size` */
+  aspect_ratio?: string;
+  /** e.g. 'photographic', 'anime' */
+  style_preset?: string;
+  signal?: AbortSignal;
 }
 
-export interface ImageResponse {
+export interface ImageResponse extends ResponseMetadata {
   imageUrls: string[];
 }
 
+export interface EmbeddingRequest {
+  /** Texts to embed; the response has one vector per input, in the same order */
+  input: string[];
+  model?: string;
+  /** Requested vector size, for models that support shortening */
+  dimensions?: number;
+  signal?: AbortSignal;
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][];
+  model: string;
+  tokensUsed?: number;
+  fallbackPath?: FallbackStep[];
+}
+
+/** Audio container for synthesized speech; not every provider supports every format */
+export type SpeechFormat = 'mp3' | 'opus' | 'aac' | 'flac' | 'wav' | 'pcm';
+
+export interface SpeechRequest {
+  text: string;
+  model?: string;
+  /** Provider-specific voice name, e.g. 'alloy' for OpenAI */
+  voice?: string;
+  /** Defaults to mp3 */
+  format?: SpeechFormat;
+  /** Playback speed, 1 is normal */
+  speed?: number;
+  /** Tone and delivery hints, for models that accept them */
+  instructions?: string;
+  signal?: AbortSignal;
+  /** Position in the provider's rate-limit queue; `normal` when omitted */
+  priority?: RequestPriority;
+}
+
+export interface SpeechResponse extends ResponseMetadata {
+  audio: ArrayBuffer;
+  /** MIME type of `audio`, e.g. 'audio/mpeg' */
+  mimeType: string;
+}
+
+export interface TranscriptionRequest {
+  audio: ArrayBuffer;
+  /** Providers detect the audio format from the extension; defaults to 'audio.wav' */
+  fileName?: string;
+  model?: string;
+  /** ISO-639-1 code of the spoken language; detected when omitted */
+  language?: string;
+  /** Text that guides spelling and style, e.g. names or the previous segment */
+  prompt?: string;
+  temperature?: number;
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+}
+
+export interface TranscriptionResponse extends ResponseMetadata {
+  text: string;
+  /** Spoken language, when the provider reports it */
+  language?: string;
+}
+
+export interface VisionRequest {
+  /** Encoded PNG, JPEG, GIF or WebP bytes */
+  image: ArrayBuffer;
+  /** Detected from the bytes when omitted */
+  mimeType?: string;
+  /** What to ask about the image; without one the model writes a short caption */
+  question?: string;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+}
+
+export interface VisionResponse extends ResponseMetadata {
+  output: string;
+  finishReason?: FinishReason;
+}
+
+/** One piece of a streamed answer */
+export interface LLMStreamChunk {
+  /** Text added by this chunk; empty on chunks that only carry usage */
+  delta: string;
+  /** Token counts so far, on the final chunk(s) of providers that report them; the last one wins */
+  usage?: TokenUsage;
+  /** The model that is answering; adapters fill it in when the provider's events do not name it */
+  model?: string;
+}
+
 export interface LLMAdapter {
   generate(req: LLMRequest): Promise<LLMResponse>;
+  /** Yields text deltas as the provider produces them, then the usage if the provider reports it */
+  generateStream?(req: LLMRequest): AsyncIterable<LLMStreamChunk>;
 }
 
 export interface ImageAdapter {
   generate(request: ImageRequest): Promise<ImageResponse>;
-}
\ No newline at end of file
+}
+
+export interface EmbeddingAdapter {
+  embed(request: EmbeddingRequest): Promise<EmbeddingResponse>;
+}
+
+/** Answers questions about an image */
+export interface VisionAdapter {
+  describe(request: VisionRequest): Promise<VisionResponse>;
+}
+
+/** Text to speech */
+export interface SpeechAdapter {
+  synthesize(request: SpeechRequest): Promise<SpeechResponse>;
+}
+
+/** Speech to text */
+export interface TranscriptionAdapter {
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionResponse>;
+}
@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthenticationError, InvalidRequestError, RateLimitError, ServerError } from './errors';
+import { callAll, callRace, callWithFallback, modelForLink, type FallbackLink } from './Gateway';
+import type { RetryPolicy } from './retry';
+
+const noRetry: RetryPolicy = { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0, multiplier: 1, jitter: false };
+const adapters = { openai: 'openai', anthropic: 'anthropic', groq: 'groq' };
+
+type Answer = { output: string; model?: string };
+
+describe('modelForLink', () => {
+  it('sends the requested model to the first link only', () => {
+    expect(modelForLink({ provider: 'openai', model: 'gpt-4o' }, 0, 'gpt-4o-mini')).toBe('gpt-4o-mini');
+    expect(modelForLink({ provider: 'openai', model: 'gpt-4o' }, 0)).toBe('gpt-4o');
+    expect(modelForLink({ provider: 'anthropic' }, 1, 'gpt-4o-mini')).toBeUndefined();
+  });
+});
+
+describe('callWithFallback', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const run = (chain: FallbackLink[], failures: Record<string, unknown>, retryPolicy = noRetry) => {
+    const call = vi.fn(async (adapter: string): Promise<Answer> => {
+      if (failures[adapter]) throw failures[adapter];
+      return { output: `from ${adapter}` };
+    });
+    const result = callWithFallback({
+      name: 'Test',
+      adapters,
+      chain,
+      retryPolicy,
+      requestedModel: 'requested',
+      defaultModels: { anthropic: 'claude-default', groq: 'groq-default' },
+      call,
+    });
+    return { result, call };
+  };
+
+  it('answers from the first link when it succeeds', async () => {
+    const { result, call } = run([{ provider: 'openai' }, { provider: 'anthropic' }], {});
+    await expect(result).resolves.toEqual({
+      value: { output: 'from openai' },
+      path: [{ provider: 'openai', model: 'requested', status: 'success' }],
+    });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves on after provider trouble and records the path with the models sent', async () => {
+    const { result } = run(
+      [{ provider: 'openai' }, { provider: 'missing' }, { provider: 'anthropic' }, { provider: 'groq', model: 'llama' }],
+      { openai: new RateLimitError('', 'openai'), anthropic: new ServerError('', 'anthropic') }
+    );
+    await expect(result).resolves.toEqual({
+      value: { output: 'from groq' },
+      path: [
+        { provider: 'openai', model: 'requested', status: 'failed', errorCode: 'rate_limit' },
+        { provider: 'missing', model: undefined, status: 'skipped' },
+        { provider: 'anthropic', model: 'claude-default', status: 'failed', errorCode: 'server' },
+        { provider: 'groq', model: 'llama', status: 'success' },
+      ],
+    });
+  });
+
+  it('reports the model the adapter says answered', async () => {
+    const result = await callWithFallback({
+      name: 'Test',
+      adapters,
+      chain: [{ provider: 'openai' }],
+      retryPolicy: noRetry,
+      requestedModel: 'gpt-4o',
+      call: async (): Promise<Answer> => ({ output: 'ok', model: 'gpt-4o-2024-08-06' }),
+    });
+    expect(result.path).toEqual([{ provider: 'openai', model: 'gpt-4o-2024-08-06', status: 'success' }]);
+  });
+
+  it('stops at invalid requests and unclassified errors', async () => {
+    const invalid = new InvalidRequestError('empty prompt', 'openai');
+    const first = run([{ provider: 'openai' }, { provider: 'anthropic' }], { openai: invalid });
+    await expect(first.result).rejects.toBe(invalid);
+    expect(first.call).toHaveBeenCalledTimes(1);
+
+    const bug = new Error('bug');
+    const second = run([{ provider: 'openai' }, { provider: 'anthropic' }], { openai: bug });
+    await expect(second.result).rejects.toBe(bug);
+  });
+
+  it("follows each link's own fallback rules", async () => {
+    const auth = new AuthenticationError('', 'openai');
+    const { result } = run([{ provider: 'openai', fallbackOn: ['rate_limit'] }, { provider: 'anthropic' }], { openai: auth });
+    await expect(result).rejects.toBe(auth);
+  });
+
+  it('retries a link before falling back', async () => {
+    let attempts = 0;
+    const result = await callWithFallback({
+      name: 'Test',
+      adapters,
+      chain: [{ provider: 'openai' }, { provider: 'anthropic' }],
+      retryPolicy: { ...noRetry, maxAttempts: 2 },
+      call: async (adapter: string): Promise<Answer> => {
+        if (adapter === 'openai' && attempts++ === 0) throw new ServerError('', 'openai');
+        return { output: `from ${adapter}` };
+      },
+    });
+    expect(result.value.output).toBe('from openai');
+  });
+
+  it('rethrows the last error when every link fails', async () => {
+    const last = new ServerError('down', 'anthropic');
+    const { result } = run([{ provider: 'openai' }, { provider: 'anthropic' }], { openai: new ServerError('', 'openai'), anthropic: last });
+    await expect(result).rejects.toBe(last);
+  });
+
+  it('explains an empty chain', async () => {
+    const { result } = run([{ provider: 'missing' }], {});
+    await expect(result).rejects.toThrow('No adapter available in the fallback chain (missing)');
+  });
+});
+
+describe('fan-out', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  /** Answers after `delays[provider]` ms, or fails when the delay is negative; aborts reject */
+  const delayed = (delays: Record<string, number>) => (adapter: string, _target: unknown, signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      const delay = delays[adapter];
+      const timer = setTimeout(() => (delay < 0 ? reject(new ServerError('', adapter)) : resolve(adapter)), Math.abs(delay));
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(Object.assign(new Error('cancelled'), { name: 'AbortError' }));
+      });
+    });
+
+  it('races to the first success and cancels the rest', async () => {
+    const aborted: string[] = [];
+    const call = delayed({ openai: 30, anthropic: 5, groq: -1 });
+    const winner = await callRace({
+      name: 'Test',
+      adapters,
+      targets: [{ provider: 'openai' }, { provider: 'anthropic' }, { provider: 'groq' }],
+      retryPolicy: noRetry,
+      call: (adapter, target, signal) => {
+        signal.addEventListener('abort', () => aborted.push(adapter));
+        return call(adapter, target, signal);
+      },
+    });
+    expect(winner).toMatchObject({ provider: 'anthropic', value: 'anthropic' });
+    expect(aborted).toContain('openai');
+  });
+
+  it("rejects a race with the first target's error when all fail", async () => {
+    const race = callRace({
+      name: 'Test',
+      adapters,
+      targets: [{ provider: 'openai' }, { provider: 'anthropic' }],
+      retryPolicy: noRetry,
+      call: delayed({ openai: -5, anthropic: -1 }),
+    });
+    await expect(race).rejects.toMatchObject({ provider: 'openai' });
+  });
+
+  it('collects every result in target order', async () => {
+    const results = await callAll({
+      name: 'Test',
+      adapters,
+      targets: [{ provider: 'openai' }, { provider: 'missing' }, { provider: 'groq' }],
+      retryPolicy: noRetry,
+      call: delayed({ openai: 10, groq: -1 }),
+    });
+    expect(results.map(result => [result.provider, result.value, result.error && (result.error as Error).name])).toEqual([
+      ['openai', 'openai', undefined],
+      ['missing', undefined, 'Error'],
+      ['groq', undefined, 'ServerError'],
+    ]);
+  });
+});
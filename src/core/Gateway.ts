@@ -0,0 +1,234 @@
+// src/core/Gateway.ts
+import type { SecretsManager } from '../utils/secrets';
+import type { MyPluginSettings } from '../settings/types';
+import type { FallbackStep } from './Adapter';
+import { errorCode, shouldFallback, type ProviderErrorCode } from './errors';
+import { withRetry, type RetryPolicy } from './retry';
+import { createLinkedController, throwIfAborted } from '../utils/abort';
+import type { CapabilityAdapters, ProviderCapability, ProviderRegistry } from './ProviderRegistry';
+
+/**
+ * Instantiates one adapter per registered provider with `capability`, skipping
+ * providers whose API key is missing or whose factory throws.
+ */
+export async function buildAdapters<C extends ProviderCapability>(
+  name: string,
+  capability: C,
+  registry: ProviderRegistry,
+  secrets: SecretsManager,
+  settings: MyPluginSettings
+): Promise<Record<string, CapabilityAdapters[C]>> {
+  const adapters: Record<string, CapabilityAdapters[C]> = {};
+
+  for (const key of registry.withCapability(capability)) {
+    const definition = registry.get(key)!;
+    let apiKey: string | undefined;
+
+    if (definition.requiresApiKey) {
+      apiKey = await secrets.getSecret(key);
+      if (!apiKey) {
+        console.warn(`[${name}] No API key found for ${key}. Skipping adapter.`);
+        continue;
+      }
+    }
+
+    const model = settings.providers[key]?.model || definition.defaultModel;
+    try {
+      const adapter = registry.create(capability, key, { apiKey, model, settings });
+      if (adapter) {
+        adapters[key] = adapter;
+        console.log(`[${name}] Adapter created for ${key} with model: ${model}`);
+      }
+    } catch (error) {
+      console.error(`[${name}] Failed to create adapter for ${key}:`, error);
+    }
+  }
+
+  console.log(`[${name}] Initialized adapters:`, Object.keys(adapters));
+  return adapters;
+}
+
+/** One provider in a category's fallback chain */
+export interface FallbackLink {
+  provider: string;
+  /** Model for this link; the provider's configured model when omitted */
+  model?: string;
+  /** Error codes that move on to the next link; DEFAULT_FALLBACK_ON when omitted */
+  fallbackOn?: ProviderErrorCode[];
+}
+
+export interface FallbackOptions<A, T> {
+  /** Log prefix, e.g. 'TextGateway' */
+  name: string;
+  adapters: Record<string, A>;
+  chain: FallbackLink[];
+  retryPolicy: RetryPolicy;
+  signal?: AbortSignal;
+  /** The request's model, sent to the first link (see modelForLink) */
+  requestedModel?: string;
+  /** Configured model per provider, reported for links that set none */
+  defaultModels?: Record<string, string>;
+  call: (adapter: A, link: FallbackLink, index: number) => Promise<T>;
+}
+
+export interface FallbackResult<T> {
+  value: T;
+  path: FallbackStep[];
+}
+
+/**
+ * The model to send to a chain link. A model named in the request targets the
+ * first link; later links use their own model so a provider never receives
+ * another provider's model name.
+ */
+export function modelForLink(link: FallbackLink, index: number, requested?: string): string | undefined {
+  return index === 0 ? requested || link.model : link.model;
+}
+
+/**
+ * Walks the fallback chain in order, retrying transient failures on each link
+ * per the retry policy. A failure moves on to the next link only if its error
+ * code is in that link's `fallbackOn`. Resolves with the first success and the
+ * path taken to reach it.
+ */
+export async function callWithFallback<A, T>(options: FallbackOptions<A, T>): Promise<FallbackResult<T>> {
+  const { name, adapters, chain, retryPolicy, signal, requestedModel, defaultModels, call } = options;
+  const path: FallbackStep[] = [];
+  let lastError: unknown;
+
+  for (let index = 0; index < chain.length; index++) {
+    const link = chain[index];
+    const adapter = adapters[link.provider];
+    const model = modelForLink(link, index, requestedModel) ?? defaultModels?.[link.provider];
+    if (!adapter) {
+      console.warn(`[${name}] No adapter for ${link.provider}; skipping chain link ${index + 1}.`);
+      path.push({ provider: link.provider, model, status: 'skipped' });
+      continue;
+    }
+
+    if (index > 0 && lastError !== undefined) {
+      console.log(`[${name}] Falling back to ${link.provider} (link ${index + 1} of ${chain.length})`);
+    }
+    try {
+      const value = await withRetry(() => call(adapter, link, index), retryPolicy, { signal, label: `${name}:${link.provider}` });
+      // Adapters report the model that actually answered, which may differ after validation
+      const answeredBy = (value as { model?: unknown } | undefined)?.model;
+      path.push({ provider: link.provider, model: typeof answeredBy === 'string' ? answeredBy : model, status: 'success' });
+      return { value, path };
+    } catch (err) {
+      path.push({ provider: link.provider, model, status: 'failed', errorCode: errorCode(err) });
+      if (!shouldFallback(err, link.fallbackOn)) throw err;
+      lastError = err;
+    }
+  }
+
+  if (lastError !== undefined) throw lastError;
+  const providers = chain.map(link => link.provider).join(', ') || 'none';
+  throw new Error(`No adapter available in the fallback chain (${providers}). Check API keys and category settings.`);
+}
+
+/** How a request is spread across providers: `race` keeps the first success, `all` keeps every answer */
+export type FanOutMode = 'race' | 'all';
+
+export interface FanOutTarget {
+  provider: string;
+  /** The provider's configured model when omitted */
+  model?: string;
+}
+
+export interface FanOutResult<T> {
+  provider: string;
+  model?: string;
+  /** Set when this provider succeeded */
+  value?: T;
+  /** Set when this provider failed or was cancelled because another won the race */
+  error?: unknown;
+  latencyMs: number;
+}
+
+/** A target that answered; `callRace` resolves with one */
+export type FanOutSuccess<T> = FanOutResult<T> & { value: T };
+
+export interface FanOutOptions<A, T> {
+  name: string;
+  adapters: Record<string, A>;
+  targets: FanOutTarget[];
+  retryPolicy: RetryPolicy;
+  signal?: AbortSignal;
+  /** Must pass `signal` on to the adapter so losing branches can be cancelled */
+  call: (adapter: A, target: FanOutTarget, signal: AbortSignal) => Promise<T>;
+}
+
+function startBranches<A, T>(options: FanOutOptions<A, T>, onSuccess?: (result: FanOutSuccess<T>) => void) {
+  const { name, adapters, targets, retryPolicy, signal, call } = options;
+  const controllers: AbortController[] = [];
+
+  const branches = targets.map(async (target): Promise<FanOutResult<T>> => {
+    const startedAt = Date.now();
+    const adapter = adapters[target.provider];
+    if (!adapter) {
+      const error = new Error(`No adapter found for provider: ${target.provider}`);
+      return { ...target, error, latencyMs: 0 };
+    }
+
+    const { controller, dispose } = createLinkedController(signal);
+    controllers.push(controller);
+    try {
+      const value = await withRetry(() => call(adapter, target, controller.signal), retryPolicy, {
+        signal: controller.signal,
+        label: `${name}:${target.provider}`,
+      });
+      const result: FanOutSuccess<T> = { ...target, value, latencyMs: Date.now() - startedAt };
+      onSuccess?.(result);
+      return result;
+    } catch (error) {
+      return { ...target, error, latencyMs: Date.now() - startedAt };
+    } finally {
+      dispose();
+    }
+  });
+
+  return { branches, abortAll: () => controllers.forEach(controller => controller.abort()) };
+}
+
+/** Sends the request to every target at once and settles with each one's result, in target order */
+export async function callAll<A, T>(options: FanOutOptions<A, T>): Promise<FanOutResult<T>[]> {
+  throwIfAborted(options.signal);
+  console.log(`[${options.name}] Fanning out to:`, options.targets.map(target => target.provider));
+  const results = await Promise.all(startBranches(options).branches);
+  throwIfAborted(options.signal);
+  return results;
+}
+
+/**
+ * Sends the request to every target at once and resolves with the first
+ * success, cancelling the others without waiting for them. Rejects with the
+ * first target's error if every target fails.
+ */
+export async function callRace<A, T>(options: FanOutOptions<A, T>): Promise<FanOutSuccess<T>> {
+  throwIfAborted(options.signal);
+  console.log(`[${options.name}] Racing:`, options.targets.map(target => target.provider));
+
+  let resolveWinner: (result: FanOutSuccess<T>) => void = () => undefined;
+  const winner = new Promise<FanOutSuccess<T>>(resolve => {
+    resolveWinner = resolve;
+  });
+  let won = false;
+  const { branches, abortAll } = startBranches(options, result => {
+    if (won) return;
+    won = true;
+    console.log(`[${options.name}] ${result.provider} won the race in ${result.latencyMs}ms`);
+    resolveWinner(result);
+    abortAll();
+  });
+
+  // The winner's callback runs before its branch settles, so a success always beats "all settled"
+  const outcome = await Promise.race([
+    winner.then(result => ({ winner: result, results: undefined })),
+    Promise.all(branches).then(results => ({ winner: undefined, results })),
+  ]);
+  if (outcome.winner) return outcome.winner;
+
+  throwIfAborted(options.signal);
+  throw outcome.results?.[0]?.error ?? new Error(`[${options.name}] No providers to race.`);
+}
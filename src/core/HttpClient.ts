@@ -0,0 +1,196 @@
+// src/core/HttpClient.ts
+import { createAbortError } from '../utils/abort';
+import {
+  providerErrorFromResponse,
+  ServerError,
+  TimeoutError,
+  toProviderError,
+  type ErrorHints,
+} from './errors';
+import { getTransport, redactUrl, type HttpMethod, type TransportRequest } from './transport';
+
+export interface HttpClientOptions {
+  /** Provider key used in errors, e.g. 'openai' */
+  provider: string;
+  /** Prefix for every endpoint, without a trailing slash */
+  baseUrl: string;
+  /** Log prefix, usually the adapter's class name */
+  logPrefix: string;
+  /** Headers that authenticate each request; their values never reach the logs */
+  authHeaders?: () => Record<string, string>;
+  /** Query parameters that authenticate each request (Gemini's `key`) */
+  authQuery?: () => Record<string, string>;
+  headers?: Record<string, string>;
+  errorHints?: ErrorHints;
+  /** Per-request time limit; 0 disables it */
+  timeoutMs?: number;
+}
+
+export interface HttpRequestOptions {
+  method?: HttpMethod;
+  /** Objects are sent as JSON; strings and ArrayBuffers are sent as-is */
+  body?: unknown;
+  query?: Record<string, string>;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  /** How to decode a successful response; defaults to JSON */
+  responseType?: 'json' | 'text' | 'arrayBuffer';
+}
+
+export const DEFAULT_TIMEOUT_MS = 120000;
+
+/**
+ * Provider-aware HTTP client shared by all adapters: builds URLs and auth,
+ * logs without secrets, applies timeouts and cancellation, decodes responses
+ * and turns failures into ProviderErrors.
+ */
+export class HttpClient {
+  constructor(private options: HttpClientOptions) {}
+
+  async request<T = any>(endpoint: string, options: HttpRequestOptions = {}): Promise<T> {
+    const request = this.buildRequest(endpoint, options);
+    const { logPrefix, provider } = this.options;
+    console.log(`[${logPrefix}] Sending ${request.method} request to ${redactUrl(request.url)}`);
+
+    try {
+      const response = await this.withTimeout(
+        signal => getTransport().request({ ...request, signal }),
+        options
+      );
+
+      if (response.status >= 400) {
+        const error = providerErrorFromResponse(provider, response, this.options.errorHints);
+        console.error(`[${logPrefix}] Error response body:`, error.details);
+        throw error;
+      }
+
+      switch (options.responseType ?? 'json') {
+        case 'arrayBuffer':
+          return response.arrayBuffer as unknown as T;
+        case 'text':
+          return response.text as unknown as T;
+        default:
+          return this.parseJson(response.text) as T;
+      }
+    } catch (error) {
+      console.error(`[${logPrefix}] API request failed:`, error);
+      throw toProviderError(error, provider, this.options.errorHints);
+    }
+  }
+
+  /** Opens a streaming request and resolves once the response headers arrive */
+  async stream(endpoint: string, options: HttpRequestOptions = {}): Promise<Response> {
+    const request = this.buildRequest(endpoint, { method: 'POST', ...options });
+    const { logPrefix, provider } = this.options;
+    console.log(`[${logPrefix}] Opening stream to ${redactUrl(request.url)}`);
+
+    let response: Response;
+    try {
+      // Only the wait for headers is timed; a long answer may keep streaming
+      response = await this.withTimeout(signal => getTransport().stream({ ...request, signal }), options, true);
+    } catch (error) {
+      throw toProviderError(error, provider, this.options.errorHints);
+    }
+
+    if (!response.ok) {
+      let text: string | undefined;
+      try {
+        text = await response.text();
+      } catch {
+        text = undefined;
+      }
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name] = value;
+      });
+      const error = providerErrorFromResponse(provider, { status: response.status, text, headers }, this.options.errorHints);
+      console.error(`[${logPrefix}] Stream error response body:`, error.details);
+      throw error;
+    }
+    if (!response.body) {
+      throw new ServerError(`${provider} returned an empty stream body`, provider, { status: response.status });
+    }
+    return response;
+  }
+
+  private buildRequest(endpoint: string, options: HttpRequestOptions): TransportRequest {
+    const query = { ...options.query, ...this.options.authQuery?.() };
+    const queryString = Object.keys(query)
+      .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(query[key])}`)
+      .join('&');
+    const path = endpoint ? `${this.options.baseUrl}/${endpoint}` : this.options.baseUrl;
+    const url = queryString ? `${path}${path.includes('?') ? '&' : '?'}${queryString}` : path;
+
+    const { body } = options;
+    const isRaw = typeof body === 'string' || body instanceof ArrayBuffer;
+    return {
+      url,
+      method: options.method ?? (body === undefined ? 'GET' : 'POST'),
+      headers: {
+        ...(body !== undefined && !isRaw ? { 'Content-Type': 'application/json' } : {}),
+        ...this.options.headers,
+        ...this.options.authHeaders?.(),
+        ...options.headers,
+      },
+      body: body === undefined ? undefined : isRaw ? (body as string | ArrayBuffer) : JSON.stringify(body),
+    };
+  }
+
+  /**
+   * Runs `send` with a signal that aborts on the caller's signal or when the
+   * time limit passes; the latter surfaces as a TimeoutError. Streams keep the
+   * caller's signal linked after success so they can be stopped mid-body.
+   */
+  private async withTimeout<T>(
+    send: (signal: AbortSignal) => Promise<T>,
+    options: HttpRequestOptions,
+    keepSignalLinked = false
+  ): Promise<T> {
+    const timeoutMs = options.timeoutMs ?? this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const { signal } = options;
+    let timedOut = false;
+
+    if (signal?.aborted) throw createAbortError();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = timeoutMs > 0
+      ? window.setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeoutMs)
+      : undefined;
+
+    let succeeded = false;
+    try {
+      const result = await send(controller.signal);
+      succeeded = true;
+      return result;
+    } catch (error) {
+      if (timedOut) {
+        const { provider } = this.options;
+        throw new TimeoutError(`${provider} did not respond within ${Math.round(timeoutMs / 1000)}s`, provider, { cause: error });
+      }
+      throw error;
+    } finally {
+      window.clearTimeout(timer);
+      if (!(keepSignalLinked && succeeded)) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  private parseJson(text: string): unknown {
+    if (!text) return null;
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      const { provider } = this.options;
+      throw new ServerError(`${provider} returned a response that is not valid JSON`, provider, {
+        details: text.slice(0, 200),
+        cause: error,
+      });
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenAITextAdapter } from '../adapters/text/OpenAITextAdapter';
+import { RateLimitError } from './errors';
+import { MockTransport, RecordingTransport, type TransportFixture } from './MockTransport';
+import { setTransport } from './transport';
+
+const completion = {
+  id: 'chatcmpl-1',
+  model: 'gpt-4o-mini-2024-07-18',
+  choices: [{ index: 0, message: { role: 'assistant', content: ' Paris. ' }, finish_reason: 'stop' }],
+  usage: { prompt_tokens: 14, completion_tokens: 2, total_tokens: 16 },
+};
+
+const stream = [
+  { model: 'gpt-4o-mini-2024-07-18', choices: [{ delta: { role: 'assistant', content: '' } }] },
+  { model: 'gpt-4o-mini-2024-07-18', choices: [{ delta: { content: 'Par' } }] },
+  { model: 'gpt-4o-mini-2024-07-18', choices: [{ delta: { content: 'is' } }] },
+  { model: 'gpt-4o-mini-2024-07-18', choices: [], usage: { prompt_tokens: 14, completion_tokens: 2, total_tokens: 16 } },
+].map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+
+describe('MockTransport', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setTransport();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('answers matching requests in order and keeps them for inspection', async () => {
+    const transport = new MockTransport([
+      { method: 'GET', url: /\/models$/, body: { data: [] } },
+      { url: 'https://example.com/text', body: 'plain' },
+    ]);
+    const json = await transport.request({ url: 'https://example.com/v1/models', method: 'GET', headers: {} });
+    const text = await transport.request({ url: 'https://example.com/text', method: 'POST', headers: {} });
+    expect(json).toMatchObject({ status: 200, text: '{"data":[]}' });
+    expect(text.text).toBe('plain');
+    expect(transport.requests.map(request => request.method)).toEqual(['GET', 'POST']);
+  });
+
+  it('throws for requests without a fixture', async () => {
+    const transport = new MockTransport().add({ method: 'POST', url: 'https://example.com/a' });
+    await expect(transport.request({ url: 'https://example.com/a', method: 'GET', headers: {} })).rejects.toThrow(
+      '[MockTransport] No fixture for GET https://example.com/a'
+    );
+  });
+
+  it('matches recorded fixtures against the redacted URL', async () => {
+    const transport = new MockTransport([{ url: 'https://example.com/models?key=[REDACTED]', body: {} }]);
+    await expect(transport.request({ url: 'https://example.com/models?key=secret', method: 'GET', headers: {} })).resolves.toMatchObject({
+      status: 200,
+    });
+  });
+
+  it('records responses as replayable fixtures without secrets', async () => {
+    const live = new MockTransport([{ url: /generateContent/, status: 200, headers: { 'content-type': 'application/json' }, body: { ok: true } }]);
+    const recorder = new RecordingTransport(live);
+    await recorder.request({
+      url: 'https://example.com/models/gemini:generateContent?key=secret',
+      method: 'POST',
+      headers: { 'x-goog-api-key': 'secret' },
+    });
+    const fixtures: TransportFixture[] = recorder.fixtures;
+    expect(fixtures).toEqual([{
+      method: 'POST',
+      url: 'https://example.com/models/gemini:generateContent?key=[REDACTED]',
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: { ok: true },
+    }]);
+
+    const replay = new MockTransport(fixtures);
+    const response = await replay.request({ url: 'https://example.com/models/gemini:generateContent?key=other', method: 'POST', headers: {} });
+    expect(JSON.parse(response.text)).toEqual({ ok: true });
+  });
+
+  describe('with an adapter', () => {
+    const adapter = () => new OpenAITextAdapter('sk-test', 'gpt-4o-mini');
+
+    it('runs a completion offline against a fixture', async () => {
+      const transport = new MockTransport([{ method: 'POST', url: 'https://api.openai.com/v1/chat/completions', body: completion }]);
+      setTransport(transport);
+
+      const response = await adapter().generate({ prompt: 'Capital of France?', maxTokens: 20 });
+      expect(response).toMatchObject({
+        output: 'Paris.',
+        model: 'gpt-4o-mini-2024-07-18',
+        finishReason: 'stop',
+        usage: { promptTokens: 14, completionTokens: 2, totalTokens: 16 },
+        provider: 'openai',
+      });
+
+      const [sent] = transport.requests;
+      expect(sent.headers.Authorization).toBe('Bearer sk-test');
+      expect(JSON.parse(sent.body as string)).toMatchObject({
+        model: 'gpt-4o-mini',
+        max_tokens: 20,
+        messages: [{ role: 'user', content: 'Capital of France?' }],
+      });
+    });
+
+    it('streams deltas, usage and the answering model from a recorded event stream', async () => {
+      setTransport(new MockTransport([{ url: 'https://api.openai.com/v1/chat/completions', body: stream }]));
+
+      const chunks = [];
+      for await (const chunk of adapter().generateStream({ prompt: 'Capital of France?' })) {
+        chunks.push(chunk);
+      }
+      expect(chunks.map(chunk => chunk.delta).join('')).toBe('Paris');
+      expect(chunks[chunks.length - 1]).toEqual({
+        delta: '',
+        usage: { promptTokens: 14, completionTokens: 2, totalTokens: 16 },
+        model: 'gpt-4o-mini-2024-07-18',
+      });
+    });
+
+    it('classifies an error fixture', async () => {
+      setTransport(new MockTransport([{
+        url: 'https://api.openai.com/v1/chat/completions',
+        status: 429,
+        headers: { 'retry-after': '2' },
+        body: { error: { message: 'Rate limit reached for gpt-4o-mini' } },
+      }]));
+
+      const error = await adapter().generate({ prompt: 'Hi' }).catch(err => err);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error).toMatchObject({ provider: 'openai', status: 429, retryAfterMs: 2000 });
+    });
+  });
+});
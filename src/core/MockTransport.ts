@@ -0,0 +1,116 @@
+// src/core/MockTransport.ts
+import { redactUrl, type Transport, type TransportRequest, type TransportResponse } from './transport';
+
+export interface TransportFixture {
+  /** Matches any method when omitted */
+  method?: string;
+  /** Exact URL, or a pattern tested against the full URL */
+  url: string | RegExp;
+  status?: number;
+  headers?: Record<string, string>;
+  /** Objects are sent as JSON; strings (including SSE streams) are sent as-is */
+  body?: unknown;
+}
+
+function encodeBody(body: unknown): string {
+  if (body === undefined) return '';
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+function matches(fixture: TransportFixture, request: TransportRequest): boolean {
+  if (fixture.method && fixture.method.toUpperCase() !== request.method) return false;
+  // Recorded fixtures have keys redacted, so compare against the redacted URL too
+  const urls = [request.url, redactUrl(request.url)];
+  return urls.some(url => (typeof fixture.url === 'string' ? fixture.url === url : fixture.url.test(url)));
+}
+
+/**
+ * In-memory transport that answers from fixtures, for running adapters offline.
+ * Fixtures are matched in order; every request is kept in `requests` for inspection.
+ */
+export class MockTransport implements Transport {
+  readonly requests: TransportRequest[] = [];
+
+  constructor(private fixtures: TransportFixture[] = []) {}
+
+  add(fixture: TransportFixture): this {
+    this.fixtures.push(fixture);
+    return this;
+  }
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const fixture = this.find(request);
+    const text = encodeBody(fixture.body);
+    return {
+      status: fixture.status ?? 200,
+      headers: fixture.headers ?? {},
+      text,
+      arrayBuffer: new TextEncoder().encode(text).buffer,
+    };
+  }
+
+  async stream(request: TransportRequest): Promise<Response> {
+    const fixture = this.find(request);
+    return new Response(encodeBody(fixture.body), {
+      status: fixture.status ?? 200,
+      headers: fixture.headers,
+    });
+  }
+
+  private find(request: TransportRequest): TransportFixture {
+    this.requests.push(request);
+    const fixture = this.fixtures.find(f => matches(f, request));
+    if (!fixture) {
+      throw new Error(`[MockTransport] No fixture for ${request.method} ${request.url}`);
+    }
+    return fixture;
+  }
+}
+
+/**
+ * Passes requests through to another transport and keeps each response as a
+ * fixture, so a live session can be replayed later with MockTransport.
+ * Request headers (and so auth headers) are not recorded, and API keys in
+ * query strings are redacted.
+ */
+export class RecordingTransport implements Transport {
+  readonly fixtures: TransportFixture[] = [];
+
+  constructor(private inner: Transport) {}
+
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.inner.request(request);
+    this.record(request, response.status, response.headers, response.text);
+    return response;
+  }
+
+  async stream(request: TransportRequest): Promise<Response> {
+    const response = await this.inner.stream(request);
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+    // Record from a copy in the background so the caller can still consume the stream live
+    response.clone().text().then(
+      text => this.record(request, response.status, headers, text),
+      error => console.warn('[RecordingTransport] Could not record stream body:', error)
+    );
+    return response;
+  }
+
+  private record(request: TransportRequest, status: number, headers: Record<string, string>, text: string) {
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Keep non-JSON bodies (SSE streams, plain text) as strings
+    }
+    this.fixtures.push({
+      method: request.method,
+      url: redactUrl(request.url),
+      status,
+      headers,
+      body,
+    });
+  }
+}
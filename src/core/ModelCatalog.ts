@@ -0,0 +1,121 @@
+// src/core/ModelCatalog.ts
+
+export interface ModelCatalogEntry {
+  models: string[];
+  /** Epoch milliseconds of the last successful fetch */
+  fetchedAt: number;
+}
+
+export type ModelCatalogData = Record<string, ModelCatalogEntry>;
+
+export interface ModelCatalogOptions {
+  /** Persisted entries; the catalog updates this object in place before calling `save` */
+  entries: ModelCatalogData;
+  save: () => Promise<void>;
+  fetchModels: (provider: string, apiKey: string) => Promise<string[]>;
+  /** Resolves the stored key for background refreshes; undefined for providers without one */
+  getApiKey: (provider: string) => Promise<string | undefined>;
+  ttlMs?: number;
+}
+
+export const DEFAULT_MODEL_CATALOG_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Caches each provider's model list in plugin data so adapters can validate
+ * models without a network call per request. Stale lists are still served
+ * while a refresh runs in the background.
+ */
+export class ModelCatalog {
+  private options?: ModelCatalogOptions;
+  private inFlight = new Map<string, Promise<string[]>>();
+
+  configure(options: ModelCatalogOptions): void {
+    this.options = options;
+  }
+
+  get ttlMs(): number {
+    return this.options?.ttlMs ?? DEFAULT_MODEL_CATALOG_TTL_MS;
+  }
+
+  getEntry(provider: string): ModelCatalogEntry | undefined {
+    return this.options?.entries[provider];
+  }
+
+  isStale(provider: string): boolean {
+    const entry = this.getEntry(provider);
+    return !entry || Date.now() - entry.fetchedAt > this.ttlMs;
+  }
+
+  /** Cached models when fresh; otherwise fetches now. Pass `apiKey` to use a key that is not stored yet. */
+  async getModels(provider: string, apiKey?: string): Promise<string[]> {
+    const entry = this.getEntry(provider);
+    if (entry && !this.isStale(provider)) return entry.models;
+    return this.refresh(provider, apiKey);
+  }
+
+  /** Fetches and stores the provider's model list; concurrent calls share one request */
+  refresh(provider: string, apiKey?: string): Promise<string[]> {
+    const pending = this.inFlight.get(provider);
+    if (pending) return pending;
+
+    const request = this.fetchAndStore(provider, apiKey).finally(() => this.inFlight.delete(provider));
+    this.inFlight.set(provider, request);
+    return request;
+  }
+
+  /** Forgets the cached list, e.g. after the provider's server moved; persisted with the next settings save */
+  invalidate(provider: string): void {
+    if (this.options?.entries[provider]) {
+      delete this.options.entries[provider];
+      console.log(`[ModelCatalog] Dropped cached models for ${provider}`);
+    }
+  }
+
+  /**
+   * Picks the model an adapter should use without blocking on the network.
+   * The requested model (or the default) is kept unless a cached list shows it
+   * does not exist. With no cached list it is used as-is and a refresh starts.
+   */
+  resolveModel(provider: string, model: string | undefined, defaultModel: string, fallbackModel: string): string {
+    const candidate = model || defaultModel || fallbackModel;
+    const entry = this.getEntry(provider);
+    if (this.isStale(provider)) this.refreshInBackground(provider);
+    if (!entry || entry.models.length === 0) return candidate;
+
+    if (entry.models.includes(candidate)) return candidate;
+    const replacement = [defaultModel, fallbackModel].find(m => m && entry.models.includes(m));
+    if (replacement) {
+      console.warn(`[ModelCatalog] ${provider} does not list '${candidate}', using '${replacement}'`);
+      return replacement;
+    }
+    console.warn(`[ModelCatalog] ${provider} does not list '${candidate}'; sending it anyway`);
+    return candidate;
+  }
+
+  private refreshInBackground(provider: string) {
+    if (!this.options || this.inFlight.has(provider)) return;
+    this.refresh(provider).catch(error => {
+      console.warn(`[ModelCatalog] Background refresh failed for ${provider}:`, error);
+    });
+  }
+
+  private async fetchAndStore(provider: string, apiKey?: string): Promise<string[]> {
+    const options = this.options;
+    if (!options) {
+      throw new Error('[ModelCatalog] Not configured.');
+    }
+
+    const key = apiKey ?? (await options.getApiKey(provider)) ?? '';
+    const models = await options.fetchModels(provider, key);
+    // An empty answer usually means a failed fetch; keep the previous list
+    if (models.length > 0) {
+      options.entries[provider] = { models, fetchedAt: Date.now() };
+      await options.save();
+      console.log(`[ModelCatalog] Cached ${models.length} model(s) for ${provider}`);
+    }
+    return models;
+  }
+}
+
+/** Shared by all adapters; the plugin configures it on load */
+export const modelCatalog = new ModelCatalog();
@@ -0,0 +1,127 @@
+// src/core/ProviderRegistry.ts
+import type {
+  EmbeddingAdapter,
+  ImageAdapter,
+  LLMAdapter,
+  SpeechAdapter,
+  TranscriptionAdapter,
+  VisionAdapter,
+} from './Adapter';
+import type { MyPluginSettings } from '../settings/types';
+
+/** Adapter interface each capability's factory returns */
+export interface CapabilityAdapters {
+  text: LLMAdapter;
+  image: ImageAdapter;
+  embedding: EmbeddingAdapter;
+  speech: SpeechAdapter;
+  transcription: TranscriptionAdapter;
+  vision: VisionAdapter;
+}
+
+export type ProviderCapability = keyof CapabilityAdapters;
+
+export interface AdapterFactoryContext {
+  /** Set when the provider requires an API key; read from the plugin's secrets */
+  apiKey?: string;
+  /** The model configured for this provider in settings, if any */
+  model?: string;
+  /** Current plugin settings, for adapters configured beyond a key and model (e.g. local server URLs) */
+  settings: MyPluginSettings;
+}
+
+export type AdapterFactory<T> = (context: AdapterFactoryContext) => T;
+
+export interface ProviderDefinition {
+  /** Unique key, also used as the secret name for the API key */
+  key: string;
+  /** Gateways skip the provider when no key is stored */
+  requiresApiKey: boolean;
+  /** Used when settings do not configure a model for this provider */
+  defaultModel?: string;
+  /** One factory per capability the provider supports */
+  factories: Partial<{ [C in ProviderCapability]: AdapterFactory<CapabilityAdapters[C]> }>;
+}
+
+/**
+ * Knows every provider and which capabilities it has. Gateways build their
+ * adapters from here; other plugins add providers through
+ * `window.aiNNS.registerProvider`.
+ */
+export class ProviderRegistry {
+  private providers = new Map<string, ProviderDefinition>();
+  private listeners: (() => void)[] = [];
+
+  constructor(definitions: ProviderDefinition[] = []) {
+    definitions.forEach(definition => this.providers.set(definition.key, definition));
+  }
+
+  /** Registers a provider and returns a function that unregisters it */
+  register(definition: ProviderDefinition): () => void {
+    if (!definition?.key || !definition.factories) {
+      throw new Error('[ProviderRegistry] A provider needs a key and a factories object.');
+    }
+    if (this.providers.has(definition.key)) {
+      console.warn(`[ProviderRegistry] Replacing existing provider: ${definition.key}`);
+    }
+    this.providers.set(definition.key, definition);
+    console.log(`[ProviderRegistry] Registered provider ${definition.key} with capabilities:`, Object.keys(definition.factories));
+    this.notify();
+
+    return () => {
+      // Only remove the entry this call created, not a later replacement
+      if (this.providers.get(definition.key) === definition) {
+        this.unregister(definition.key);
+      }
+    };
+  }
+
+  unregister(key: string): void {
+    if (this.providers.delete(key)) {
+      console.log(`[ProviderRegistry] Unregistered provider: ${key}`);
+      this.notify();
+    }
+  }
+
+  get(key: string): ProviderDefinition | undefined {
+    return this.providers.get(key);
+  }
+
+  list(): ProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  /** Keys of the providers that can serve `capability`, in registration order */
+  withCapability(capability: ProviderCapability): string[] {
+    return this.list()
+      .filter(definition => definition.factories[capability])
+      .map(definition => definition.key);
+  }
+
+  create<C extends ProviderCapability>(
+    capability: C,
+    key: string,
+    context: AdapterFactoryContext
+  ): CapabilityAdapters[C] | undefined {
+    const factory = this.providers.get(key)?.factories[capability] as AdapterFactory<CapabilityAdapters[C]> | undefined;
+    return factory?.(context);
+  }
+
+  /** Called after any provider is added or removed; returns a function that removes the listener */
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[ProviderRegistry] Change listener failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LLMRequest, LLMResponse } from './Adapter';
+import { ResponseCache, type ResponseCacheData, type ResponseCacheSettings } from './ResponseCache';
+
+const request: LLMRequest = {
+  prompt: 'Summarize this note',
+  systemPrompt: 'Be brief',
+  temperature: 0.2,
+  maxTokens: 200,
+};
+
+function setup(settings: Partial<ResponseCacheSettings> = {}, stored?: ResponseCacheData) {
+  const save = vi.fn(async () => undefined);
+  const cache = new ResponseCache();
+  cache.configure({
+    settings: { enabled: true, ttlHours: 1, maxEntries: 10, maxSizeMB: 1, ...settings },
+    load: async () => stored,
+    save,
+  });
+  return { cache, save };
+}
+
+const response = (output: string): LLMResponse => ({ output, provider: 'openai', model: 'gpt-4o' });
+
+describe('ResponseCache.keyFor', () => {
+  const cache = new ResponseCache();
+
+  it('is stable across property order', async () => {
+    const reordered: LLMRequest = { maxTokens: 200, temperature: 0.2, systemPrompt: 'Be brief', prompt: 'Summarize this note' };
+    expect(await cache.keyFor('openai', 'gpt-4o', reordered)).toBe(await cache.keyFor('openai', 'gpt-4o', request));
+  });
+
+  it('ignores fields that only steer routing, scheduling, caching or cancellation', async () => {
+    const key = await cache.keyFor('openai', 'gpt-4o', request);
+    const steered: LLMRequest = {
+      ...request,
+      signal: new AbortController().signal,
+      tag: 'summary',
+      pluginId: 'other-plugin',
+      requires: ['json'],
+      cache: 'refresh',
+      priority: 'high',
+      model: 'requested-model',
+      stop: undefined,
+    };
+    expect(await cache.keyFor('openai', 'gpt-4o', steered)).toBe(key);
+  });
+
+  it('changes with the provider, resolved model and content', async () => {
+    const key = await cache.keyFor('openai', 'gpt-4o', request);
+    expect(await cache.keyFor('openrouter', 'gpt-4o', request)).not.toBe(key);
+    expect(await cache.keyFor('openai', 'gpt-4o-mini', request)).not.toBe(key);
+    expect(await cache.keyFor('openai', 'gpt-4o', { ...request, temperature: 0.3 })).not.toBe(key);
+    expect(await cache.keyFor('openai', 'gpt-4o', { ...request, prompt: 'Summarize that note' })).not.toBe(key);
+  });
+});
+
+describe('ResponseCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('uses the setting only for requests without their own cache option', () => {
+    expect(setup({ enabled: false }).cache.modeFor(request)).toBe('bypass');
+    expect(setup({ enabled: true }).cache.modeFor(request)).toBe('use');
+    expect(setup({ enabled: false }).cache.modeFor({ ...request, cache: 'refresh' })).toBe('refresh');
+    expect(new ResponseCache().modeFor({ ...request, cache: 'use' })).toBe('bypass');
+  });
+
+  it('replays stored answers without per-call details', async () => {
+    const { cache } = setup();
+    await cache.set('key', { ...response('cached'), fallbackPath: [], cached: false, latencyMs: 12 });
+    expect(await cache.get('key')).toEqual({ ...response('cached'), latencyMs: 12 });
+    expect(await cache.stats()).toMatchObject({ hits: 1, misses: 0, entries: 1 });
+  });
+
+  it('expires entries after the TTL', async () => {
+    const { cache } = setup({ ttlHours: 1 });
+    await cache.set('key', response('old'));
+    vi.advanceTimersByTime(61 * 60 * 1000);
+    expect(await cache.get('key')).toBeUndefined();
+    expect(await cache.stats()).toMatchObject({ misses: 1, entries: 0 });
+  });
+
+  it('drops the least recently used entries past maxEntries', async () => {
+    const { cache } = setup({ maxEntries: 2 });
+    await cache.set('a', response('a'));
+    vi.advanceTimersByTime(1000);
+    await cache.set('b', response('b'));
+    vi.advanceTimersByTime(1000);
+    await cache.get('a');
+    vi.advanceTimersByTime(1000);
+    await cache.set('c', response('c'));
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toBeDefined();
+    expect(await cache.get('c')).toBeDefined();
+  });
+
+  it('loads stored entries and batches saves', async () => {
+    const now = Date.now();
+    const { cache, save } = setup({}, {
+      entries: { stored: { response: response('from disk'), createdAt: now, lastUsedAt: now, size: 10 } },
+      hits: 4,
+      misses: 2,
+    });
+    expect((await cache.get('stored'))?.output).toBe('from disk');
+    await cache.set('new', response('new'));
+    expect(save).not.toHaveBeenCalled();
+    await cache.flushPending();
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(await cache.stats()).toMatchObject({ hits: 5, misses: 2, entries: 2 });
+  });
+});
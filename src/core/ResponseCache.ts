@@ -0,0 +1,215 @@
+// src/core/ResponseCache.ts
+import type { LLMRequest, LLMResponse } from './Adapter';
+
+/**
+ * Per-request cache control: `use` reads and writes, `refresh` skips the read
+ * but stores the new answer, `bypass` neither reads nor writes.
+ */
+export type CacheMode = 'use' | 'refresh' | 'bypass';
+
+export interface ResponseCacheSettings {
+  /** Requests without a `cache` option use the cache only when this is on */
+  enabled: boolean;
+  ttlHours: number;
+  maxEntries: number;
+  maxSizeMB: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_SETTINGS: ResponseCacheSettings = {
+  enabled: false,
+  ttlHours: 24,
+  maxEntries: 500,
+  maxSizeMB: 5,
+};
+
+export interface ResponseCacheEntry {
+  response: LLMResponse;
+  createdAt: number;
+  lastUsedAt: number;
+  /** Serialized size in characters, used for the size limit */
+  size: number;
+}
+
+export interface ResponseCacheData {
+  entries: Record<string, ResponseCacheEntry>;
+  hits: number;
+  misses: number;
+}
+
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  sizeBytes: number;
+}
+
+export interface ResponseCacheOptions {
+  /** Read on every call, so edits in the settings tab apply immediately */
+  settings: ResponseCacheSettings;
+  load: () => Promise<ResponseCacheData | undefined>;
+  save: (data: ResponseCacheData) => Promise<void>;
+}
+
+const SAVE_DELAY_MS = 1000;
+
+/** Request fields that only steer routing, scheduling, caching or cancellation; the resolved model is keyed separately */
+const UNKEYED_FIELDS = ['signal', 'tag', 'pluginId', 'requires', 'cache', 'priority', 'model'] as const;
+
+/** JSON with sorted object keys, so equal requests always hash the same */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Stores text responses on disk, keyed on a hash of provider, model, messages
+ * and parameters. Entries expire after the TTL; past the size limits the least
+ * recently used ones are dropped.
+ */
+export class ResponseCache {
+  private options?: ResponseCacheOptions;
+  private data: ResponseCacheData = { entries: {}, hits: 0, misses: 0 };
+  private loading?: Promise<void>;
+  private saveTimer?: number;
+
+  configure(options: ResponseCacheOptions): void {
+    this.options = options;
+    this.loading = undefined;
+  }
+
+  /** The request's own `cache` option, otherwise the setting's default */
+  modeFor(request: LLMRequest): CacheMode {
+    if (!this.options) return 'bypass';
+    return request.cache ?? (this.options.settings.enabled ? 'use' : 'bypass');
+  }
+
+  /** Hash of the provider, the model that will answer and the request content */
+  async keyFor(provider: string, model: string, request: LLMRequest): Promise<string> {
+    const content: Partial<LLMRequest> = { ...request };
+    UNKEYED_FIELDS.forEach(field => delete content[field]);
+    return sha256(stableStringify({ provider, model, ...content }));
+  }
+
+  async get(key: string): Promise<LLMResponse | undefined> {
+    await this.load();
+    const entry = this.data.entries[key];
+    if (entry && !this.isExpired(entry)) {
+      entry.lastUsedAt = Date.now();
+      this.data.hits++;
+      this.scheduleSave();
+      return entry.response;
+    }
+    if (entry) delete this.data.entries[key];
+    this.data.misses++;
+    this.scheduleSave();
+    return undefined;
+  }
+
+  async set(key: string, response: LLMResponse): Promise<void> {
+    await this.load();
+    // Per-call details would be misleading on a replay
+    const stored: LLMResponse = { ...response };
+    delete stored.fallbackPath;
+    delete stored.route;
+    delete stored.cached;
+    const now = Date.now();
+    this.data.entries[key] = { response: stored, createdAt: now, lastUsedAt: now, size: JSON.stringify(stored).length };
+    this.evict();
+    this.scheduleSave();
+  }
+
+  async stats(): Promise<ResponseCacheStats> {
+    await this.load();
+    const entries = Object.keys(this.data.entries).map(key => this.data.entries[key]);
+    return {
+      hits: this.data.hits,
+      misses: this.data.misses,
+      entries: entries.length,
+      sizeBytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    };
+  }
+
+  /** Removes every entry and resets the hit statistics */
+  async purge(): Promise<void> {
+    await this.load();
+    this.data = { entries: {}, hits: 0, misses: 0 };
+    await this.flush();
+    console.log('[ResponseCache] Purged');
+  }
+
+  private isExpired(entry: ResponseCacheEntry): boolean {
+    const ttlHours = this.options?.settings.ttlHours ?? DEFAULT_RESPONSE_CACHE_SETTINGS.ttlHours;
+    return Date.now() - entry.createdAt > ttlHours * 60 * 60 * 1000;
+  }
+
+  private evict() {
+    const settings = this.options?.settings ?? DEFAULT_RESPONSE_CACHE_SETTINGS;
+    const maxSize = settings.maxSizeMB * 1024 * 1024;
+    const keys = Object.keys(this.data.entries)
+      .filter(key => {
+        if (!this.isExpired(this.data.entries[key])) return true;
+        delete this.data.entries[key];
+        return false;
+      })
+      .sort((a, b) => this.data.entries[b].lastUsedAt - this.data.entries[a].lastUsedAt);
+
+    let size = 0;
+    keys.forEach((key, index) => {
+      size += this.data.entries[key].size;
+      if (index >= settings.maxEntries || size > maxSize) {
+        delete this.data.entries[key];
+      }
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const data = await this.options?.load();
+          if (data?.entries) this.data = data;
+        } catch (error) {
+          console.warn('[ResponseCache] Failed to load cache, starting empty:', error);
+        }
+      })();
+    }
+    return this.loading;
+  }
+
+  /** Batches writes so a burst of requests saves once */
+  private scheduleSave() {
+    if (this.saveTimer !== undefined) return;
+    this.saveTimer = window.setTimeout(() => {
+      this.flush().catch(error => console.warn('[ResponseCache] Failed to save cache:', error));
+    }, SAVE_DELAY_MS);
+  }
+
+  /** Writes a batched save right away, if one is waiting; the plugin calls this on unload */
+  async flushPending(): Promise<void> {
+    if (this.saveTimer !== undefined) await this.flush();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.saveTimer !== undefined) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    await this.options?.save(this.data);
+  }
+}
+
+/** Shared by every TextGateway; the plugin configures it on load */
+export const responseCache = new ResponseCache();
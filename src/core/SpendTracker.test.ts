@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BudgetExceededError } from './errors';
+import { SpendTracker, dayKey, type BudgetSettings, type SpendLedger } from './SpendTracker';
+
+function setup(budgets: Partial<BudgetSettings> = {}) {
+  const ledger: SpendLedger = {};
+  const save = vi.fn(async () => undefined);
+  const onWarning = vi.fn();
+  const tracker = new SpendTracker();
+  tracker.configure({
+    ledger,
+    budgets: { warnAtPercent: 80, providers: {}, ...budgets },
+    priceOverrides: { test: { model: { input: 1_000_000, output: 0 } } },
+    save,
+    onWarning,
+  });
+  return { tracker, ledger, save, onWarning };
+}
+
+describe('SpendTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 19, 12));
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('records cost and tokens per day, category and provider', () => {
+    const { tracker, ledger } = setup();
+    // $1 per prompt token under the override
+    expect(tracker.record('text', 'test', 'model', { promptTokens: 2, completionTokens: 5 })).toBe(2);
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    expect(ledger['2026-10-19'].text.test).toEqual({ cost: 3, requests: 2, promptTokens: 3, completionTokens: 5 });
+  });
+
+  it('counts unpriced requests without a cost', () => {
+    const { tracker, ledger } = setup();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(tracker.record('text', 'test', 'unknown', { promptTokens: 10 })).toBeUndefined();
+    expect(ledger['2026-10-19'].text.test.requests).toBe(1);
+    expect(ledger['2026-10-19'].text.test.cost).toBe(0);
+  });
+
+  it('summarizes only the requested month', () => {
+    const { tracker, ledger } = setup();
+    ledger['2026-09-30'] = { text: { test: { cost: 7, requests: 1, promptTokens: 0, completionTokens: 0 } } };
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    tracker.recordImages('openai', 'dall-e-3', 1);
+    const summary = tracker.summary();
+    expect(summary.total).toBeCloseTo(1.04);
+    expect(summary.byProvider).toEqual({ test: 1, openai: 0.04 });
+    expect(summary.byCategory).toEqual({ text: 1, image: 0.04 });
+    expect(tracker.summary('2026-09').total).toBe(7);
+  });
+
+  it('refuses requests only once a hard cap is used up', () => {
+    const { tracker } = setup({ providers: { test: { limit: 2, hard: true } } });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    expect(() => tracker.checkBudget('test')).not.toThrow();
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    expect(() => tracker.checkBudget('test')).toThrow(BudgetExceededError);
+    expect(() => tracker.checkBudget('other')).not.toThrow();
+  });
+
+  it('applies the total cap to every provider and ignores soft caps', () => {
+    const { tracker } = setup({ total: { limit: 1, hard: true }, providers: { test: { limit: 1, hard: false } } });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    expect(() => tracker.checkBudget('other')).toThrow(BudgetExceededError);
+  });
+
+  it('warns once per threshold and month', () => {
+    const { tracker, onWarning } = setup({ providers: { test: { limit: 10, hard: false } } });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    tracker.record('text', 'test', 'model', { promptTokens: 8 });
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    expect(onWarning.mock.calls.map(([message]) => message)).toEqual([
+      'test has used $8.00 of its $10.00 monthly budget.',
+      'test has used $10.00 of its $10.00 monthly budget. This is a soft limit; requests continue.',
+    ]);
+  });
+
+  it('batches saves and flushes a pending one on demand', async () => {
+    const { tracker, save } = setup();
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    expect(save).not.toHaveBeenCalled();
+    await tracker.flushPending();
+    expect(save).toHaveBeenCalledTimes(1);
+    await vi.runAllTimersAsync();
+    expect(save).toHaveBeenCalledTimes(1);
+    await tracker.flushPending();
+    expect(save).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops days older than a year', () => {
+    const { tracker, ledger } = setup();
+    ledger['2025-10-31'] = {};
+    ledger['2025-11-01'] = {};
+    tracker.record('text', 'test', 'model', { promptTokens: 1 });
+    expect(Object.keys(ledger).sort()).toEqual(['2025-11-01', dayKey()]);
+  });
+});
@@ -0,0 +1,244 @@
+// src/core/SpendTracker.ts
+import type { TokenUsage } from './Adapter';
+import { BudgetExceededError } from './errors';
+import { DEFAULT_PRICES, estimateCost, estimateImageCost, mergePriceTables, type PriceTable } from './pricing';
+
+export interface SpendEntry {
+  /** USD */
+  cost: number;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/** Day (YYYY-MM-DD, local time) -> category -> provider -> totals */
+export type SpendLedger = Record<string, Record<string, Record<string, SpendEntry>>>;
+
+export interface SpendBudget {
+  /** Monthly limit in USD */
+  limit: number;
+  /** Refuse requests once the limit is reached; otherwise only warn */
+  hard: boolean;
+}
+
+export interface BudgetSettings {
+  /** Warn once a budget reaches this share of its limit */
+  warnAtPercent: number;
+  /** Across all providers */
+  total?: SpendBudget;
+  providers: Record<string, SpendBudget>;
+}
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  warnAtPercent: 80,
+  providers: {},
+};
+
+export interface SpendSummary {
+  total: number;
+  requests: number;
+  byProvider: Record<string, number>;
+  byCategory: Record<string, number>;
+  byDay: Record<string, number>;
+}
+
+export interface SpendTrackerOptions {
+  /** Persisted ledger; updated in place before `save` is called */
+  ledger: SpendLedger;
+  budgets: BudgetSettings;
+  /** Price overrides from settings, applied on top of DEFAULT_PRICES */
+  priceOverrides: PriceTable;
+  save: () => Promise<void>;
+  /** Shown to the user when a budget crosses its warning threshold or its limit */
+  onWarning?: (message: string) => void;
+}
+
+const SAVE_DELAY_MS = 2000;
+/** Months of history kept in the ledger, counting the current one; older days are dropped */
+const LEDGER_RETENTION_MONTHS = 12;
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value);
+}
+
+export function dayKey(date = new Date()): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** YYYY-MM of `date`, in local time */
+export function monthKey(date = new Date()): string {
+  return dayKey(date).slice(0, 7);
+}
+
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+/**
+ * Prices each request from the usage its adapter reports and keeps a running
+ * ledger per day, category and provider. Gateways ask it before sending so
+ * hard monthly caps can refuse requests up front.
+ */
+export class SpendTracker {
+  private options?: SpendTrackerOptions;
+  private saveTimer?: number;
+  /** `${month}:${scope}:${level}` of warnings already shown, so each fires once per month */
+  private warned = new Set<string>();
+
+  configure(options: SpendTrackerOptions): void {
+    this.options = options;
+    this.trim();
+  }
+
+  /** DEFAULT_PRICES with the settings' overrides applied */
+  priceTable(): PriceTable {
+    return this.options ? mergePriceTables(DEFAULT_PRICES, this.options.priceOverrides) : DEFAULT_PRICES;
+  }
+
+  /** Throws a BudgetExceededError when a hard cap covering `provider` is used up this month */
+  checkBudget(provider: string): void {
+    const budgets = this.options?.budgets;
+    if (!budgets) return;
+
+    const summary = this.summary();
+    const providerBudget = budgets.providers[provider];
+    const providerSpend = summary.byProvider[provider] ?? 0;
+    if (providerBudget?.hard && providerSpend >= providerBudget.limit) {
+      throw new BudgetExceededError(
+        `${provider} reached its monthly budget (${formatUsd(providerSpend)} of ${formatUsd(providerBudget.limit)}).`,
+        provider
+      );
+    }
+    if (budgets.total?.hard && summary.total >= budgets.total.limit) {
+      throw new BudgetExceededError(
+        `The monthly AI budget is used up (${formatUsd(summary.total)} of ${formatUsd(budgets.total.limit)}).`,
+        provider
+      );
+    }
+  }
+
+  /** Adds a finished request to the ledger; returns its cost, or undefined when the model has no price */
+  record(category: string, provider: string, model: string, usage: TokenUsage | undefined): number | undefined {
+    return this.add(category, provider, model, estimateCost(provider, model, usage, this.priceTable()), usage);
+  }
+
+  /** Adds a finished image request, priced per image rather than per token */
+  recordImages(provider: string, model: string, images: number): number | undefined {
+    return this.add('image', provider, model, estimateImageCost(provider, model, images));
+  }
+
+  /** Totals for one month (YYYY-MM), the current one by default */
+  summary(month = monthKey()): SpendSummary {
+    const summary: SpendSummary = { total: 0, requests: 0, byProvider: {}, byCategory: {}, byDay: {} };
+    const ledger = this.options?.ledger ?? {};
+
+    Object.keys(ledger)
+      .filter(day => day.startsWith(month))
+      .forEach(day => {
+        Object.keys(ledger[day]).forEach(category => {
+          const providers = ledger[day][category];
+          Object.keys(providers).forEach(provider => {
+            const { cost, requests } = providers[provider];
+            summary.total += cost;
+            summary.requests += requests;
+            summary.byProvider[provider] = (summary.byProvider[provider] ?? 0) + cost;
+            summary.byCategory[category] = (summary.byCategory[category] ?? 0) + cost;
+            summary.byDay[day] = (summary.byDay[day] ?? 0) + cost;
+          });
+        });
+      });
+    return summary;
+  }
+
+  /** Deletes every ledger entry */
+  async clear(): Promise<void> {
+    const options = this.options;
+    if (!options) return;
+    Object.keys(options.ledger).forEach(day => delete options.ledger[day]);
+    this.warned.clear();
+    await options.save();
+  }
+
+  private add(category: string, provider: string, model: string, cost: number | undefined, usage?: TokenUsage): number | undefined {
+    const options = this.options;
+    if (!options) return undefined;
+
+    const day = dayKey();
+    if (!options.ledger[day]) {
+      options.ledger[day] = {};
+      this.trim();
+    }
+    const byCategory = options.ledger[day];
+    const byProvider = byCategory[category] ?? (byCategory[category] = {});
+    const entry = byProvider[provider] ?? (byProvider[provider] = { cost: 0, requests: 0, promptTokens: 0, completionTokens: 0 });
+    entry.cost += cost ?? 0;
+    entry.requests++;
+    entry.promptTokens += usage?.promptTokens ?? 0;
+    entry.completionTokens += usage?.completionTokens ?? 0;
+
+    if (cost === undefined) {
+      console.warn(`[SpendTracker] No price for ${provider}/${model}; recorded the request without a cost.`);
+    }
+    this.checkWarnings(provider);
+    this.scheduleSave();
+    return cost;
+  }
+
+  private checkWarnings(provider: string) {
+    const options = this.options;
+    if (!options) return;
+    const summary = this.summary();
+    const warnAt = options.budgets.warnAtPercent / 100;
+
+    const check = (scope: string, label: string, spent: number, budget?: SpendBudget) => {
+      if (!budget || budget.limit <= 0) return;
+      const level = spent >= budget.limit ? 'limit' : spent >= budget.limit * warnAt ? 'warn' : undefined;
+      const key = `${monthKey()}:${scope}:${level}`;
+      if (!level || this.warned.has(key)) return;
+      this.warned.add(key);
+
+      const status = `${label} has used ${formatUsd(spent)} of its ${formatUsd(budget.limit)} monthly budget`;
+      const message = level === 'warn'
+        ? `${status}.`
+        : `${status}. ${budget.hard ? 'Further requests will be refused.' : 'This is a soft limit; requests continue.'}`;
+      console.warn(`[SpendTracker] ${message}`);
+      options.onWarning?.(message);
+    };
+
+    check(provider, provider, summary.byProvider[provider] ?? 0, options.budgets.providers[provider]);
+    check('total', 'AI usage', summary.total, options.budgets.total);
+  }
+
+  /** Drops days older than the retention window so the ledger stays small in data.json */
+  private trim() {
+    const ledger = this.options?.ledger;
+    if (!ledger) return;
+    const now = new Date();
+    const oldest = monthKey(new Date(now.getFullYear(), now.getMonth() - (LEDGER_RETENTION_MONTHS - 1), 1));
+    Object.keys(ledger)
+      .filter(day => day.slice(0, 7) < oldest)
+      .forEach(day => delete ledger[day]);
+  }
+
+  /** The ledger changes on every request; write it out at most every couple of seconds */
+  private scheduleSave() {
+    if (this.saveTimer !== undefined) return;
+    this.saveTimer = window.setTimeout(() => {
+      this.flush().catch(error => console.warn('[SpendTracker] Failed to save the ledger:', error));
+    }, SAVE_DELAY_MS);
+  }
+
+  /** Writes a batched save right away, if one is waiting; the plugin calls this on unload */
+  async flushPending(): Promise<void> {
+    if (this.saveTimer !== undefined) await this.flush();
+  }
+
+  private async flush(): Promise<void> {
+    if (this.saveTimer !== undefined) {
+      window.clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    await this.options?.save();
+  }
+}
+
+/** Shared by every gateway; the plugin configures it on load */
+export const spendTracker = new SpendTracker();
@@ -0,0 +1,59 @@
+// src/core/ToolRegistry.ts
+import type { ToolDefinition } from './Adapter';
+
+export type ToolHandler = (args: Record<string, unknown>) => unknown | Promise<unknown>;
+
+interface RegisteredTool {
+  definition: ToolDefinition;
+  handler: ToolHandler;
+}
+
+/**
+ * Holds tools that any plugin can expose to the models through `window.aiNNS.tools`.
+ * Tool names are global, so registering an existing name replaces it.
+ */
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  /** Registers a tool and returns a function that unregisters it */
+  register(definition: ToolDefinition, handler: ToolHandler): () => void {
+    if (!definition?.name || typeof handler !== 'function') {
+      throw new Error('[ToolRegistry] A tool needs a name and a handler function.');
+    }
+    if (this.tools.has(definition.name)) {
+      console.warn(`[ToolRegistry] Replacing existing tool: ${definition.name}`);
+    }
+    const entry = { definition, handler };
+    this.tools.set(definition.name, entry);
+    console.log(`[ToolRegistry] Registered tool: ${definition.name}`);
+
+    return () => {
+      // Only remove the entry this call created, not a later replacement
+      if (this.tools.get(definition.name) === entry) {
+        this.unregister(definition.name);
+      }
+    };
+  }
+
+  unregister(name: string): void {
+    if (this.tools.delete(name)) {
+      console.log(`[ToolRegistry] Unregistered tool: ${name}`);
+    }
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(tool => tool.definition);
+  }
+
+  /** Definitions and handlers for the named tools, or for every tool when no names are given */
+  select(names?: string[]): { definitions: ToolDefinition[]; handlers: Record<string, ToolHandler> } {
+    const definitions: ToolDefinition[] = [];
+    const handlers: Record<string, ToolHandler> = {};
+    this.tools.forEach((tool, name) => {
+      if (names && !names.includes(name)) return;
+      definitions.push(tool.definition);
+      handlers[name] = tool.handler;
+    });
+    return { definitions, handlers };
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AuthenticationError,
+  BudgetExceededError,
+  ContentFilteredError,
+  InvalidRequestError,
+  NetworkError,
+  ProviderError,
+  QuotaExceededError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  errorCode,
+  parseRetryAfter,
+  providerErrorFromResponse,
+  shouldFallback,
+  toProviderError,
+} from './errors';
+
+describe('providerErrorFromResponse', () => {
+  it.each([
+    [401, '{"error":{"message":"bad key"}}', AuthenticationError],
+    [402, 'Payment required', QuotaExceededError],
+    [429, '{"error":{"message":"Rate limit reached"}}', RateLimitError],
+    [429, '{"error":{"code":"insufficient_quota","message":"You exceeded your current quota"}}', QuotaExceededError],
+    [400, '{"error":{"message":"max_tokens is too large"}}', InvalidRequestError],
+    [400, '{"error":{"message":"Request flagged by content policy"}}', ContentFilteredError],
+    [408, '', TimeoutError],
+    [503, 'Service Unavailable', ServerError],
+  ])('classifies %i %s', (status, text, errorClass) => {
+    expect(providerErrorFromResponse('openai', { status, text })).toBeInstanceOf(errorClass);
+  });
+
+  it('puts the provider details and hint in the message', () => {
+    const error = providerErrorFromResponse('anthropic', { status: 401, text: '{"error":{"message":"invalid x-api-key"}}' }, {
+      auth: 'Check your key in settings',
+    });
+    expect(error.message).toBe('anthropic error 401: invalid x-api-key. Check your key in settings');
+    expect(error.details).toBe('invalid x-api-key');
+    expect(error.status).toBe(401);
+    expect(error.provider).toBe('anthropic');
+  });
+
+  it('reads retry-after on any status but rate-limit resets on 429s only', () => {
+    const resets = { 'x-ratelimit-reset-requests': '20s' };
+    expect(providerErrorFromResponse('openai', { status: 429, headers: resets }).retryAfterMs).toBe(20000);
+    expect(providerErrorFromResponse('openai', { status: 500, headers: resets }).retryAfterMs).toBeUndefined();
+    expect(providerErrorFromResponse('openai', { status: 503, headers: { 'Retry-After': '3' } }).retryAfterMs).toBe(3000);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('prefers retry-after-ms', () => {
+    expect(parseRetryAfter({ 'retry-after-ms': '250', 'retry-after': '9' })).toBe(250);
+  });
+
+  it('takes the longest rate-limit reset', () => {
+    expect(parseRetryAfter({ 'x-ratelimit-reset-requests': '1.5s', 'x-ratelimit-reset-tokens': '6m0s' })).toBe(360000);
+  });
+
+  it('ignores reset headers when asked to', () => {
+    expect(parseRetryAfter({ 'x-ratelimit-reset-requests': '1s' }, false)).toBeUndefined();
+  });
+});
+
+describe('ProviderError', () => {
+  it('marks only transient codes as retryable', () => {
+    expect(new RateLimitError('', 'groq').retryable).toBe(true);
+    expect(new NetworkError('', 'groq').retryable).toBe(true);
+    expect(new AuthenticationError('', 'groq').retryable).toBe(false);
+    expect(new InvalidRequestError('', 'groq').retryable).toBe(false);
+  });
+});
+
+describe('toProviderError', () => {
+  it('wraps plain errors as network failures', () => {
+    const error = toProviderError(new Error('ECONNREFUSED'), 'local', { network: 'Is Ollama running?' });
+    expect(error).toBeInstanceOf(NetworkError);
+    expect((error as ProviderError).message).toBe('local request failed: ECONNREFUSED. Is Ollama running?');
+  });
+
+  it('passes provider errors and cancellations through', () => {
+    const providerError = new ServerError('boom', 'openai');
+    const abort = Object.assign(new Error('cancelled'), { name: 'AbortError' });
+    expect(toProviderError(providerError, 'openai')).toBe(providerError);
+    expect(toProviderError(abort, 'openai')).toBe(abort);
+  });
+});
+
+describe('shouldFallback', () => {
+  it('falls back on provider trouble by default', () => {
+    expect(shouldFallback(new RateLimitError('', 'openai'))).toBe(true);
+    expect(shouldFallback(new BudgetExceededError('', 'openai'))).toBe(true);
+  });
+
+  it('treats invalid requests, filtered content and unclassified errors as final by default', () => {
+    expect(shouldFallback(new InvalidRequestError('', 'openai'))).toBe(false);
+    expect(shouldFallback(new ContentFilteredError('', 'openai'))).toBe(false);
+    expect(errorCode(new Error('bug'))).toBe('unknown');
+    expect(shouldFallback(new Error('bug'))).toBe(false);
+  });
+
+  it('follows a link override and never falls back on cancellation', () => {
+    expect(shouldFallback(new InvalidRequestError('', 'openai'), ['invalid_request'])).toBe(true);
+    expect(shouldFallback(new ServerError('', 'openai'), ['rate_limit'])).toBe(false);
+    expect(shouldFallback(Object.assign(new Error(''), { name: 'AbortError' }), ['unknown'])).toBe(false);
+  });
+});
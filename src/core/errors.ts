@@ -0,0 +1,307 @@
+// src/core/errors.ts
+
+/**
+ * Thrown when a structured (JSON) response cannot be parsed or does not
+ * match the requested schema after all correction attempts.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly rawOutput: string,
+    public readonly issues: string[]
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+export type ProviderErrorCode =
+  | 'auth'
+  | 'rate_limit'
+  | 'quota'
+  | 'invalid_request'
+  | 'content_filtered'
+  | 'server'
+  | 'network'
+  | 'timeout'
+  | 'budget'
+  | 'unknown';
+
+export interface ProviderErrorOptions {
+  status?: number;
+  /** How long the provider asked us to wait before retrying */
+  retryAfterMs?: number;
+  /** Error text from the provider, without our hints */
+  details?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every failure reported by a provider or on the way to it.
+ * Branch on `code` (or `instanceof` a subclass) rather than on the message.
+ */
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly details?: string;
+  readonly cause?: unknown;
+
+  constructor(
+    message: string,
+    public readonly code: ProviderErrorCode,
+    public readonly provider: string,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.details = options.details;
+    this.cause = options.cause;
+  }
+
+  /** Whether the same request may succeed if sent again later */
+  get retryable(): boolean {
+    return ['rate_limit', 'server', 'network', 'timeout'].includes(this.code);
+  }
+}
+
+export class AuthenticationError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'auth', provider, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'rate_limit', provider, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+/** Out of credits or over a billing quota; retrying will not help */
+export class QuotaExceededError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'quota', provider, options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class InvalidRequestError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'invalid_request', provider, options);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class ContentFilteredError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'content_filtered', provider, options);
+    this.name = 'ContentFilteredError';
+  }
+}
+
+export class ServerError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'server', provider, options);
+    this.name = 'ServerError';
+  }
+}
+
+export class NetworkError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'network', provider, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class TimeoutError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'timeout', provider, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** Refused locally because the provider's (or the overall) monthly spend cap is reached */
+export class BudgetExceededError extends ProviderError {
+  constructor(message: string, provider: string, options?: ProviderErrorOptions) {
+    super(message, 'budget', provider, options);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+type ProviderErrorClass = new (message: string, provider: string, options?: ProviderErrorOptions) => ProviderError;
+
+const errorClasses: Record<Exclude<ProviderErrorCode, 'unknown'>, ProviderErrorClass> = {
+  auth: AuthenticationError,
+  rate_limit: RateLimitError,
+  quota: QuotaExceededError,
+  invalid_request: InvalidRequestError,
+  content_filtered: ContentFilteredError,
+  server: ServerError,
+  network: NetworkError,
+  timeout: TimeoutError,
+  budget: BudgetExceededError,
+};
+
+export function createProviderError(
+  code: ProviderErrorCode,
+  message: string,
+  provider: string,
+  options?: ProviderErrorOptions
+): ProviderError {
+  return code === 'unknown'
+    ? new ProviderError(message, code, provider, options)
+    : new errorClasses[code](message, provider, options);
+}
+
+/** Per-provider advice appended to error messages, e.g. where to manage API keys */
+export type ErrorHints = Partial<Record<ProviderErrorCode, string>>;
+
+/** The parts of an HTTP response needed to classify an error; fits requestUrl and fetch alike */
+export interface HttpErrorResponse {
+  status: number;
+  text?: string;
+  headers?: Record<string, string>;
+}
+
+const QUOTA_PATTERN = /insufficient_quota|quota|billing|credit|payment/i;
+const CONTENT_PATTERN = /content[ _-]?(policy|filter|management)|safety|moderation|flagged/i;
+
+function readHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/** Parses durations like `20ms`, `1.5s` or `6m0s` (OpenAI and Groq reset headers) */
+function parseDuration(value: string): number | undefined {
+  const parts = value.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/g);
+  if (!parts) return undefined;
+  const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000 };
+  return parts.reduce((total, part) => {
+    const [, amount, unit] = part.match(/(\d+(?:\.\d+)?)(ms|h|m|s)/) as RegExpMatchArray;
+    return total + Number(amount) * unitMs[unit];
+  }, 0);
+}
+
+/** Reads an epoch timestamp in seconds or milliseconds, or an ISO date, as a delay from now */
+function parseResetTime(value: string): number | undefined {
+  const numeric = Number(value);
+  if (!isNaN(numeric)) {
+    const epochMs = numeric > 1e12 ? numeric : numeric * 1000;
+    return Math.max(0, epochMs - Date.now());
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Reads how long to wait before retrying, from `retry-after-ms`, `retry-after`
+ * (seconds or an HTTP date), or the providers' rate-limit reset headers.
+ */
+export function parseRetryAfter(
+  headers: Record<string, string> | undefined,
+  includeRateLimitReset = true
+): number | undefined {
+  const ms = readHeader(headers, 'retry-after-ms');
+  if (ms && !isNaN(Number(ms))) return Number(ms);
+
+  const value = readHeader(headers, 'retry-after');
+  if (value) {
+    if (!isNaN(Number(value))) return Number(value) * 1000;
+    const date = Date.parse(value);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  if (!includeRateLimitReset) return undefined;
+
+  // OpenAI/Groq send durations, OpenRouter an epoch in ms, Anthropic an ISO date
+  const resets = [
+    readHeader(headers, 'x-ratelimit-reset-requests'),
+    readHeader(headers, 'x-ratelimit-reset-tokens'),
+    readHeader(headers, 'x-ratelimit-reset'),
+    readHeader(headers, 'anthropic-ratelimit-requests-reset'),
+    readHeader(headers, 'anthropic-ratelimit-tokens-reset'),
+  ]
+    .filter((header): header is string => !!header)
+    .map(header => (/^[\d.]+(ms|h|m|s)/.test(header) ? parseDuration(header) : parseResetTime(header)))
+    .filter((delay): delay is number => delay !== undefined);
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+/** Pulls a human-readable message out of the common provider error body shapes */
+function extractErrorDetails(text: string | undefined): string {
+  if (!text) return 'No additional details';
+  try {
+    const body = JSON.parse(text);
+    const error = Array.isArray(body) ? body[0]?.error : body?.error;
+    if (typeof error === 'string') return error;
+    return error?.message || body?.message || (Array.isArray(body?.errors) ? body.errors.join('; ') : '') || text;
+  } catch {
+    return text;
+  }
+}
+
+function codeForStatus(status: number, details: string): ProviderErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota';
+  if (status === 429) return QUOTA_PATTERN.test(details) ? 'quota' : 'rate_limit';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status >= 400) return CONTENT_PATTERN.test(details) ? 'content_filtered' : 'invalid_request';
+  return 'unknown';
+}
+
+/** Classifies a non-2xx response into the matching ProviderError subclass */
+export function providerErrorFromResponse(
+  provider: string,
+  response: HttpErrorResponse,
+  hints: ErrorHints = {}
+): ProviderError {
+  const details = extractErrorDetails(response.text);
+  const code = codeForStatus(response.status, details);
+  const hint = hints[code];
+  const message = `${provider} error ${response.status}: ${details}${hint ? `. ${hint}` : ''}`;
+  return createProviderError(code, message, provider, {
+    status: response.status,
+    // Reset headers come with every response; they only explain a wait on 429s
+    retryAfterMs: parseRetryAfter(response.headers, response.status === 429),
+    details,
+  });
+}
+
+/**
+ * Wraps anything thrown on the way to a provider. ProviderErrors and cancellations
+ * pass through unchanged; everything else is treated as a network failure.
+ */
+export function toProviderError(error: unknown, provider: string, hints: ErrorHints = {}): unknown {
+  if (error instanceof ProviderError) return error;
+  if (error instanceof Error && error.name === 'AbortError') return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const hint = hints.network ? `. ${hints.network}` : '';
+  return new NetworkError(`${provider} request failed: ${message}${hint}`, provider, { cause: error });
+}
+
+/**
+ * Error codes that move a request on to the next provider unless a fallback link overrides them.
+ * Unclassified errors are bugs or bad input rather than provider trouble, so they stay final.
+ */
+export const DEFAULT_FALLBACK_ON: ProviderErrorCode[] = ['auth', 'rate_limit', 'quota', 'server', 'network', 'timeout', 'budget'];
+
+/** The ProviderError code for any error; errors from outside the adapters count as 'unknown' */
+export function errorCode(error: unknown): ProviderErrorCode {
+  return error instanceof ProviderError ? error.code : 'unknown';
+}
+
+/**
+ * Whether a gateway should retry a failed request on the next provider.
+ * Cancellations are always final; otherwise the error's code must be in `fallbackOn`.
+ * By default invalid requests and content-policy rejections are final, since
+ * another provider would most likely reject them too.
+ */
+export function shouldFallback(error: unknown, fallbackOn: ProviderErrorCode[] = DEFAULT_FALLBACK_ON): boolean {
+  if (error instanceof Error && error.name === 'AbortError') return false;
+  return fallbackOn.includes(errorCode(error));
+}
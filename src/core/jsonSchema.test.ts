@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { JSONSchema } from './Adapter';
+import { parseJsonOutput, validateAgainstSchema } from './jsonSchema';
+
+describe('parseJsonOutput', () => {
+  it('parses bare JSON', () => {
+    expect(parseJsonOutput(' {"a": 1} ')).toEqual({ a: 1 });
+  });
+
+  it('strips a ```json fence', () => {
+    expect(parseJsonOutput('```json\n{"a": [1, 2]}\n```')).toEqual({ a: [1, 2] });
+    expect(parseJsonOutput('```\n"text"\n```')).toBe('text');
+  });
+
+  it('throws a SyntaxError for invalid JSON', () => {
+    expect(() => parseJsonOutput('{a: 1}')).toThrow(SyntaxError);
+  });
+});
+
+describe('validateAgainstSchema', () => {
+  const person: JSONSchema = {
+    type: 'object',
+    required: ['name', 'age'],
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      age: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      role: { type: 'string', enum: ['admin', 'user'], nullable: true },
+    },
+  };
+
+  it('accepts a matching value', () => {
+    expect(validateAgainstSchema({ name: 'Ada', age: 36, tags: ['math'], role: null }, person)).toEqual([]);
+  });
+
+  it('reports missing required and unknown properties', () => {
+    expect(validateAgainstSchema({ name: 'Ada', extra: true }, person)).toEqual([
+      '$.age: is required',
+      '$.extra: is not allowed',
+    ]);
+  });
+
+  it('reports nested issues with their path', () => {
+    expect(validateAgainstSchema({ name: '', age: 1.5, tags: ['a', 2, 'c'] }, person)).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.age: expected integer, got number',
+      '$.tags: must contain at most 2 items',
+      '$.tags[1]: expected string, got number',
+    ]);
+  });
+
+  it('checks enums and skips null when nullable', () => {
+    expect(validateAgainstSchema('guest', { type: 'string', enum: ['admin', 'user'] })).toEqual([
+      '$: expected one of ["admin","user"], got "guest"',
+    ]);
+    expect(validateAgainstSchema(null, { type: 'string', nullable: true })).toEqual([]);
+  });
+
+  it('stops at a type mismatch', () => {
+    expect(validateAgainstSchema([], { type: 'object', required: ['a'] })).toEqual(['$: expected object, got array']);
+  });
+
+  it('checks number bounds', () => {
+    expect(validateAgainstSchema(11, { type: 'number', minimum: 0, maximum: 10 })).toEqual(['$: must be <= 10']);
+  });
+});
@@ -0,0 +1,101 @@
+// src/core/jsonSchema.ts
+import type { JSONSchema } from './Adapter';
+
+/**
+ * Parses model output as JSON, tolerating a surrounding ```json fence.
+ * Throws the native SyntaxError when the text is not valid JSON.
+ */
+export function parseJsonOutput(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return JSON.parse(fenced ? fenced[1] : trimmed);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Validates a value against the JSONSchema subset NNS supports.
+ * Returns a list of human-readable issues; an empty list means the value is valid.
+ */
+export function validateAgainstSchema(value: unknown, schema: JSONSchema, path = '$'): string[] {
+  const issues: string[] = [];
+
+  if (value === null && schema.nullable) {
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    issues.push(`${path}: expected one of ${JSON.stringify(schema.enum)}, got ${JSON.stringify(value)}`);
+  }
+
+  if (schema.type) {
+    const actual = typeOf(value);
+    const matches = schema.type === 'integer'
+      ? typeof value === 'number' && Number.isInteger(value)
+      : actual === schema.type;
+    if (!matches) {
+      issues.push(`${path}: expected ${schema.type}, got ${actual}`);
+      return issues;
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push(`${path}: must contain at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push(`${path}: must contain at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        issues.push(...validateAgainstSchema(item, schema.items as JSONSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        issues.push(`${path}.${key}: is required`);
+      }
+    }
+    const properties = schema.properties ?? {};
+    for (const key of Object.keys(properties)) {
+      if (key in record) {
+        issues.push(...validateAgainstSchema(record[key], properties[key], `${path}.${key}`));
+      }
+    }
+    if (schema.additionalProperties === false && schema.properties) {
+      for (const key of Object.keys(record)) {
+        if (!(key in schema.properties)) {
+          issues.push(`${path}.${key}: is not allowed`);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,32 @@
+// src/core/messages.ts
+import type { ChatMessage, LLMRequest } from './Adapter';
+import { InvalidRequestError } from './errors';
+
+/**
+ * Flattens `systemPrompt`, `messages` and `prompt` into one ordered conversation.
+ * Adapters map the result to their provider's native format.
+ * Throws InvalidRequestError for `provider` when there is nothing to answer.
+ */
+export function buildConversation(req: LLMRequest, provider: string): ChatMessage[] {
+  const conversation: ChatMessage[] = [];
+
+  if (req.systemPrompt) {
+    conversation.push({ role: 'system', content: req.systemPrompt });
+  }
+  if (req.messages) {
+    conversation.push(...req.messages);
+  }
+  if (req.prompt) {
+    conversation.push({ role: 'user', content: req.prompt });
+  }
+
+  if (!conversation.some(msg => msg.role !== 'system')) {
+    throw new InvalidRequestError('Request must contain a prompt or at least one user/assistant message.', provider);
+  }
+  return conversation;
+}
+
+/** Shortens message content for console logging */
+export function truncateForLog(text: string, max = 50): string {
+  return text.length > max ? text.slice(0, max) + '...' : text;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCost, estimateImageCost, findPrice, formatCost, mergePriceTables, type PriceTable } from './pricing';
+
+describe('findPrice', () => {
+  it('prefers the longest matching prefix', () => {
+    expect(findPrice('openai', 'gpt-4o-mini-2024-07-18')).toEqual({ input: 0.15, output: 0.6 });
+    expect(findPrice('openai', 'gpt-4o-2024-08-06')).toEqual({ input: 2.5, output: 10 });
+    expect(findPrice('openai', 'gpt-4-0613')).toEqual({ input: 30, output: 60 });
+  });
+
+  it('ignores the models/ prefix Gemini lists models with', () => {
+    expect(findPrice('gemini', 'models/gemini-1.5-flash-002')).toEqual({ input: 0.075, output: 0.3 });
+  });
+
+  it('prices every local model at zero', () => {
+    expect(findPrice('local', 'llama3.2')).toEqual({ input: 0, output: 0 });
+  });
+
+  it('returns undefined for unlisted models and providers', () => {
+    expect(findPrice('openai', 'davinci-002')).toBeUndefined();
+    expect(findPrice('openrouter', 'openai/gpt-4o')).toBeUndefined();
+  });
+});
+
+describe('estimateCost', () => {
+  it('prices prompt and completion tokens per million', () => {
+    expect(estimateCost('anthropic', 'claude-3-5-sonnet-20241022', { promptTokens: 1000, completionTokens: 500 })).toBeCloseTo(0.0105);
+  });
+
+  it('counts missing token kinds as zero', () => {
+    expect(estimateCost('openai', 'text-embedding-3-small', { promptTokens: 1_000_000 })).toBeCloseTo(0.02);
+  });
+
+  it('is undefined without usage or a price', () => {
+    expect(estimateCost('openai', 'gpt-4o', undefined)).toBeUndefined();
+    expect(estimateCost('openai', 'gpt-4o', {})).toBeUndefined();
+    expect(estimateCost('openai', 'unknown-model', { promptTokens: 10 })).toBeUndefined();
+  });
+
+  it('uses the given table', () => {
+    const table: PriceTable = { openrouter: { 'openai/gpt-4o': { input: 5, output: 15 } } };
+    expect(estimateCost('openrouter', 'openai/gpt-4o', { promptTokens: 200_000, completionTokens: 0 }, table)).toBeCloseTo(1);
+  });
+});
+
+describe('mergePriceTables', () => {
+  it('overrides single models and keeps the rest', () => {
+    const merged = mergePriceTables(
+      { openai: { 'gpt-4o': { input: 2.5, output: 10 }, 'gpt-4': { input: 30, output: 60 } } },
+      { openai: { 'gpt-4o': { input: 1, output: 2 } }, custom: { model: { input: 3, output: 4 } } }
+    );
+    expect(merged).toEqual({
+      openai: { 'gpt-4o': { input: 1, output: 2 }, 'gpt-4': { input: 30, output: 60 } },
+      custom: { model: { input: 3, output: 4 } },
+    });
+  });
+});
+
+describe('estimateImageCost', () => {
+  it('prices per image', () => {
+    expect(estimateImageCost('openai', 'dall-e-3', 2)).toBeCloseTo(0.08);
+    expect(estimateImageCost('stabilityai', 'sd3.5-large-turbo', 1)).toBeCloseTo(0.04);
+  });
+
+  it('is undefined for unpriced models', () => {
+    expect(estimateImageCost('openai', 'unknown', 1)).toBeUndefined();
+  });
+});
+
+describe('formatCost', () => {
+  it('shows more digits for sub-cent costs', () => {
+    expect(formatCost(undefined)).toBe('n/a');
+    expect(formatCost(0)).toBe('$0');
+    expect(formatCost(0.00042)).toBe('$0.00042');
+    expect(formatCost(1.5)).toBe('$1.5000');
+  });
+});
@@ -0,0 +1,140 @@
+// src/core/pricing.ts
+import type { TokenUsage } from './Adapter';
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Provider key -> model name or name prefix -> price */
+export type PriceTable = Record<string, Record<string, ModelPrice>>;
+
+/** List prices at the time of writing; a longer prefix wins, so `gpt-4o-mini` beats `gpt-4o` */
+export const DEFAULT_PRICES: PriceTable = {
+  openai: {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o1-mini': { input: 1.1, output: 4.4 },
+    'o1': { input: 15, output: 60 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'o4-mini': { input: 1.1, output: 4.4 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+    'text-embedding-ada-002': { input: 0.1, output: 0 },
+  },
+  anthropic: {
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-sonnet': { input: 3, output: 15 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-7-sonnet': { input: 3, output: 15 },
+    'claude-sonnet-4': { input: 3, output: 15 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-opus-4': { input: 15, output: 75 },
+  },
+  gemini: {
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-pro': { input: 0.5, output: 1.5 },
+  },
+  groq: {
+    'llama-3.1-8b': { input: 0.05, output: 0.08 },
+    'llama-3.3-70b': { input: 0.59, output: 0.79 },
+    'llama3-8b': { input: 0.05, output: 0.08 },
+    'llama3-70b': { input: 0.59, output: 0.79 },
+    'mixtral-8x7b': { input: 0.24, output: 0.24 },
+    'gemma2-9b': { input: 0.2, output: 0.2 },
+  },
+  grok: {
+    'grok-beta': { input: 5, output: 15 },
+    'grok-2': { input: 2, output: 10 },
+    'grok-3-mini': { input: 0.3, output: 0.5 },
+    'grok-3': { input: 3, output: 15 },
+    'grok-4': { input: 3, output: 15 },
+  },
+  local: {
+    '': { input: 0, output: 0 },
+  },
+};
+
+/** USD per generated image at the default size and quality; matched like DEFAULT_PRICES */
+export const DEFAULT_IMAGE_PRICES: Record<string, Record<string, number>> = {
+  openai: {
+    'dall-e-2': 0.02,
+    'dall-e-3': 0.04,
+    'gpt-image-1': 0.042,
+  },
+  stabilityai: {
+    'stable-image-core': 0.03,
+    'stable-image-ultra': 0.08,
+    'sd3.5-large': 0.065,
+    'sd3.5-large-turbo': 0.04,
+    'sd3.5-medium': 0.035,
+  },
+  grok: {
+    'grok-2-image': 0.07,
+  },
+};
+
+/** `overrides` on top of `base`, per model */
+export function mergePriceTables(base: PriceTable, overrides: PriceTable): PriceTable {
+  const merged: PriceTable = {};
+  [base, overrides].forEach(table => {
+    Object.keys(table).forEach(provider => {
+      merged[provider] = { ...merged[provider], ...table[provider] };
+    });
+  });
+  return merged;
+}
+
+/** Entry for `model` by exact name or longest matching prefix */
+function matchModel<T>(prices: Record<string, T> | undefined, model: string): T | undefined {
+  if (!prices) return undefined;
+  // Gemini lists models as `models/<name>`
+  const name = model.replace(/^models\//, '');
+  if (prices[name] !== undefined) return prices[name];
+
+  const prefix = Object.keys(prices)
+    .filter(key => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix !== undefined ? prices[prefix] : undefined;
+}
+
+/** Price for a model by exact name or longest matching prefix; undefined when the table does not list it */
+export function findPrice(provider: string, model: string, table: PriceTable = DEFAULT_PRICES): ModelPrice | undefined {
+  return matchModel(table[provider], model);
+}
+
+/** Estimated cost in USD; undefined when the price or the token counts are unknown */
+export function estimateCost(
+  provider: string,
+  model: string,
+  usage: TokenUsage | undefined,
+  table: PriceTable = DEFAULT_PRICES
+): number | undefined {
+  const price = findPrice(provider, model, table);
+  if (!price || !usage || (usage.promptTokens === undefined && usage.completionTokens === undefined)) return undefined;
+  return ((usage.promptTokens ?? 0) * price.input + (usage.completionTokens ?? 0) * price.output) / 1_000_000;
+}
+
+/** Estimated cost in USD of `images` images; undefined when the model has no per-image price */
+export function estimateImageCost(provider: string, model: string, images: number): number | undefined {
+  const price = matchModel(DEFAULT_IMAGE_PRICES[provider], model);
+  return price !== undefined ? price * images : undefined;
+}
+
+export function formatCost(cost: number | undefined): string {
+  if (cost === undefined) return 'n/a';
+  if (cost === 0) return '$0';
+  return cost < 0.01 ? `$${cost.toFixed(5)}` : `$${cost.toFixed(4)}`;
+}
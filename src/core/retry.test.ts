@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AuthenticationError, RateLimitError, ServerError } from './errors';
+import { getRetryDelay, resolveRetryPolicy, withRetry, type RetryPolicy } from './retry';
+
+const policy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 100, maxDelayMs: 1000, multiplier: 2, jitter: false };
+
+describe('resolveRetryPolicy', () => {
+  it('fills missing fields with the defaults', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 5 })).toEqual({
+      maxAttempts: 5,
+      initialDelayMs: 1000,
+      maxDelayMs: 20000,
+      multiplier: 2,
+      jitter: true,
+    });
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('backs off exponentially up to the cap', () => {
+    const error = new ServerError('', 'openai');
+    const long = { ...policy, maxAttempts: 10 };
+    expect([1, 2, 3, 4, 5].map(attempt => getRetryDelay(error, attempt, long))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('stops after the last attempt', () => {
+    expect(getRetryDelay(new ServerError('', 'openai'), 3, policy)).toBeUndefined();
+  });
+
+  it('does not retry permanent or unclassified errors', () => {
+    expect(getRetryDelay(new AuthenticationError('', 'openai'), 1, policy)).toBeUndefined();
+    expect(getRetryDelay(new Error('bug'), 1, policy)).toBeUndefined();
+  });
+
+  it('waits as long as the provider asks, unless that exceeds the cap', () => {
+    expect(getRetryDelay(new RateLimitError('', 'groq', { retryAfterMs: 700 }), 1, policy)).toBe(700);
+    expect(getRetryDelay(new RateLimitError('', 'groq', { retryAfterMs: 5000 }), 1, policy)).toBeUndefined();
+  });
+
+  it('keeps jittered delays between half and the full delay', () => {
+    const delay = getRetryDelay(new ServerError('', 'openai'), 2, { ...policy, jitter: true }) as number;
+    expect(delay).toBeGreaterThanOrEqual(100);
+    expect(delay).toBeLessThanOrEqual(200);
+  });
+});
+
+describe('withRetry', () => {
+  const quick: RetryPolicy = { ...policy, initialDelayMs: 0 };
+
+  beforeEach(() => {
+    vi.stubGlobal('window', globalThis);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('retries transient failures until one succeeds', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new ServerError('', 'openai'))
+      .mockRejectedValueOnce(new RateLimitError('', 'openai'))
+      .mockResolvedValue('ok');
+    await expect(withRetry(fn, quick)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after maxAttempts with the last error', async () => {
+    const error = new ServerError('still down', 'openai');
+    const fn = vi.fn().mockRejectedValue(error);
+    await expect(withRetry(fn, quick)).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows permanent failures right away', async () => {
+    const fn = vi.fn().mockRejectedValue(new AuthenticationError('', 'openai'));
+    await expect(withRetry(fn, quick)).rejects.toBeInstanceOf(AuthenticationError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when the signal aborts', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(new ServerError('', 'openai'));
+    const pending = withRetry(fn, { ...policy, initialDelayMs: 60000, maxDelayMs: 60000 }, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
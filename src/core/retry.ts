@@ -0,0 +1,62 @@
+// src/core/retry.ts
+import { ProviderError } from './errors';
+import { sleep } from '../utils/abort';
+
+export interface RetryPolicy {
+  /** Total tries per provider, including the first one */
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Growth factor between consecutive delays */
+  multiplier: number;
+  /** Randomize delays so parallel callers don't retry in lockstep */
+  jitter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 20000,
+  multiplier: 2,
+  jitter: true,
+};
+
+/** Fills the gaps in a partially saved policy with the defaults */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * Delay before the next attempt, or undefined to stop retrying. A provider-supplied
+ * wait longer than `maxDelayMs` ends the retries so the caller can fall back instead.
+ */
+export function getRetryDelay(error: unknown, attempt: number, policy: RetryPolicy): number | undefined {
+  if (!(error instanceof ProviderError) || !error.retryable) return undefined;
+  if (attempt >= policy.maxAttempts) return undefined;
+
+  if (error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= policy.maxDelayMs ? error.retryAfterMs : undefined;
+  }
+  const delay = Math.min(policy.initialDelayMs * Math.pow(policy.multiplier, attempt - 1), policy.maxDelayMs);
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/** Runs `fn`, retrying transient provider failures (rate limits, 5xx, network, timeouts) */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  policy: RetryPolicy,
+  options: { signal?: AbortSignal; label?: string } = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      const delay = getRetryDelay(err, attempt, policy);
+      if (delay === undefined) throw err;
+      console.warn(
+        `[Retry] ${options.label ?? 'Request'} failed (${err.code}), attempt ${attempt}/${policy.maxAttempts}. Retrying in ${Math.round(delay)}ms.`
+      );
+      await sleep(delay, options.signal);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// src/core/router.ts
+import type { LLMRequest } from './Adapter';
+import type { FallbackLink } from './Gateway';
+
+/** Capabilities a request can require; `json` and `tools` are also detected from the request itself */
+export type RouteCapability = 'json' | 'tools' | 'vision';
+
+export interface RouteMatch {
+  minInputTokens?: number;
+  maxInputTokens?: number;
+  /** Matches when the request's `tag` is one of these */
+  tags?: string[];
+  /** Matches when the request requires every one of these */
+  requires?: RouteCapability[];
+  /** Matches when the request's `pluginId` is one of these */
+  pluginIds?: string[];
+}
+
+export interface RoutingRule {
+  name: string;
+  /** Rules are enabled unless set to false */
+  enabled?: boolean;
+  /** Empty conditions match every request */
+  match: RouteMatch;
+  provider: string;
+  /** The provider's configured model when omitted */
+  model?: string;
+}
+
+export interface RuleEvaluation {
+  rule: string;
+  matched: boolean;
+  /** Why the rule matched or the first condition that failed */
+  reason: string;
+}
+
+/** Explains how TextGateway picked the chain for a request */
+export interface RouteTrace {
+  /** Name of the rule that matched; undefined when the category chain was used */
+  rule?: string;
+  estimatedInputTokens: number;
+  tag?: string;
+  pluginId?: string;
+  required: RouteCapability[];
+  evaluations: RuleEvaluation[];
+  /** The chain the request was sent down */
+  chain: FallbackLink[];
+  summary: string;
+}
+
+/** Rough token count (about four characters per token); good enough for routing thresholds */
+export function estimateInputTokens(request: LLMRequest): number {
+  let chars = (request.systemPrompt?.length ?? 0) + (request.prompt?.length ?? 0);
+  request.messages?.forEach(message => {
+    chars += message.content.length;
+  });
+  return Math.ceil(chars / 4);
+}
+
+export function requiredCapabilities(request: LLMRequest): RouteCapability[] {
+  const required = new Set<RouteCapability>(request.requires ?? []);
+  if (request.responseFormat?.type === 'json') required.add('json');
+  if (request.tools?.length) required.add('tools');
+  return Array.from(required);
+}
+
+function evaluate(rule: RoutingRule, tokens: number, required: RouteCapability[], request: LLMRequest): RuleEvaluation {
+  const { match } = rule;
+  const fail = (reason: string): RuleEvaluation => ({ rule: rule.name, matched: false, reason });
+
+  if (match.minInputTokens !== undefined && tokens < match.minInputTokens) {
+    return fail(`~${tokens} input tokens is below the minimum of ${match.minInputTokens}`);
+  }
+  if (match.maxInputTokens !== undefined && tokens > match.maxInputTokens) {
+    return fail(`~${tokens} input tokens is above the maximum of ${match.maxInputTokens}`);
+  }
+  if (match.tags?.length && !(request.tag && match.tags.includes(request.tag))) {
+    return fail(`tag '${request.tag ?? '(none)'}' is not one of ${match.tags.join(', ')}`);
+  }
+  const missing = (match.requires ?? []).filter(capability => !required.includes(capability));
+  if (missing.length > 0) {
+    return fail(`request does not require ${missing.join(', ')}`);
+  }
+  if (match.pluginIds?.length && !(request.pluginId && match.pluginIds.includes(request.pluginId))) {
+    return fail(`plugin '${request.pluginId ?? '(none)'}' is not one of ${match.pluginIds.join(', ')}`);
+  }
+
+  const met: string[] = [];
+  if (match.minInputTokens !== undefined || match.maxInputTokens !== undefined) {
+    met.push(`~${tokens} input tokens within ${match.minInputTokens ?? 0}-${match.maxInputTokens ?? '∞'}`);
+  }
+  if (match.tags?.length) met.push(`tag '${request.tag}'`);
+  if (match.requires?.length) met.push(`requires ${match.requires.join(', ')}`);
+  if (match.pluginIds?.length) met.push(`plugin '${request.pluginId}'`);
+  return { rule: rule.name, matched: true, reason: met.length ? met.join('; ') : 'rule has no conditions' };
+}
+
+/**
+ * Picks the chain for a request: the first enabled rule that matches puts its
+ * provider and model in front of the category chain, which stays as the
+ * fallback. Requests that name a model skip routing.
+ */
+export function selectRoute(request: LLMRequest, rules: RoutingRule[], defaultChain: FallbackLink[]): RouteTrace {
+  const estimatedInputTokens = estimateInputTokens(request);
+  const required = requiredCapabilities(request);
+  const base = { estimatedInputTokens, tag: request.tag, pluginId: request.pluginId, required };
+
+  if (request.model) {
+    return {
+      ...base,
+      evaluations: [],
+      chain: defaultChain,
+      summary: `Request names model '${request.model}'; routing rules skipped.`,
+    };
+  }
+
+  const evaluations: RuleEvaluation[] = [];
+  for (const rule of rules) {
+    if (rule.enabled === false || !rule.provider) continue;
+    const evaluation = evaluate(rule, estimatedInputTokens, required, request);
+    evaluations.push(evaluation);
+    if (evaluation.matched) {
+      const target = `${rule.provider}${rule.model ? `/${rule.model}` : ''}`;
+      return {
+        ...base,
+        rule: rule.name,
+        evaluations,
+        chain: [{ provider: rule.provider, model: rule.model }, ...defaultChain],
+        summary: `Rule '${rule.name}' matched (${evaluation.reason}); routed to ${target}.`,
+      };
+    }
+  }
+
+  return {
+    ...base,
+    evaluations,
+    chain: defaultChain,
+    summary: rules.length ? 'No routing rule matched; using the category chain.' : 'No routing rules; using the category chain.',
+  };
+}
@@ -0,0 +1,45 @@
+// src/core/sampling.ts
+import type { LLMRequest } from './Adapter';
+
+export type SamplingParameter = 'topP' | 'topK' | 'stop' | 'seed' | 'presencePenalty' | 'frequencyPenalty';
+
+export type SamplingOptions = Pick<LLMRequest, SamplingParameter>;
+
+export const SAMPLING_PARAMETERS: SamplingParameter[] = ['topP', 'topK', 'stop', 'seed', 'presencePenalty', 'frequencyPenalty'];
+
+/** Sampling parameters each provider's API accepts; anything else is dropped with a warning */
+export const SAMPLING_SUPPORT: Record<string, SamplingParameter[]> = {
+  openai: ['topP', 'stop', 'seed', 'presencePenalty', 'frequencyPenalty'],
+  anthropic: ['topP', 'topK', 'stop'],
+  gemini: ['topP', 'topK', 'stop', 'seed', 'presencePenalty', 'frequencyPenalty'],
+  groq: ['topP', 'stop', 'seed', 'presencePenalty', 'frequencyPenalty'],
+  grok: ['topP', 'stop', 'seed', 'presencePenalty', 'frequencyPenalty'],
+  openrouter: ['topP', 'topK', 'stop', 'seed', 'presencePenalty', 'frequencyPenalty'],
+  local: ['topP', 'topK', 'stop', 'seed', 'presencePenalty', 'frequencyPenalty'],
+};
+
+/**
+ * Returns the sampling parameters set on `req` that `provider` supports.
+ * Unsupported ones are left out so a request still succeeds after a fallback
+ * to a provider with fewer options.
+ */
+export function pickSampling(req: LLMRequest, provider: string, logPrefix: string): SamplingOptions {
+  const supported = SAMPLING_SUPPORT[provider] ?? [];
+  const picked: SamplingOptions = {};
+  const dropped: SamplingParameter[] = [];
+
+  for (const param of SAMPLING_PARAMETERS) {
+    const value = req[param];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+    if (supported.includes(param)) {
+      (picked as Record<string, unknown>)[param] = value;
+    } else {
+      dropped.push(param);
+    }
+  }
+
+  if (dropped.length > 0) {
+    console.warn(`[${logPrefix}] ${provider} does not support ${dropped.join(', ')}; ignoring.`);
+  }
+  return picked;
+}
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler, type ScheduleTicket } from './scheduler';
+
+/** Lets pending promise callbacks run */
+const settle = () => vi.advanceTimersByTimeAsync(0);
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('starts at most maxConcurrent requests at once', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.configure({ test: { maxConcurrent: 1 } });
+    const first = await scheduler.acquire('test');
+    let second: ScheduleTicket | undefined;
+    scheduler.acquire('test').then(ticket => (second = ticket));
+    await settle();
+    expect(second).toBeUndefined();
+    expect(scheduler.stats()).toEqual([expect.objectContaining({ provider: 'test', active: 1, queued: 1 })]);
+
+    vi.advanceTimersByTime(500);
+    first.release();
+    await settle();
+    expect(second?.waitedMs).toBe(500);
+  });
+
+  it('starts queued requests by priority, then in arrival order', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.configure({ test: { maxConcurrent: 1 } });
+    const blocker = await scheduler.acquire('test');
+    const started: string[] = [];
+    const queue = (name: string, priority: 'high' | 'normal' | 'low') =>
+      scheduler.acquire('test', { priority }).then(ticket => {
+        started.push(name);
+        ticket.release();
+      });
+    const all = Promise.all([queue('low', 'low'), queue('normal-1', 'normal'), queue('high', 'high'), queue('normal-2', 'normal')]);
+    blocker.release();
+    await all;
+    expect(started).toEqual(['high', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('holds requests past requestsPerMinute until the window moves on', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.configure({ test: { requestsPerMinute: 2 } });
+    (await scheduler.acquire('test')).release();
+    vi.advanceTimersByTime(10_000);
+    (await scheduler.acquire('test')).release();
+
+    let third: ScheduleTicket | undefined;
+    scheduler.acquire('test').then(ticket => (third = ticket));
+    await vi.advanceTimersByTimeAsync(49_000);
+    expect(third).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(third?.waitedMs).toBe(50_000);
+  });
+
+  it('counts the tokens actually used against tokensPerMinute', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.configure({ test: { tokensPerMinute: 1000 } });
+    const first = await scheduler.acquire('test', { estimatedTokens: 900 });
+    // The estimate was high; only 100 tokens were used
+    first.release(100);
+
+    let second: ScheduleTicket | undefined;
+    scheduler.acquire('test', { estimatedTokens: 800 }).then(ticket => (second = ticket));
+    await settle();
+    expect(second).toBeDefined();
+
+    let third: ScheduleTicket | undefined;
+    scheduler.acquire('test', { estimatedTokens: 500 }).then(ticket => (third = ticket));
+    await settle();
+    expect(third).toBeUndefined();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(third).toBeDefined();
+  });
+
+  it('removes a cancelled request from the queue', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.configure({ test: { maxConcurrent: 1 } });
+    await scheduler.acquire('test');
+    const controller = new AbortController();
+    const pending = scheduler.acquire('test', { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scheduler.stats()[0]).toMatchObject({ active: 1, queued: 0 });
+  });
+
+  it('releases the slot when a run fails', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.configure({ test: { maxConcurrent: 1 } });
+    await expect(scheduler.run('test', {}, async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+    await expect(scheduler.run('test', {}, async () => 'ok')).resolves.toMatchObject({ value: 'ok' });
+  });
+
+  it('keeps providers independent', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.configure({ a: { maxConcurrent: 1 } });
+    await scheduler.acquire('a');
+    await expect(scheduler.acquire('b')).resolves.toBeDefined();
+  });
+});
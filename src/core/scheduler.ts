@@ -0,0 +1,252 @@
+// src/core/scheduler.ts
+import { createAbortError, throwIfAborted } from '../utils/abort';
+
+/** Per-provider limits; a missing field means no limit */
+export interface ProviderLimits {
+  maxConcurrent?: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/** Conservative defaults for providers whose entry-level tiers throttle hard; others are only capped on concurrency */
+export const DEFAULT_PROVIDER_LIMITS: Record<string, ProviderLimits> = {
+  openai: { maxConcurrent: 8 },
+  anthropic: { maxConcurrent: 4, requestsPerMinute: 50 },
+  groq: { maxConcurrent: 4, requestsPerMinute: 30, tokensPerMinute: 6000 },
+  gemini: { maxConcurrent: 4, requestsPerMinute: 15 },
+  openrouter: { maxConcurrent: 8 },
+  grok: { maxConcurrent: 4 },
+  local: { maxConcurrent: 1 },
+};
+
+/** Queued requests start highest priority first, in arrival order within a priority */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const WINDOW_MS = 60 * 1000;
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  /** Expected input plus output tokens, counted against `tokensPerMinute` */
+  estimatedTokens?: number;
+  /** Removes the request from the queue while it is still waiting */
+  signal?: AbortSignal;
+}
+
+/** A started request; call `release` exactly once when it finishes */
+export interface ScheduleTicket {
+  waitedMs: number;
+  /** Pass the tokens actually used to correct the estimate in the per-minute budget */
+  release(usedTokens?: number): void;
+}
+
+export interface ProviderQueueStats {
+  provider: string;
+  active: number;
+  queued: number;
+  /** How long the oldest queued request has been waiting */
+  oldestWaitMs: number;
+  /** Wait of the most recently started request */
+  lastWaitMs: number;
+}
+
+interface Waiter {
+  rank: number;
+  tokens: number;
+  enqueuedAt: number;
+  start: (waitedMs: number) => void;
+}
+
+interface UsageRecord {
+  at: number;
+  tokens: number;
+}
+
+class ProviderQueue {
+  active = 0;
+  lastWaitMs = 0;
+  waiting: Waiter[] = [];
+  usage: UsageRecord[] = [];
+  timer?: number;
+}
+
+/**
+ * Holds requests back until the provider has room under its concurrency,
+ * requests-per-minute and tokens-per-minute limits. Shared by every gateway so
+ * limits apply across text, image and embedding calls to the same provider.
+ */
+export class RequestScheduler {
+  private limits: Record<string, ProviderLimits> = {};
+  private queues = new Map<string, ProviderQueue>();
+  private listeners: (() => void)[] = [];
+
+  /** `limits` is read on every request, so edits to the object apply immediately */
+  configure(limits: Record<string, ProviderLimits>): void {
+    this.limits = limits;
+    this.queues.forEach((_, provider) => this.pump(provider));
+  }
+
+  /** Resolves once the request may start; rejects with an AbortError if `signal` aborts first */
+  acquire(provider: string, options: ScheduleOptions = {}): Promise<ScheduleTicket> {
+    throwIfAborted(options.signal);
+    const queue = this.queueFor(provider);
+    const tokens = options.estimatedTokens ?? 0;
+
+    return new Promise<ScheduleTicket>((resolve, reject) => {
+      const { signal } = options;
+      const onAbort = () => {
+        queue.waiting = queue.waiting.filter(w => w !== waiter);
+        reject(createAbortError());
+        this.notify();
+        this.pump(provider);
+      };
+      const waiter: Waiter = {
+        rank: PRIORITY_RANK[options.priority ?? 'normal'],
+        tokens,
+        enqueuedAt: Date.now(),
+        start: waitedMs => {
+          signal?.removeEventListener('abort', onAbort);
+          const record: UsageRecord = { at: Date.now(), tokens };
+          queue.usage.push(record);
+          resolve({ waitedMs, release: this.releaser(provider, record) });
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const index = queue.waiting.findIndex(w => w.rank > waiter.rank);
+      queue.waiting.splice(index === -1 ? queue.waiting.length : index, 0, waiter);
+      this.pump(provider);
+      if (queue.waiting.includes(waiter)) {
+        console.log(`[RequestScheduler] ${provider}: ${queue.active} active, ${queue.waiting.length} queued`);
+      }
+      this.notify();
+    });
+  }
+
+  /** Runs `task` once the provider has room and releases the slot when it settles */
+  async run<T>(
+    provider: string,
+    options: ScheduleOptions,
+    task: () => Promise<T>,
+    usedTokens?: (value: T) => number | undefined
+  ): Promise<{ value: T; waitedMs: number }> {
+    const ticket = await this.acquire(provider, options);
+    try {
+      const value = await task();
+      ticket.release(usedTokens?.(value));
+      return { value, waitedMs: ticket.waitedMs };
+    } catch (error) {
+      ticket.release();
+      throw error;
+    }
+  }
+
+  stats(): ProviderQueueStats[] {
+    const now = Date.now();
+    return Array.from(this.queues.entries()).map(([provider, queue]) => ({
+      provider,
+      active: queue.active,
+      queued: queue.waiting.length,
+      oldestWaitMs: queue.waiting.reduce((max, w) => Math.max(max, now - w.enqueuedAt), 0),
+      lastWaitMs: queue.lastWaitMs,
+    }));
+  }
+
+  /** Called whenever a request is queued, started or finished; returns a function that removes the listener */
+  onChange(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private queueFor(provider: string): ProviderQueue {
+    let queue = this.queues.get(provider);
+    if (!queue) {
+      queue = new ProviderQueue();
+      this.queues.set(provider, queue);
+    }
+    return queue;
+  }
+
+  private releaser(provider: string, record: UsageRecord) {
+    let released = false;
+    return (usedTokens?: number) => {
+      if (released) return;
+      released = true;
+      const queue = this.queueFor(provider);
+      queue.active--;
+      if (usedTokens !== undefined) record.tokens = usedTokens;
+      this.pump(provider);
+      this.notify();
+    };
+  }
+
+  /** Starts queued requests in order until the head of the queue hits a limit */
+  private pump(provider: string) {
+    const queue = this.queueFor(provider);
+    const limits = this.limits[provider] ?? {};
+    let started = false;
+
+    while (queue.waiting.length > 0) {
+      const now = Date.now();
+      queue.usage = queue.usage.filter(record => now - record.at < WINDOW_MS);
+      const head = queue.waiting[0];
+
+      if (limits.maxConcurrent && queue.active >= limits.maxConcurrent) break;
+      const wait = this.rateWait(queue, limits, head.tokens, now);
+      if (wait > 0) {
+        this.wakeAfter(provider, queue, wait);
+        break;
+      }
+
+      queue.waiting.shift();
+      queue.active++;
+      queue.lastWaitMs = now - head.enqueuedAt;
+      head.start(queue.lastWaitMs);
+      started = true;
+    }
+
+    if (started) this.notify();
+  }
+
+  /** Milliseconds until the per-minute windows have room for a request of `tokens` */
+  private rateWait(queue: ProviderQueue, limits: ProviderLimits, tokens: number, now: number): number {
+    let wait = 0;
+    const { usage } = queue;
+    if (limits.requestsPerMinute && usage.length >= limits.requestsPerMinute) {
+      wait = usage[usage.length - limits.requestsPerMinute].at + WINDOW_MS - now;
+    }
+    if (limits.tokensPerMinute && usage.length > 0) {
+      // Drop the oldest records until the request fits; an oversized request still runs once the window is empty
+      let used = usage.reduce((sum, record) => sum + record.tokens, 0);
+      for (let i = 0; i < usage.length && used + tokens > limits.tokensPerMinute; i++) {
+        used -= usage[i].tokens;
+        wait = Math.max(wait, usage[i].at + WINDOW_MS - now);
+      }
+    }
+    return wait;
+  }
+
+  private wakeAfter(provider: string, queue: ProviderQueue, ms: number) {
+    if (queue.timer !== undefined) return;
+    queue.timer = window.setTimeout(() => {
+      queue.timer = undefined;
+      this.pump(provider);
+    }, ms);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[RequestScheduler] Change listener failed:', error);
+      }
+    });
+  }
+}
+
+/** Shared by every gateway; the plugin configures the limits on load */
+export const requestScheduler = new RequestScheduler();
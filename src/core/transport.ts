@@ -0,0 +1,105 @@
+// src/core/transport.ts
+// The one place that touches the network. Adapters talk to providers through an
+// HttpClient, which sends everything through the active Transport.
+import { requestUrl } from 'obsidian';
+import { withAbort } from '../utils/abort';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface TransportRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: string | ArrayBuffer;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  headers: Record<string, string>;
+  /** Body decoded as UTF-8 */
+  text: string;
+  arrayBuffer: ArrayBuffer;
+}
+
+export interface Transport {
+  /** Sends a request and buffers the whole response. Non-2xx statuses resolve, they do not throw. */
+  request(request: TransportRequest): Promise<TransportResponse>;
+  /** Sends a request and resolves once headers arrive, so the body can be read incrementally */
+  stream(request: TransportRequest): Promise<Response>;
+}
+
+/**
+ * Default transport. Buffered calls use Obsidian's requestUrl (no CORS limits);
+ * streams use fetch because requestUrl cannot expose a partial body.
+ */
+export class ObsidianTransport implements Transport {
+  async request(request: TransportRequest): Promise<TransportResponse> {
+    const response = await withAbort(requestUrl({
+      url: request.url,
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      throw: false,
+    }), request.signal);
+
+    // requestUrl decodes lazily; keep it that way for binary downloads
+    return {
+      status: response.status,
+      headers: response.headers,
+      get text() { return response.text; },
+      get arrayBuffer() { return response.arrayBuffer; },
+    };
+  }
+
+  stream(request: TransportRequest): Promise<Response> {
+    return fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+  }
+}
+
+/** Sends every request to a different URL, e.g. a local debugging proxy */
+export class RewritingTransport implements Transport {
+  constructor(
+    private inner: Transport,
+    private rewrite: (url: string) => string
+  ) {}
+
+  request(request: TransportRequest): Promise<TransportResponse> {
+    return this.inner.request({ ...request, url: this.rewrite(request.url) });
+  }
+
+  stream(request: TransportRequest): Promise<Response> {
+    return this.inner.stream({ ...request, url: this.rewrite(request.url) });
+  }
+}
+
+/**
+ * Routes all traffic through `proxyUrl` as `<proxyUrl>/<original URL>`, the form
+ * prefix-style debugging proxies expect. An empty URL restores direct requests.
+ */
+export function useProxy(proxyUrl: string): void {
+  const base = proxyUrl.trim().replace(/\/+$/, '');
+  setTransport(base ? new RewritingTransport(new ObsidianTransport(), url => `${base}/${url}`) : undefined);
+}
+
+/** Hides API keys passed as query parameters (Gemini) */
+export function redactUrl(url: string): string {
+  return url.replace(/([?&]key=)[^&]+/, '$1[REDACTED]');
+}
+
+let activeTransport: Transport = new ObsidianTransport();
+
+export function getTransport(): Transport {
+  return activeTransport;
+}
+
+/** Replaces the transport for all adapters; pass nothing to restore the default */
+export function setTransport(transport?: Transport): void {
+  activeTransport = transport ?? new ObsidianTransport();
+  console.log(`[Transport] Using ${activeTransport.constructor.name}`);
+}
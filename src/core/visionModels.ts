@@ -0,0 +1,80 @@
+// src/core/visionModels.ts
+import { InvalidRequestError } from './errors';
+
+/**
+ * Model names that accept image input, per provider. Model lists from the
+ * providers do not say which models see images, so this is kept by hand;
+ * Ollama names are matched without their `:tag`.
+ */
+const VISION_MODEL_PATTERNS: Record<string, RegExp[]> = {
+  openai: [
+    /^(chatgpt-)?gpt-4o(?!.*(audio|realtime|search|transcribe|tts))/,
+    /^gpt-4\.1/,
+    /^gpt-4-turbo(?!-preview)/,
+    /^gpt-4-vision/,
+    /^gpt-5/,
+    /^o1(?!-mini|-preview)/,
+    /^o3(?!-mini)/,
+    /^o4-mini/,
+  ],
+  anthropic: [
+    /^claude-3-(opus|sonnet|haiku)/,
+    /^claude-3-[57]-sonnet/,
+    /^claude-(opus|sonnet|haiku)-4/,
+  ],
+  gemini: [
+    /^gemini-(1\.5|2|3)/,
+    /^gemini-pro-vision/,
+    /^gemini-exp/,
+  ],
+  grok: [
+    /^grok-(2-)?vision/,
+    /^grok-4/,
+  ],
+  local: [
+    /^(bak)?llava/,
+    /^llama3\.2-vision/,
+    /^llama4/,
+    /^moondream/,
+    /^minicpm-v/,
+    /^qwen2\.5vl/,
+    /^gemma3/,
+    /^granite3\.2-vision/,
+  ],
+};
+
+/** Used when neither the request nor settings name a vision-capable model */
+export const DEFAULT_VISION_MODELS: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-sonnet-4-20250514',
+  gemini: 'gemini-2.0-flash',
+  grok: 'grok-2-vision-1212',
+  local: 'llava',
+};
+
+/** Providers without an entry (e.g. registered by other plugins) are trusted to know their models */
+export function isVisionModel(provider: string, model: string): boolean {
+  const patterns = VISION_MODEL_PATTERNS[provider];
+  if (!patterns) return true;
+  const name = model.replace(/^models\//, '').split(':')[0];
+  return patterns.some(pattern => pattern.test(name));
+}
+
+export function filterVisionModels(provider: string, models: string[]): string[] {
+  return models.filter(model => isVisionModel(provider, model));
+}
+
+/**
+ * A requested model must see images; the configured model is used when it
+ * does, otherwise the provider's default vision model.
+ */
+export function resolveVisionModel(provider: string, requested: string | undefined, configured: string | undefined): string {
+  if (requested) {
+    if (!isVisionModel(provider, requested)) {
+      throw new InvalidRequestError(`${provider} model '${requested}' does not accept images.`, provider);
+    }
+    return requested;
+  }
+  if (configured && isVisionModel(provider, configured)) return configured;
+  return DEFAULT_VISION_MODELS[provider] ?? configured ?? '';
+}
@@ -0,0 +1,67 @@
+// src/gateways/EmbeddingGateway.ts
+import type { SecretsManager } from '../utils/secrets';
+import type { MyPluginSettings } from '../settings/types';
+import type { EmbeddingAdapter, EmbeddingRequest, EmbeddingResponse } from '../core/Adapter';
+import { buildAdapters, callWithFallback, modelForLink, type FallbackLink } from '../core/Gateway';
+import { requestScheduler } from '../core/scheduler';
+import { spendTracker } from '../core/SpendTracker';
+import type { ProviderRegistry } from '../core/ProviderRegistry';
+import { resolveRetryPolicy, type RetryPolicy } from '../core/retry';
+import { providerRegistry } from '../adapters/providers';
+
+export class EmbeddingGateway {
+  private adapters: Record<string, EmbeddingAdapter> = {};
+
+  private constructor(
+    private chain: FallbackLink[],
+    private retryPolicy: RetryPolicy
+  ) {}
+
+  /**
+   * Provider model settings hold chat models, so embedding adapters use their
+   * own default embedding model unless the request names one.
+   */
+  static async create(
+    secrets: SecretsManager,
+    settings: MyPluginSettings,
+    registry: ProviderRegistry = providerRegistry
+  ): Promise<EmbeddingGateway> {
+    const gw = new EmbeddingGateway(
+      settings.categories.embedding.chain,
+      resolveRetryPolicy(settings.categories.embedding.retry)
+    );
+
+    gw.adapters = await buildAdapters('EmbeddingGateway', 'embedding', registry, secrets, settings);
+    return gw;
+  }
+
+  /** Providers with a usable adapter */
+  get providers(): string[] {
+    return Object.keys(this.adapters);
+  }
+
+  /** Vectors from different models are not comparable; after a fallback, check `model` on the response */
+  async embed(request: EmbeddingRequest): Promise<EmbeddingResponse> {
+    if (request.input.length === 0) {
+      return { embeddings: [], model: request.model ?? '' };
+    }
+
+    const { value, path } = await callWithFallback({
+      name: 'EmbeddingGateway',
+      adapters: this.adapters,
+      chain: this.chain,
+      retryPolicy: this.retryPolicy,
+      signal: request.signal,
+      requestedModel: request.model,
+      call: async (adapter, link, index) => {
+        spendTracker.checkBudget(link.provider);
+        const { value } = await requestScheduler.run(link.provider, { signal: request.signal }, () =>
+          adapter.embed({ ...request, model: modelForLink(link, index, request.model) })
+        );
+        spendTracker.record('embedding', link.provider, value.model, { promptTokens: value.tokensUsed });
+        return value;
+      },
+    });
+    return { ...value, fallbackPath: path };
+  }
+}
@@ -1,84 +1,69 @@
 // src/gateways/ImageGateway.ts
 import type { SecretsManager } from '../utils/secrets';
 import type { MyPluginSettings } from '../settings/types';
-import { providerMetadata } from '../settings/providers/index';
 import type { ImageAdapter, ImageRequest, ImageResponse } from '../core/Adapter';
-import { OpenAIImageAdapter } from '../adapters/image/OpenAIImageAdapter';
-import { GrokImageAdapter } from '../adapters/image/GrokImageAdapter'; // Add this import
+import { buildAdapters, callWithFallback, modelForLink, type FallbackLink } from '../core/Gateway';
+import { requestScheduler } from '../core/scheduler';
+import { spendTracker } from '../core/SpendTracker';
+import type { ProviderRegistry } from '../core/ProviderRegistry';
+import { resolveRetryPolicy, type RetryPolicy } from '../core/retry';
+import { providerRegistry } from '../adapters/providers';
 
 export class ImageGateway {
   private adapters: Record<string, ImageAdapter> = {};
 
   private constructor(
-    private defaultProvider: string,
-    private backupProvider: string
+    private chain: FallbackLink[],
+    private retryPolicy: RetryPolicy
   ) {}
 
   static async create(
     secrets: SecretsManager,
-    settings: MyPluginSettings
+    settings: MyPluginSettings,
+    registry: ProviderRegistry = providerRegistry
   ): Promise<ImageGateway> {
     const gw = new ImageGateway(
-      settings.categories.image.defaultProvider,
-      settings.categories.image.backupProvider
+      settings.categories.image.chain,
+      resolveRetryPolicy(settings.categories.image.retry)
     );
 
-    for (const key of Object.keys(settings.providers)) {
-      if (!['openai', 'stabilityai', 'grok'].includes(key)) {
-        console.warn(`[ImageGateway] Skipping provider ${key}: Not an image-capable provider.`);
-        continue;
-      }
-
-      if (!providerMetadata[key]) {
-        console.warn(`[ImageGateway] Skipping provider ${key}: Not found in providerMetadata.`);
-        continue;
-      }
-
-      const model = settings.providers[key].model;
-      let apiKey: string | undefined;
-
-      if (providerMetadata[key].requiresApiKey) {
-        apiKey = await secrets.getSecret(key);
-        if (!apiKey) {
-          console.warn(`[ImageGateway] No API key found for ${key}. Skipping adapter.`);
-          continue;
-        }
-      }
+    gw.adapters = await buildAdapters('ImageGateway', 'image', registry, secrets, settings);
+    return gw;
+  }
 
-      let adapter: ImageAdapter;
-      switch (key) {
-        case 'openai':
-          adapter = new OpenAIImageAdapter(apiKey!, model);
-          break;
-        case 'grok':
-          adapter = new GrokImageAdapter(apiKey!, model);
-          break;
-        default:
-          console.warn(`[ImageGateway] Unsupported image provider: ${key}`);
-          continue;
-      }
+  /** Providers with a usable adapter */
+  get providers(): string[] {
+    return Object.keys(this.adapters);
+  }
 
-      console.log(`[ImageGateway] Adapter created for ${key} with model: ${model}`);
-      gw.adapters[key] = adapter;
-    }
+  async generate(request: ImageRequest): Promise<ImageResponse> {
+    return this.run(this.chain, request);
+  }
 
-    console.log('[ImageGateway] Initialized adapters:', Object.keys(gw.adapters));
-    return gw;
+  /** Generates with one provider without fallback, e.g. for the console's provider picker */
+  async generateWith(provider: string, request: ImageRequest): Promise<ImageResponse> {
+    return this.run([{ provider }], request);
   }
 
-  async generate(request: ImageRequest): Promise<ImageResponse> {
-    const primary = this.adapters[this.defaultProvider];
-    try {
-      if (!primary) {
-        throw new Error(`No adapter found for default provider: ${this.defaultProvider}`);
-      }
-      return await primary.generate(request);
-    } catch (err) {
-      if (this.backupProvider && this.adapters[this.backupProvider]) {
-        console.log(`[ImageGateway] Falling back to backup provider: ${this.backupProvider}`);
-        return await this.adapters[this.backupProvider].generate(request);
-      }
-      throw err;
-    }
+  private async run(chain: FallbackLink[], request: ImageRequest): Promise<ImageResponse> {
+    const { value, path } = await callWithFallback({
+      name: 'ImageGateway',
+      adapters: this.adapters,
+      chain,
+      retryPolicy: this.retryPolicy,
+      signal: request.signal,
+      requestedModel: request.model,
+      call: async (adapter, link, index) => {
+        spendTracker.checkBudget(link.provider);
+        const model = modelForLink(link, index, request.model);
+        const { value } = await requestScheduler.run(link.provider, { signal: request.signal }, () =>
+          adapter.generate({ ...request, model })
+        );
+        // Image prices are per image rather than per token
+        const costUsd = spendTracker.recordImages(link.provider, value.model ?? model ?? '', value.imageUrls.length);
+        return { ...value, costUsd };
+      },
+    });
+    return { ...value, fallbackPath: path };
   }
-}
\ No newline at end of file
+}
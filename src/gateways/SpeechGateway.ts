@@ -0,0 +1,114 @@
+// src/gateways/SpeechGateway.ts
+import type { SecretsManager } from '../utils/secrets';
+import type { MyPluginSettings } from '../settings/types';
+import type {
+  SpeechAdapter,
+  SpeechRequest,
+  SpeechResponse,
+  TranscriptionAdapter,
+  TranscriptionRequest,
+  TranscriptionResponse,
+} from '../core/Adapter';
+import { buildAdapters, callWithFallback, modelForLink, type FallbackLink } from '../core/Gateway';
+import { requestScheduler } from '../core/scheduler';
+import { spendTracker } from '../core/SpendTracker';
+import type { ProviderRegistry } from '../core/ProviderRegistry';
+import { resolveRetryPolicy, type RetryPolicy } from '../core/retry';
+import { providerRegistry } from '../adapters/providers';
+
+/** Transcription model names; any other model on an audio link is taken for a speech model */
+const TRANSCRIPTION_MODEL = /whisper|transcribe|stt/i;
+
+/**
+ * Text to speech and speech to text over the `audio` category's fallback
+ * chain. A provider may offer only one direction; the chain skips providers
+ * without an adapter for the call at hand.
+ */
+export class SpeechGateway {
+  private speechAdapters: Record<string, SpeechAdapter> = {};
+  private transcriptionAdapters: Record<string, TranscriptionAdapter> = {};
+
+  private constructor(
+    private chain: FallbackLink[],
+    private retryPolicy: RetryPolicy
+  ) {}
+
+  static async create(
+    secrets: SecretsManager,
+    settings: MyPluginSettings,
+    registry: ProviderRegistry = providerRegistry
+  ): Promise<SpeechGateway> {
+    const gw = new SpeechGateway(
+      settings.categories.audio.chain,
+      resolveRetryPolicy(settings.categories.audio.retry)
+    );
+
+    gw.speechAdapters = await buildAdapters('SpeechGateway', 'speech', registry, secrets, settings);
+    gw.transcriptionAdapters = await buildAdapters('SpeechGateway', 'transcription', registry, secrets, settings);
+    return gw;
+  }
+
+  /** Providers with a usable adapter in either direction */
+  get providers(): string[] {
+    const keys = Object.keys(this.speechAdapters);
+    Object.keys(this.transcriptionAdapters).forEach(key => {
+      if (!keys.includes(key)) keys.push(key);
+    });
+    return keys;
+  }
+
+  async synthesize(request: SpeechRequest): Promise<SpeechResponse> {
+    const { value, path } = await callWithFallback({
+      name: 'SpeechGateway',
+      adapters: this.speechAdapters,
+      chain: this.chainFor('speech'),
+      retryPolicy: this.retryPolicy,
+      signal: request.signal,
+      requestedModel: request.model,
+      call: async (adapter, link, index) => {
+        // Audio is billed per character or minute, which the token price table cannot express
+        spendTracker.checkBudget(link.provider);
+        const { value, waitedMs } = await requestScheduler.run(
+          link.provider,
+          { priority: request.priority, signal: request.signal },
+          () => adapter.synthesize({ ...request, model: modelForLink(link, index, request.model) })
+        );
+        return { ...value, queueWaitMs: waitedMs };
+      },
+    });
+    return { ...value, fallbackPath: path };
+  }
+
+  async recognize(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+    const { value, path } = await callWithFallback({
+      name: 'SpeechGateway',
+      adapters: this.transcriptionAdapters,
+      chain: this.chainFor('transcription'),
+      retryPolicy: this.retryPolicy,
+      signal: request.signal,
+      requestedModel: request.model,
+      call: async (adapter, link, index) => {
+        spendTracker.checkBudget(link.provider);
+        const { value, waitedMs } = await requestScheduler.run(
+          link.provider,
+          { priority: request.priority, signal: request.signal },
+          () => adapter.transcribe({ ...request, model: modelForLink(link, index, request.model) })
+        );
+        return { ...value, queueWaitMs: waitedMs };
+      },
+    });
+    return { ...value, fallbackPath: path };
+  }
+
+  /**
+   * Both directions share the audio chain, but a link holds one model. Drop
+   * it where it does not fit, so a `tts-1` link still transcribes with the
+   * provider's default model instead of sending `tts-1` to transcription.
+   */
+  private chainFor(direction: 'speech' | 'transcription'): FallbackLink[] {
+    return this.chain.map(link => {
+      if (!link.model || TRANSCRIPTION_MODEL.test(link.model) === (direction === 'transcription')) return link;
+      return { ...link, model: undefined };
+    });
+  }
+}
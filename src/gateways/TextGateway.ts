@@ -1,100 +1,399 @@
 import type { SecretsManager } from '../utils/secrets';
 import type { MyPluginSettings } from '../settings/types';
-import { providerMetadata } from '../settings/providers/index';
-import type { LLMAdapter, LLMRequest } from '../core/Adapter';
-import { OpenAITextAdapter } from '../adapters/text/OpenAITextAdapter';
-import { AnthropicTextAdapter } from '../adapters/text/AnthropicTextAdapter'; // Fixed import
-import { GrokTextAdapter } from '../adapters/text/GrokTextAdapter';
-import { OpenRouterTextAdapter } from '../adapters/text/OpenRouterTextAdapter';
-import { GeminiTextAdapter } from '../adapters/text/GeminiTextAdapter';
-import { GroqTextAdapter } from '../adapters/text/GroqTextAdapter';
+import type { ChatMessage, JSONSchema, LLMAdapter, LLMRequest, LLMResponse, LLMStreamChunk, TokenUsage } from '../core/Adapter';
+import type { ToolHandler } from '../core/ToolRegistry';
+import { shouldFallback, StructuredOutputError } from '../core/errors';
+import {
+  buildAdapters,
+  callAll,
+  callRace,
+  callWithFallback,
+  modelForLink,
+  type FallbackLink,
+  type FanOutMode,
+  type FanOutResult,
+  type FanOutTarget,
+} from '../core/Gateway';
+import type { ProviderRegistry } from '../core/ProviderRegistry';
+import { resolveRetryPolicy, withRetry, type RetryPolicy } from '../core/retry';
+import { estimateInputTokens, selectRoute, type RouteTrace, type RoutingRule } from '../core/router';
+import { parseJsonOutput, validateAgainstSchema } from '../core/jsonSchema';
+import { responseCache } from '../core/ResponseCache';
+import { requestScheduler, type ScheduleOptions, type ScheduleTicket } from '../core/scheduler';
+import { spendTracker } from '../core/SpendTracker';
+import { throwIfAborted } from '../utils/abort';
+import { providerRegistry } from '../adapters/providers';
 
 export class TextGateway {
   private adapters: Record<string, LLMAdapter> = {};
 
   private constructor(
-    private defaultProvider: string,
-    private backupProvider: string
+    private chain: FallbackLink[],
+    private retryPolicy: RetryPolicy,
+    private rules: RoutingRule[],
+    private defaultModels: Record<string, string>
   ) {}
 
-  /** Factory that reads your settings & secrets and instantiates one adapter per provider */
+  /** Factory that reads your settings & secrets and instantiates one adapter per text-capable provider */
   static async create(
     secrets: SecretsManager,
-    settings: MyPluginSettings
+    settings: MyPluginSettings,
+    registry: ProviderRegistry = providerRegistry
   ): Promise<TextGateway> {
     const gw = new TextGateway(
-      settings.categories.text.defaultProvider,
-      settings.categories.text.backupProvider
+      settings.categories.text.chain,
+      resolveRetryPolicy(settings.categories.text.retry),
+      settings.routing ?? [],
+      Object.keys(settings.providers).reduce((acc, key) => {
+        acc[key] = settings.providers[key].model;
+        return acc;
+      }, {} as Record<string, string>)
     );
 
-    for (const key of Object.keys(settings.providers)) {
-      const model = settings.providers[key].model;
-      let apiKey: string | undefined;
+    gw.adapters = await buildAdapters('TextGateway', 'text', registry, secrets, settings);
+    return gw;
+  }
 
-      // Grab the key if needed
-      if (providerMetadata[key].requiresApiKey) {
-        apiKey = await secrets.getSecret(key);
-        if (!apiKey) {
-          console.warn(`[TextGateway] No API key found for ${key}. Skipping adapter.`);
-          continue;
-        }
+  /** Providers with a usable adapter, i.e. registered and with a key when one is required */
+  get providers(): string[] {
+    return Object.keys(this.adapters);
+  }
+
+  /** Single entry point: walks the fallback chain until a provider answers */
+  async generate(request: LLMRequest): Promise<string> {
+    const res = await this.generateResponse(request);
+    return res.output;
+  }
+
+  /** Like generate, but returns the full response with usage, finish reason and provider details */
+  async generateDetailed(request: LLMRequest): Promise<LLMResponse> {
+    return this.generateResponse(request);
+  }
+
+  /** Explains which chain a request would take, without sending it */
+  route(request: LLMRequest): RouteTrace {
+    return selectRoute(request, this.rules, this.chain);
+  }
+
+  private async generateResponse(request: LLMRequest): Promise<LLMResponse> {
+    const { response, save } = await this.generateCacheable(request);
+    await save();
+    return response;
+  }
+
+  /**
+   * Answers from the cache or the fallback chain. A fresh answer is only
+   * stored once `save` is called, so callers can validate it first.
+   */
+  private async generateCacheable(request: LLMRequest): Promise<{ response: LLMResponse; save: () => Promise<void> }> {
+    const route = this.route(request);
+    console.log(`[TextGateway] Route: ${route.summary}`);
+
+    const mode = responseCache.modeFor(request);
+    const primary = route.chain[0];
+    const cacheKey = mode !== 'bypass' && primary
+      ? await responseCache.keyFor(primary.provider, modelForLink(primary, 0, request.model) ?? this.defaultModels[primary.provider] ?? '', request)
+      : undefined;
+    if (cacheKey && mode === 'use') {
+      const hit = await responseCache.get(cacheKey);
+      if (hit) {
+        console.log(`[TextGateway] Cache hit for ${primary.provider}`);
+        return { response: { ...hit, cached: true, route }, save: async () => undefined };
       }
+    }
+
+    const { value, path } = await callWithFallback({
+      name: 'TextGateway',
+      adapters: this.adapters,
+      chain: route.chain,
+      retryPolicy: this.retryPolicy,
+      signal: request.signal,
+      requestedModel: request.model,
+      defaultModels: this.defaultModels,
+      call: (adapter, link, index) => {
+        const linkRequest = { ...request, model: modelForLink(link, index, request.model) };
+        return this.scheduled(link.provider, linkRequest, request.signal, () => adapter.generate(linkRequest));
+      },
+    });
+    return {
+      response: { ...value, fallbackPath: path, route },
+      // The key names the primary link; an answer from a fallback link must not be served as its own
+      save: () => (cacheKey && path.length === 1 ? responseCache.set(cacheKey, value) : Promise.resolve()),
+    };
+  }
+
+  /**
+   * Sends the request to several providers at once. `race` resolves with the
+   * first success and cancels the rest; `all` resolves with every provider's
+   * answer or error. Without `providers`, each distinct provider in the routed
+   * chain is used, with `request.model` going to its first link as in
+   * generate. Explicit `providers` ignore `request.model`; give models per target.
+   */
+  async fanOut(request: LLMRequest, options: { mode: 'race'; providers?: (string | FanOutTarget)[] }): Promise<LLMResponse>;
+  async fanOut(request: LLMRequest, options: { mode: 'all'; providers?: (string | FanOutTarget)[] }): Promise<FanOutResult<LLMResponse>[]>;
+  async fanOut(
+    request: LLMRequest,
+    options: { mode: FanOutMode; providers?: (string | FanOutTarget)[] }
+  ): Promise<LLMResponse | FanOutResult<LLMResponse>[]>;
+  async fanOut(
+    request: LLMRequest,
+    options: { mode: FanOutMode; providers?: (string | FanOutTarget)[] }
+  ): Promise<LLMResponse | FanOutResult<LLMResponse>[]> {
+    const route = this.route(request);
+    const targets = options.providers
+      ? options.providers.map(target => (typeof target === 'string' ? { provider: target } : target))
+      : route.chain
+          .map((link, index) => ({ provider: link.provider, model: modelForLink(link, index, request.model) }))
+          .filter((target, index, list) => this.adapters[target.provider] && list.findIndex(t => t.provider === target.provider) === index);
+
+    const fanOutOptions = {
+      name: 'TextGateway',
+      adapters: this.adapters,
+      targets,
+      retryPolicy: this.retryPolicy,
+      signal: request.signal,
+      call: (adapter: LLMAdapter, target: FanOutTarget, signal: AbortSignal) => {
+        const targetRequest = { ...request, model: target.model, signal };
+        return this.scheduled(target.provider, targetRequest, signal, () => adapter.generate(targetRequest));
+      },
+    };
+
+    if (options.mode === 'race') {
+      const winner = await callRace(fanOutOptions);
+      return { ...winner.value, route };
+    }
+    return callAll(fanOutOptions);
+  }
+
+  /**
+   * Requests JSON output in the provider's native JSON mode, then parses and
+   * validates it against the schema. Invalid output is sent back to the model
+   * with the validation issues, up to `retries` more times.
+   */
+  async generateObject<T = unknown>(
+    request: LLMRequest,
+    schema: JSONSchema,
+    options: { retries?: number; name?: string } = {}
+  ): Promise<T> {
+    const retries = options.retries ?? 1;
+    const instruction = `Respond only with JSON that matches this JSON schema:\n${JSON.stringify(schema)}`;
+    let attemptRequest: LLMRequest = {
+      ...request,
+      systemPrompt: request.systemPrompt ? `${request.systemPrompt}\n\n${instruction}` : instruction,
+      responseFormat: { type: 'json', schema, name: options.name },
+    };
+    let lastOutput = '';
+    let lastIssues: string[] = [];
 
-      // Instantiate the right adapter
-      let adapter: LLMAdapter;
-      switch (key) {
-        case 'openai':
-          adapter = new OpenAITextAdapter(apiKey!, model);
-          break;
-        case 'anthropic':
-          adapter = new AnthropicTextAdapter(apiKey!, model);
-          break;
-        case 'grok':
-          adapter = new GrokTextAdapter(apiKey!, model);
-          break;
-        case 'openrouter':
-          adapter = new OpenRouterTextAdapter(apiKey!, model);
-          break;
-        case 'gemini':
-          adapter = new GeminiTextAdapter(apiKey!, model);
-          break;
-        case 'groq':
-          adapter = new GroqTextAdapter(apiKey!, model);
-          break;
-        default:
-          console.warn(`[TextGateway] Unsupported provider: ${key}`);
-          continue; // skip unsupported
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      // Only answers that pass validation go into the cache
+      const { response: res, save } = await this.generateCacheable(attemptRequest);
+      lastOutput = res.output;
+
+      let parsed: unknown;
+      try {
+        parsed = parseJsonOutput(res.output);
+        lastIssues = validateAgainstSchema(parsed, schema);
+      } catch (err) {
+        lastIssues = [`Output is not valid JSON: ${err.message}`];
       }
 
-      console.log(`[TextGateway] Adapter created for ${key} with model: ${model}`);
-      gw.adapters[key] = adapter;
+      if (lastIssues.length === 0) {
+        await save();
+        return parsed as T;
+      }
+
+      console.warn(`[TextGateway] Structured output attempt ${attempt + 1} failed validation:`, lastIssues);
+      attemptRequest = {
+        ...attemptRequest,
+        prompt: undefined,
+        messages: [
+          ...(request.messages ?? []),
+          ...(request.prompt ? [{ role: 'user' as const, content: request.prompt }] : []),
+          { role: 'assistant', content: res.output },
+          {
+            role: 'user',
+            content: `That response did not match the schema:\n- ${lastIssues.join('\n- ')}\nReply again with only corrected JSON.`,
+          },
+        ],
+      };
     }
 
-    console.log('[TextGateway] Initialized adapters:', Object.keys(gw.adapters));
-    return gw;
+    throw new StructuredOutputError(
+      `Structured output failed schema validation after ${retries + 1} attempt(s).`,
+      lastOutput,
+      lastIssues
+    );
   }
 
-  /** Single entry point: try default, then fallback */
-  async generate(request: LLMRequest): Promise<string> {
-    const primary = this.adapters[this.defaultProvider];
-    try {
-      if (!primary) {
-        throw new Error(`No adapter found for default provider: ${this.defaultProvider}`);
+  /**
+   * Runs the model in a loop, executing each requested tool with its handler and
+   * sending the results back until the model answers without tool calls.
+   * Handler errors are reported to the model instead of aborting the loop.
+   */
+  async runTools(
+    request: LLMRequest,
+    handlers: Record<string, ToolHandler>,
+    options: { maxSteps?: number } = {}
+  ): Promise<LLMResponse> {
+    const maxSteps = options.maxSteps ?? 5;
+    const messages: ChatMessage[] = [
+      ...(request.messages ?? []),
+      ...(request.prompt ? [{ role: 'user' as const, content: request.prompt }] : []),
+    ];
+
+    for (let step = 0; step < maxSteps; step++) {
+      const res = await this.generateResponse({ ...request, prompt: undefined, messages });
+      if (!res.toolCalls?.length) {
+        return res;
+      }
+
+      messages.push({ role: 'assistant', content: res.output, toolCalls: res.toolCalls });
+      for (const call of res.toolCalls) {
+        throwIfAborted(request.signal);
+        const handler = handlers[call.name];
+        let content: string;
+        try {
+          if (!handler) {
+            throw new Error(`Unknown tool: ${call.name}`);
+          }
+          const result = await handler(call.arguments);
+          content = typeof result === 'string' ? result : JSON.stringify(result ?? null);
+        } catch (err) {
+          console.warn(`[TextGateway] Tool ${call.name} failed:`, err);
+          content = `Error: ${err instanceof Error ? err.message : String(err)}`;
+        }
+        messages.push({ role: 'tool', toolCallId: call.id, name: call.name, content });
+      }
+    }
+
+    throw new Error(`Tool loop did not finish within ${maxSteps} step(s).`);
+  }
+
+  /**
+   * Streams text deltas from the first available link of the routed chain.
+   * Moves on to the next link only if the current one fails before emitting
+   * anything and its fallback rules allow it.
+   */
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const { chain, summary } = this.route(request);
+    console.log(`[TextGateway] Route: ${summary}`);
+    yield* this.streamChain(chain, request);
+  }
+
+  /** Streams from one provider without routing or fallback, e.g. for the console's provider picker */
+  async *streamWith(provider: string, request: LLMRequest): AsyncGenerator<string> {
+    yield* this.streamChain([{ provider }], request);
+  }
+
+  /**
+   * Tries each link in turn. Transient failures before the first chunk are
+   * retried with the retry policy; once output has started a failure is final.
+   * Each attempt holds a scheduler slot until its stream ends.
+   */
+  private async *streamChain(chain: FallbackLink[], request: LLMRequest): AsyncGenerator<string> {
+    let lastError: unknown = new Error('No adapter available in the text fallback chain.');
+
+    for (let index = 0; index < chain.length; index++) {
+      const link = chain[index];
+      const adapter = this.adapters[link.provider];
+      if (!adapter) continue;
+
+      const linkRequest = { ...request, model: modelForLink(link, index, request.model) };
+      let opened: { ticket: ScheduleTicket; chunks: AsyncIterator<LLMStreamChunk>; first: IteratorResult<LLMStreamChunk> };
+      try {
+        opened = await withRetry(async () => {
+          spendTracker.checkBudget(link.provider);
+          const ticket = await requestScheduler.acquire(link.provider, TextGateway.scheduleOptions(linkRequest, request.signal));
+          const chunks = TextGateway.streamFrom(adapter, linkRequest)[Symbol.asyncIterator]();
+          try {
+            return { ticket, chunks, first: await chunks.next() };
+          } catch (err) {
+            ticket.release();
+            throw err;
+          }
+        }, this.retryPolicy, { signal: request.signal, label: `TextGateway:${link.provider}` });
+      } catch (err) {
+        if (!shouldFallback(err, link.fallbackOn)) throw err;
+        lastError = err;
+        console.warn(`[TextGateway] Stream failed for ${link.provider} before any output:`, err);
+        continue;
       }
-      const res = await primary.generate(request);
-      return res.output;
-    } catch (err) {
-      if (
-        this.backupProvider &&
-        this.adapters[this.backupProvider]
-      ) {
-        console.log(`[TextGateway] Falling back to backup provider: ${this.backupProvider}`);
-        const fallback = await this.adapters[
-          this.backupProvider
-        ].generate(request);
-        return fallback.output;
+
+      const { ticket, chunks } = opened;
+      let next = opened.first;
+      let emitted = false;
+      let usage: TokenUsage | undefined;
+      let model: string | undefined;
+      try {
+        while (!next.done) {
+          const chunk = next.value;
+          usage = chunk.usage ?? usage;
+          model = model ?? chunk.model;
+          if (chunk.delta) {
+            emitted = true;
+            yield chunk.delta;
+          }
+          next = await chunks.next();
+        }
+        return;
+      } catch (err) {
+        if (emitted || !shouldFallback(err, link.fallbackOn)) throw err;
+        lastError = err;
+        console.warn(`[TextGateway] Stream failed for ${link.provider} before any output:`, err);
+      } finally {
+        // Close the provider's stream when the caller stops reading early
+        if (!next.done) await chunks.return?.();
+        ticket.release(usage?.totalTokens);
+        // Stopped or failed streams are billed for what was generated, so record those too
+        if (emitted || usage) {
+          spendTracker.record('text', link.provider, model ?? linkRequest.model ?? this.defaultModels[link.provider] ?? '', usage);
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Refuses the call if the provider is over a hard budget, waits for room
+   * under its rate limits, then runs `task` and records its queue wait and cost.
+   * `request.model` must be the model sent to this provider, for pricing
+   * answers that do not name their model.
+   */
+  private async scheduled(
+    provider: string,
+    request: LLMRequest,
+    signal: AbortSignal | undefined,
+    task: () => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    spendTracker.checkBudget(provider);
+    const { value, waitedMs } = await requestScheduler.run(
+      provider,
+      TextGateway.scheduleOptions(request, signal),
+      task,
+      res => res.usage?.totalTokens
+    );
+    const costUsd = spendTracker.record('text', provider, value.model ?? request.model ?? this.defaultModels[provider] ?? '', value.usage);
+    return { ...value, queueWaitMs: waitedMs, costUsd };
+  }
+
+  private static scheduleOptions(request: LLMRequest, signal?: AbortSignal): ScheduleOptions {
+    return {
+      priority: request.priority,
+      estimatedTokens: estimateInputTokens(request) + (request.maxTokens ?? 0),
+      signal,
+    };
+  }
+
+  /** Adapters without native streaming emit their full output and usage as one chunk */
+  private static async *streamFrom(adapter: LLMAdapter, request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    if (adapter.generateStream) {
+      for await (const chunk of adapter.generateStream(request)) {
+        yield chunk;
       }
-      throw err;
+      return;
     }
+    const res = await adapter.generate(request);
+    yield { delta: res.output, usage: res.usage };
   }
-}
\ No newline at end of file
+}
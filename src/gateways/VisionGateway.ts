@@ -0,0 +1,69 @@
+// src/gateways/VisionGateway.ts
+import type { SecretsManager } from '../utils/secrets';
+import type { MyPluginSettings } from '../settings/types';
+import type { VisionAdapter, VisionRequest, VisionResponse } from '../core/Adapter';
+import { buildAdapters, callWithFallback, modelForLink, type FallbackLink } from '../core/Gateway';
+import { requestScheduler } from '../core/scheduler';
+import { spendTracker } from '../core/SpendTracker';
+import type { ProviderRegistry } from '../core/ProviderRegistry';
+import { resolveRetryPolicy, type RetryPolicy } from '../core/retry';
+import { providerRegistry } from '../adapters/providers';
+
+/** Images count for roughly this many input tokens when queueing under a tokens-per-minute limit */
+const ESTIMATED_IMAGE_TOKENS = 1000;
+
+export class VisionGateway {
+  private adapters: Record<string, VisionAdapter> = {};
+
+  private constructor(
+    private chain: FallbackLink[],
+    private retryPolicy: RetryPolicy
+  ) {}
+
+  /** Adapters get the provider's configured model but switch to a vision model when it cannot see images */
+  static async create(
+    secrets: SecretsManager,
+    settings: MyPluginSettings,
+    registry: ProviderRegistry = providerRegistry
+  ): Promise<VisionGateway> {
+    const gw = new VisionGateway(
+      settings.categories.vision.chain,
+      resolveRetryPolicy(settings.categories.vision.retry)
+    );
+
+    gw.adapters = await buildAdapters('VisionGateway', 'vision', registry, secrets, settings);
+    return gw;
+  }
+
+  /** Providers with a usable adapter */
+  get providers(): string[] {
+    return Object.keys(this.adapters);
+  }
+
+  async describe(request: VisionRequest): Promise<VisionResponse> {
+    const { value, path } = await callWithFallback({
+      name: 'VisionGateway',
+      adapters: this.adapters,
+      chain: this.chain,
+      retryPolicy: this.retryPolicy,
+      signal: request.signal,
+      requestedModel: request.model,
+      call: async (adapter, link, index) => {
+        spendTracker.checkBudget(link.provider);
+        const { value, waitedMs } = await requestScheduler.run(
+          link.provider,
+          {
+            priority: request.priority,
+            estimatedTokens: ESTIMATED_IMAGE_TOKENS + (request.maxTokens ?? 0),
+            signal: request.signal,
+          },
+          () => adapter.describe({ ...request, model: modelForLink(link, index, request.model) }),
+          res => res.usage?.totalTokens
+        );
+        const costUsd = spendTracker.record('vision', link.provider, value.model ?? '', value.usage);
+        return { ...value, queueWaitMs: waitedMs, costUsd };
+      },
+    });
+    return { ...value, fallbackPath: path };
+  }
+}
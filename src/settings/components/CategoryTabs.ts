@@ -2,8 +2,12 @@ import { SampleSettingTab } from '../settings';
 import { categoryProviders } from '../defaults';
 import { TabComponent, TabConfig } from '../../ui/components/TabComponent';
 import { getTabIcon } from '../utils';
-import { Setting, Notice } from 'obsidian';
-import { Category } from '../types';
+import { Setting } from 'obsidian';
+import { Category, CategorySettings } from '../types';
+import { resolveRetryPolicy, type RetryPolicy } from '../../core/retry';
+import { DEFAULT_FALLBACK_ON, type ProviderErrorCode } from '../../core/errors';
+import type { FallbackLink } from '../../core/Gateway';
+import { renderRoutingRules } from './RoutingRules';
 
 export function renderCategoryTabs(tab: SampleSettingTab, containerEl: HTMLElement): void {
     const tabs: TabConfig[] = Object.keys(categoryProviders).map(category => ({
@@ -22,50 +26,201 @@ export function renderCategoryTabs(tab: SampleSettingTab, containerEl: HTMLEleme
 }
 
 function renderCategoryTab(tab: SampleSettingTab, container: HTMLElement, category: Category) {
-    const catSettings = tab.plugin.settings.categories[category] || {
-        defaultProvider: '',
-        backupProvider: ''
+    const catSettings = tab.plugin.settings.categories[category] || { chain: [] };
+    tab.plugin.settings.categories[category] = catSettings;
+
+    renderFallbackChain(tab, container, category, catSettings);
+    if (category === 'text') {
+        renderRoutingRules(tab, container);
+    }
+    renderRetrySettings(tab, container, category, catSettings);
+}
+
+const FALLBACK_ERROR_LABELS: Record<ProviderErrorCode, string> = {
+    rate_limit: 'Rate limit',
+    quota: 'Quota',
+    server: 'Server error',
+    network: 'Network',
+    timeout: 'Timeout',
+    auth: 'Auth',
+    invalid_request: 'Invalid request',
+    content_filtered: 'Content filtered',
+    budget: 'Budget cap',
+    unknown: 'Other',
+};
+
+function renderFallbackChain(tab: SampleSettingTab, container: HTMLElement, category: Category, catSettings: CategorySettings) {
+    const validProviders = categoryProviders[category].filter(id => tab.workingProviders.has(id));
+    const save = async () => tab.plugin.saveSettings();
+
+    container.createEl('h4', { text: 'Fallback chain' });
+    container.createEl('p', {
+        cls: 'setting-item-description',
+        text: `Providers for ${category} are tried from top to bottom. Drag a row to reorder it. `
+            + 'Each link moves on to the next one only for the error types ticked under it.',
+    });
+
+    const listEl = container.createEl('div', { cls: 'fallback-chain' });
+    let dragIndex: number | null = null;
+
+    const renderLinks = () => {
+        listEl.empty();
+        if (catSettings.chain.length === 0) {
+            listEl.createEl('p', { cls: 'setting-item-description', text: `No providers in the ${category} chain yet.` });
+        }
+
+        catSettings.chain.forEach((link, index) => {
+            const setting = new Setting(listEl).setName(`${index + 1}.`);
+            const rowEl = setting.settingEl;
+            rowEl.addClass('fallback-chain-link');
+            rowEl.draggable = true;
+
+            rowEl.addEventListener('dragstart', event => {
+                dragIndex = index;
+                event.dataTransfer?.setData('text/plain', String(index));
+                rowEl.addClass('is-dragging');
+            });
+            rowEl.addEventListener('dragend', () => {
+                dragIndex = null;
+                rowEl.removeClass('is-dragging');
+            });
+            rowEl.addEventListener('dragover', event => {
+                event.preventDefault();
+                rowEl.addClass('is-drop-target');
+            });
+            rowEl.addEventListener('dragleave', () => rowEl.removeClass('is-drop-target'));
+            rowEl.addEventListener('drop', async event => {
+                event.preventDefault();
+                rowEl.removeClass('is-drop-target');
+                if (dragIndex === null || dragIndex === index) return;
+                const [moved] = catSettings.chain.splice(dragIndex, 1);
+                catSettings.chain.splice(index, 0, moved);
+                dragIndex = null;
+                await save();
+                renderLinks();
+            });
+
+            setting.addDropdown(dropdown => {
+                const options = validProviders.includes(link.provider) || !link.provider
+                    ? validProviders
+                    : [...validProviders, link.provider];
+                options.forEach(id => dropdown.addOption(id, tab.workingProviders.has(id) ? id : `${id} (not validated)`));
+                dropdown.setValue(link.provider);
+                dropdown.onChange(async value => {
+                    link.provider = value;
+                    await save();
+                });
+            });
+
+            setting.addText(text => {
+                text
+                    .setPlaceholder('Provider default model')
+                    .setValue(link.model ?? '');
+                // Saved on blur rather than per keystroke, since each save rebuilds the gateways
+                text.inputEl.addEventListener('blur', async () => {
+                    const model = text.getValue().trim() || undefined;
+                    if (model === link.model) return;
+                    link.model = model;
+                    await save();
+                });
+            });
+
+            setting.addExtraButton(button => button
+                .setIcon('x')
+                .setTooltip('Remove from chain')
+                .onClick(async () => {
+                    catSettings.chain.splice(index, 1);
+                    await save();
+                    renderLinks();
+                }));
+
+            renderFallbackRules(setting.descEl, link, save);
+        });
     };
 
-    // Create settings for default and backup providers
-    const createProviderDropdown = (setting: Setting, settingKey: 'defaultProvider' | 'backupProvider') => {
-        setting.addDropdown(dropdown => {
-            const validProviders = categoryProviders[category]
-                .filter(id => tab.workingProviders.has(id));
+    renderLinks();
+
+    new Setting(container)
+        .addButton(button => button
+            .setButtonText('Add provider')
+            .setDisabled(validProviders.length === 0)
+            .setTooltip(validProviders.length === 0 ? 'Validate a provider first' : '')
+            .onClick(async () => {
+                const unused = validProviders.find(id => !catSettings.chain.some(link => link.provider === id));
+                catSettings.chain.push({ provider: unused ?? validProviders[0] });
+                await save();
+                renderLinks();
+            }));
+}
 
-            dropdown.addOption('', '--- Select ---');
+function renderFallbackRules(containerEl: HTMLElement, link: FallbackLink, save: () => Promise<void>) {
+    const details = containerEl.createEl('details', { cls: 'fallback-chain-rules' });
+    details.createEl('summary', { text: 'Fall back on' });
 
-            if (validProviders.length === 0) {
-                dropdown.addOption('', 'No validated providers available');
-                dropdown.setDisabled(true);
+    (Object.keys(FALLBACK_ERROR_LABELS) as ProviderErrorCode[]).forEach(code => {
+        const label = details.createEl('label', { cls: 'fallback-chain-rule' });
+        const checkbox = label.createEl('input', { type: 'checkbox' });
+        checkbox.checked = (link.fallbackOn ?? DEFAULT_FALLBACK_ON).includes(code);
+        label.appendText(` ${FALLBACK_ERROR_LABELS[code]}`);
+        checkbox.addEventListener('change', async () => {
+            const current = new Set(link.fallbackOn ?? DEFAULT_FALLBACK_ON);
+            if (checkbox.checked) {
+                current.add(code);
             } else {
-                validProviders.forEach(id => dropdown.addOption(id, id));
-                dropdown.setDisabled(false);
+                current.delete(code);
             }
-
-            const currentValue = catSettings[settingKey];
-            dropdown.setValue(validProviders.includes(currentValue) ? currentValue : '');
-
-            dropdown.onChange(async value => {
-                const settingName = settingKey === 'defaultProvider' ? 'Default' : 'Backup';
-                if (value === '') {
-                    new Notice(`Cleared ${settingName} Provider for ${category}.`);
-                } else {
-                    new Notice(`${settingName} provider for ${category} set to ${value}`);
-                }
-                catSettings[settingKey] = value;
-                await tab.plugin.saveSettings();
-            });
+            link.fallbackOn = (Object.keys(FALLBACK_ERROR_LABELS) as ProviderErrorCode[]).filter(c => current.has(c));
+            await save();
         });
+    });
+}
+
+function renderRetrySettings(tab: SampleSettingTab, container: HTMLElement, category: Category, catSettings: CategorySettings) {
+    const policy = resolveRetryPolicy(catSettings.retry);
+    const update = async (changes: Partial<RetryPolicy>) => {
+        catSettings.retry = { ...catSettings.retry, ...changes };
+        await tab.plugin.saveSettings();
+    };
+    const parseMs = (value: string): number | undefined => {
+        const ms = Number(value);
+        return value.trim() !== '' && Number.isFinite(ms) && ms >= 0 ? ms : undefined;
     };
 
-    const defaultProviderSetting = new Setting(container)
-        .setName(`Default Provider for ${category}`)
-        .setDesc(`Primary provider for ${category} (must be validated).`);
-    createProviderDropdown(defaultProviderSetting, 'defaultProvider');
+    container.createEl('h4', { text: 'Retries' });
+
+    new Setting(container)
+        .setName('Max attempts')
+        .setDesc(`Tries per provider for rate limits, server and network errors before falling back. 1 disables retries for ${category}.`)
+        .addSlider(slider => slider
+            .setLimits(1, 6, 1)
+            .setValue(policy.maxAttempts)
+            .setDynamicTooltip()
+            .onChange(async value => update({ maxAttempts: value })));
+
+    new Setting(container)
+        .setName('Initial delay (ms)')
+        .setDesc('Wait before the first retry; doubles after each attempt.')
+        .addText(text => text
+            .setValue(String(policy.initialDelayMs))
+            .onChange(async value => {
+                const ms = parseMs(value);
+                if (ms !== undefined) await update({ initialDelayMs: ms });
+            }));
+
+    new Setting(container)
+        .setName('Max delay (ms)')
+        .setDesc('Upper bound for a single wait. If the provider asks for a longer wait (Retry-After), the next provider in the chain is used instead.')
+        .addText(text => text
+            .setValue(String(policy.maxDelayMs))
+            .onChange(async value => {
+                const ms = parseMs(value);
+                if (ms !== undefined) await update({ maxDelayMs: ms });
+            }));
 
-    const backupProviderSetting = new Setting(container)
-        .setName(`Backup Provider for ${category}`)
-        .setDesc(`Used if the default provider for ${category} fails (must be validated).`);
-    createProviderDropdown(backupProviderSetting, 'backupProvider');
+    new Setting(container)
+        .setName('Jitter')
+        .setDesc('Randomize delays so simultaneous requests do not retry at the same moment.')
+        .addToggle(toggle => toggle
+            .setValue(policy.jitter)
+            .onChange(async value => update({ jitter: value })));
 }
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Setting } from 'obsidian';
+import { SampleSettingTab } from '../settings';
+import type { LocalSpeechSettings } from '../types';
+
+/** Server URLs the `local` provider uses for text to speech and speech to text */
+export function renderLocalSpeechSettings(tab: SampleSettingTab, containerEl: HTMLElement): void {
+    const settings = tab.plugin.settings.localSpeech;
+
+    const detailsEl = containerEl.createEl('details');
+    detailsEl.createEl('summary', { text: 'Speech servers' });
+
+    const textSetting = (name: string, desc: string, field: keyof LocalSpeechSettings) => {
+        new Setting(detailsEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => text
+                .setValue(settings[field])
+                .onChange(async value => {
+                    if (!value.trim()) return;
+                    settings[field] = value.trim();
+                    await tab.plugin.saveSettings();
+                }));
+    };
+
+    textSetting('Text to speech URL', 'Base URL of an OpenAI-compatible speech server, including /v1 (e.g. Kokoro-FastAPI).', 'ttsUrl');
+    textSetting('Text to speech model', 'Model name the speech server expects.', 'ttsModel');
+    textSetting('Default voice', 'Used when a request does not name a voice.', 'ttsVoice');
+    textSetting('Speech to text URL', 'Base URL of a whisper.cpp server.', 'sttUrl');
+}
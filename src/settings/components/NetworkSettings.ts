@@ -0,0 +1,20 @@
+import { Setting } from 'obsidian';
+import { SampleSettingTab } from '../settings';
+
+/** Optional debugging proxy for all provider traffic */
+export function renderNetworkSettings(tab: SampleSettingTab, container: HTMLElement): void {
+    const settings = tab.plugin.settings.network;
+
+    container.createEl('h3', { text: 'Network' });
+
+    new Setting(container)
+        .setName('Debugging proxy')
+        .setDesc('Send every request to <proxy URL>/<original URL>, e.g. http://localhost:8080. Leave empty to call providers directly.')
+        .addText(text => text
+            .setPlaceholder('http://localhost:8080')
+            .setValue(settings.proxyUrl)
+            .onChange(async value => {
+                settings.proxyUrl = value.trim();
+                await tab.plugin.saveSettings();
+            }));
+}
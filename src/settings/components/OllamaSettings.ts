@@ -0,0 +1,52 @@
+import { Setting } from 'obsidian';
+import { SampleSettingTab } from '../settings';
+import { modelCatalog } from '../../core/ModelCatalog';
+
+/** Where the `local` provider reaches Ollama and how it loads models */
+export function renderOllamaSettings(tab: SampleSettingTab, containerEl: HTMLElement): void {
+    const settings = tab.plugin.settings.ollama;
+
+    const detailsEl = containerEl.createEl('details');
+    detailsEl.createEl('summary', { text: 'Ollama' });
+
+    new Setting(detailsEl)
+        .setName('Host URL')
+        .setDesc('Base URL of the Ollama server.')
+        .addText(text => {
+            text
+                .setPlaceholder('http://localhost:11434')
+                .setValue(settings.host);
+            // Applied on blur: every save rebuilds the gateways, which is too much per keystroke
+            text.inputEl.addEventListener('blur', async () => {
+                const value = text.getValue().trim();
+                if (!value || value === settings.host) return;
+                settings.host = value;
+                // Models cached from the old host would validate requests against the wrong server
+                modelCatalog.invalidate('local');
+                delete tab.availableModels.local;
+                await tab.plugin.saveSettings();
+            });
+        });
+
+    new Setting(detailsEl)
+        .setName('Keep alive')
+        .setDesc("How long a model stays loaded after a request, e.g. '5m' or '1h'. '-1' keeps it loaded, '0' unloads it right away.")
+        .addText(text => text
+            .setValue(settings.keepAlive)
+            .onChange(async value => {
+                settings.keepAlive = value.trim();
+                await tab.plugin.saveSettings();
+            }));
+
+    new Setting(detailsEl)
+        .setName('Context window')
+        .setDesc("Tokens the model can attend to (num_ctx). Leave empty to use the model's default.")
+        .addText(text => text
+            .setValue(settings.numCtx?.toString() ?? '')
+            .onChange(async value => {
+                const parsed = parseInt(value, 10);
+                if (value.trim() && (isNaN(parsed) || parsed <= 0)) return;
+                settings.numCtx = value.trim() ? parsed : undefined;
+                await tab.plugin.saveSettings();
+            }));
+}
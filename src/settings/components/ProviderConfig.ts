@@ -4,6 +4,10 @@ import { ensureProviderConfigExists } from '../utils';
 import { fetchAvailableModels } from '../validation'; // Fixed import
 import { Setting, Notice } from 'obsidian';
 import { renderRemoveKeyButton } from './RemoveKeyButton';
+import { renderLocalSpeechSettings } from './LocalSpeechSettings';
+import { renderOllamaSettings } from './OllamaSettings';
+import { modelCatalog } from '../../core/ModelCatalog';
+import type { ProviderLimits } from '../../core/scheduler';
 
 export function renderProviderConfig(tab: SampleSettingTab, containerEl: HTMLElement): void {
     const selectedMeta = providerMetadata[tab.selectedProviderKey];
@@ -69,7 +73,7 @@ export function renderProviderConfig(tab: SampleSettingTab, containerEl: HTMLEle
                 tab.workingProviders.delete(currentProvider);
 
                 try {
-                    const models = await fetchAvailableModels(tab, currentProvider, apiKeyToValidate);
+                    const models = await fetchAvailableModels(tab, currentProvider, apiKeyToValidate, true);
                     tab.availableModels[currentProvider] = models;
 
                     if (models.length > 0) {
@@ -165,6 +169,18 @@ export function renderProviderConfig(tab: SampleSettingTab, containerEl: HTMLEle
         });
     });
 
+    // --- Model List Cache ---
+    renderModelCacheStatus(tab, containerEl);
+
+    // --- Rate Limits ---
+    renderRateLimits(tab, containerEl);
+
+    // --- Ollama and Local Speech Servers ---
+    if (tab.selectedProviderKey === 'local') {
+        renderOllamaSettings(tab, containerEl);
+        renderLocalSpeechSettings(tab, containerEl);
+    }
+
     // --- Display Fetched Models ---
     const currentModels = tab.availableModels[tab.selectedProviderKey] ?? [];
     if (currentModels.length > 0) {
@@ -182,4 +198,76 @@ export function renderProviderConfig(tab: SampleSettingTab, containerEl: HTMLEle
 
     // --- Remove Configuration Button ---
     renderRemoveKeyButton(tab, containerEl);
-}
\ No newline at end of file
+}
+function describeAge(timestamp: number): string {
+    const minutes = Math.round((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 48) return `${hours} h ago`;
+    return `${Math.round(hours / 24)} days ago`;
+}
+
+const RATE_LIMIT_FIELDS: { field: keyof ProviderLimits; name: string; desc: string }[] = [
+    { field: 'maxConcurrent', name: 'Max concurrent requests', desc: 'Requests beyond this wait in a queue.' },
+    { field: 'requestsPerMinute', name: 'Requests per minute', desc: 'Leave empty for no limit.' },
+    { field: 'tokensPerMinute', name: 'Tokens per minute', desc: 'Estimated prompt plus max output tokens. Leave empty for no limit.' },
+];
+
+function renderRateLimits(tab: SampleSettingTab, containerEl: HTMLElement) {
+    const providerKey = tab.selectedProviderKey;
+    const rateLimits = tab.plugin.settings.rateLimits;
+
+    const detailsEl = containerEl.createEl('details');
+    detailsEl.createEl('summary', { text: 'Rate limits' });
+
+    RATE_LIMIT_FIELDS.forEach(({ field, name, desc }) => {
+        new Setting(detailsEl)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => text
+                .setPlaceholder('No limit')
+                .setValue(rateLimits[providerKey]?.[field]?.toString() ?? '')
+                .onChange(async value => {
+                    const limit = parseInt(value);
+                    const limits = rateLimits[providerKey] ?? (rateLimits[providerKey] = {});
+                    if (Number.isFinite(limit) && limit > 0) {
+                        limits[field] = limit;
+                    } else {
+                        delete limits[field];
+                    }
+                    await tab.plugin.saveSettings();
+                }));
+    });
+}
+
+function renderModelCacheStatus(tab: SampleSettingTab, containerEl: HTMLElement) {
+    const providerKey = tab.selectedProviderKey;
+    const entry = modelCatalog.getEntry(providerKey);
+    const ttlHours = Math.round(modelCatalog.ttlMs / 3600000);
+    const desc = entry
+        ? `Last refreshed ${describeAge(entry.fetchedAt)} (${new Date(entry.fetchedAt).toLocaleString()}). `
+            + `${modelCatalog.isStale(providerKey) ? 'Stale; refreshes on next use.' : `Refreshes automatically every ${ttlHours} h.`}`
+        : 'Not cached yet. The list is fetched on first use.';
+
+    new Setting(containerEl)
+        .setName('Model list')
+        .setDesc(desc)
+        .addButton(button => {
+            button.setButtonText('Refresh now')
+                .onClick(async () => {
+                    button.setDisabled(true);
+                    try {
+                        const models = await modelCatalog.refresh(providerKey);
+                        tab.availableModels[providerKey] = models;
+                        new Notice(`${providerKey}: ${models.length} model(s) found.`, 4000);
+                    } catch (error) {
+                        console.error(`[Settings] Model list refresh failed for ${providerKey}:`, error);
+                        new Notice(`${providerKey}: Refresh failed. ${error.message}`, 7000);
+                    } finally {
+                        button.setDisabled(false);
+                        tab.display();
+                    }
+                });
+        });
+}
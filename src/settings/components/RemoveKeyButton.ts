@@ -23,16 +23,13 @@ export function renderRemoveKeyButton(tab: SampleSettingTab, containerEl: HTMLEl
                             tab.workingProviders.delete(providerToDelete);
                             tab.availableModels[providerToDelete] = [];
 
-                            // Reset default/backup providers for affected categories
+                            // Drop the provider from the fallback chains of affected categories
                             Object.keys(tab.plugin.settings.categories).forEach(category => {
                                 const catSettings = tab.plugin.settings.categories[category as Category];
-                                if (catSettings.defaultProvider === providerToDelete) {
-                                    catSettings.defaultProvider = '';
-                                    new Notice(`Default provider for ${category} cleared as its key was removed.`, 3000);
-                                }
-                                if (catSettings.backupProvider === providerToDelete) {
-                                    catSettings.backupProvider = '';
-                                    new Notice(`Backup provider for ${category} cleared as its key was removed.`, 3000);
+                                const remaining = catSettings.chain.filter(link => link.provider !== providerToDelete);
+                                if (remaining.length !== catSettings.chain.length) {
+                                    catSettings.chain = remaining;
+                                    new Notice(`${providerToDelete} removed from the ${category} fallback chain as its key was removed.`, 3000);
                                 }
                             });
 
@@ -0,0 +1,63 @@
+import { Notice, Setting } from 'obsidian';
+import { SampleSettingTab } from '../settings';
+import { responseCache } from '../../core/ResponseCache';
+
+const parsePositive = (value: string): number | undefined => {
+    const number = parseFloat(value);
+    return Number.isFinite(number) && number > 0 ? number : undefined;
+};
+
+/** Response cache limits, hit statistics and a purge button */
+export function renderResponseCacheSettings(tab: SampleSettingTab, container: HTMLElement): void {
+    const settings = tab.plugin.settings.responseCache;
+    const save = async () => tab.plugin.saveSettings();
+
+    container.createEl('h3', { text: 'Response cache' });
+
+    new Setting(container)
+        .setName('Cache text responses')
+        .setDesc('Reuse answers for identical requests. Callers can still pass cache: \'use\', \'refresh\' or \'bypass\' per request.')
+        .addToggle(toggle => toggle
+            .setValue(settings.enabled)
+            .onChange(async value => {
+                settings.enabled = value;
+                await save();
+            }));
+
+    const numberSetting = (name: string, desc: string, field: 'ttlHours' | 'maxEntries' | 'maxSizeMB') => {
+        new Setting(container)
+            .setName(name)
+            .setDesc(desc)
+            .addText(text => text
+                .setValue(String(settings[field]))
+                .onChange(async value => {
+                    const parsed = parsePositive(value);
+                    if (parsed === undefined) return;
+                    settings[field] = field === 'maxEntries' ? Math.round(parsed) : parsed;
+                    await save();
+                }));
+    };
+    numberSetting('Time to live (hours)', 'Cached answers older than this are fetched again.', 'ttlHours');
+    numberSetting('Maximum entries', 'Least recently used answers are dropped past this count.', 'maxEntries');
+    numberSetting('Maximum size (MB)', 'Least recently used answers are dropped past this size.', 'maxSizeMB');
+
+    const statsSetting = new Setting(container).setName('Statistics');
+    const renderStats = async () => {
+        const stats = await responseCache.stats();
+        const lookups = stats.hits + stats.misses;
+        const hitRate = lookups ? Math.round((stats.hits / lookups) * 100) : 0;
+        statsSetting.setDesc(
+            `${stats.entries} entries (${(stats.sizeBytes / 1024).toFixed(1)} KB). `
+            + `${stats.hits} hits, ${stats.misses} misses (${hitRate}% hit rate).`
+        );
+    };
+    statsSetting.addButton(button => button
+        .setButtonText('Purge')
+        .setWarning()
+        .onClick(async () => {
+            await responseCache.purge();
+            new Notice('Response cache purged.');
+            await renderStats();
+        }));
+    renderStats().catch(error => console.error('[ResponseCacheSettings] Failed to read cache statistics:', error));
+}
@@ -0,0 +1,170 @@
+import { Setting } from 'obsidian';
+import { SampleSettingTab } from '../settings';
+import { categoryProviders } from '../defaults';
+import type { RouteCapability, RouteMatch, RoutingRule } from '../../core/router';
+
+const CAPABILITY_LABELS: Record<RouteCapability, string> = {
+    json: 'JSON mode',
+    tools: 'Tool calls',
+    vision: 'Vision',
+};
+
+const parseList = (value: string): string[] | undefined => {
+    const items = value.split(',').map(item => item.trim()).filter(Boolean);
+    return items.length ? items : undefined;
+};
+
+const parseCount = (value: string): number | undefined => {
+    const count = parseInt(value);
+    return value.trim() !== '' && Number.isFinite(count) && count >= 0 ? count : undefined;
+};
+
+/** Editor for text routing rules; rules are checked top to bottom and the first match wins */
+export function renderRoutingRules(tab: SampleSettingTab, container: HTMLElement): void {
+    const settings = tab.plugin.settings;
+    const rules = settings.routing ?? (settings.routing = []);
+    const providers = categoryProviders.text.filter(id => tab.workingProviders.has(id));
+    const save = async () => tab.plugin.saveSettings();
+
+    container.createEl('h4', { text: 'Routing rules' });
+    container.createEl('p', {
+        cls: 'setting-item-description',
+        text: 'Send matching requests to a specific provider and model. Rules are checked from top to bottom; '
+            + 'the first match goes first and the fallback chain above follows it. Requests that name a model skip routing.',
+    });
+
+    const listEl = container.createEl('div', { cls: 'routing-rules' });
+
+    const renderRules = () => {
+        listEl.empty();
+        rules.forEach((rule, index) => renderRule(listEl, rule, index));
+    };
+
+    const move = async (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= rules.length) return;
+        [rules[index], rules[target]] = [rules[target], rules[index]];
+        await save();
+        renderRules();
+    };
+
+    const renderRule = (parent: HTMLElement, rule: RoutingRule, index: number) => {
+        const ruleEl = parent.createEl('div', { cls: 'routing-rule' });
+        const updateMatch = async (changes: Partial<RouteMatch>) => {
+            rule.match = { ...rule.match, ...changes };
+            await save();
+        };
+
+        new Setting(ruleEl)
+            .setName(`Rule ${index + 1}`)
+            .addText(text => text
+                .setPlaceholder('Rule name')
+                .setValue(rule.name)
+                .onChange(async value => {
+                    rule.name = value.trim() || `Rule ${index + 1}`;
+                    await save();
+                }))
+            .addToggle(toggle => toggle
+                .setTooltip('Enabled')
+                .setValue(rule.enabled !== false)
+                .onChange(async value => {
+                    rule.enabled = value;
+                    await save();
+                }))
+            .addExtraButton(button => button
+                .setIcon('arrow-up')
+                .setTooltip('Move up')
+                .onClick(() => move(index, -1)))
+            .addExtraButton(button => button
+                .setIcon('arrow-down')
+                .setTooltip('Move down')
+                .onClick(() => move(index, 1)))
+            .addExtraButton(button => button
+                .setIcon('x')
+                .setTooltip('Remove rule')
+                .onClick(async () => {
+                    rules.splice(index, 1);
+                    await save();
+                    renderRules();
+                }));
+
+        new Setting(ruleEl)
+            .setName('Route to')
+            .setDesc('Provider and model for matching requests. Leave the model empty to use the provider\'s configured model.')
+            .addDropdown(dropdown => {
+                const options = providers.includes(rule.provider) || !rule.provider ? providers : [...providers, rule.provider];
+                dropdown.addOption('', '--- Select ---');
+                options.forEach(id => dropdown.addOption(id, tab.workingProviders.has(id) ? id : `${id} (not validated)`));
+                dropdown.setValue(rule.provider);
+                dropdown.onChange(async value => {
+                    rule.provider = value;
+                    await save();
+                });
+            })
+            .addText(text => text
+                .setPlaceholder('Model')
+                .setValue(rule.model ?? '')
+                .onChange(async value => {
+                    rule.model = value.trim() || undefined;
+                    await save();
+                }));
+
+        new Setting(ruleEl)
+            .setName('Input tokens')
+            .setDesc('Estimated prompt size (about 4 characters per token). Leave empty for no limit.')
+            .addText(text => text
+                .setPlaceholder('Min')
+                .setValue(rule.match.minInputTokens?.toString() ?? '')
+                .onChange(async value => updateMatch({ minInputTokens: parseCount(value) })))
+            .addText(text => text
+                .setPlaceholder('Max')
+                .setValue(rule.match.maxInputTokens?.toString() ?? '')
+                .onChange(async value => updateMatch({ maxInputTokens: parseCount(value) })));
+
+        new Setting(ruleEl)
+            .setName('Tags')
+            .setDesc('Comma-separated. Matches requests whose `tag` option is one of these.')
+            .addText(text => text
+                .setPlaceholder('summarize, classify')
+                .setValue(rule.match.tags?.join(', ') ?? '')
+                .onChange(async value => updateMatch({ tags: parseList(value) })));
+
+        new Setting(ruleEl)
+            .setName('Plugin IDs')
+            .setDesc('Comma-separated. Matches requests whose `pluginId` option is one of these.')
+            .addText(text => text
+                .setPlaceholder('my-plugin')
+                .setValue(rule.match.pluginIds?.join(', ') ?? '')
+                .onChange(async value => updateMatch({ pluginIds: parseList(value) })));
+
+        const requiresSetting = new Setting(ruleEl)
+            .setName('Requires')
+            .setDesc('Matches only requests that need all ticked capabilities.');
+        (Object.keys(CAPABILITY_LABELS) as RouteCapability[]).forEach(capability => {
+            const label = requiresSetting.controlEl.createEl('label', { cls: 'routing-rule-capability' });
+            const checkbox = label.createEl('input', { type: 'checkbox' });
+            checkbox.checked = rule.match.requires?.includes(capability) ?? false;
+            label.appendText(` ${CAPABILITY_LABELS[capability]}`);
+            checkbox.addEventListener('change', async () => {
+                const current = new Set(rule.match.requires ?? []);
+                if (checkbox.checked) {
+                    current.add(capability);
+                } else {
+                    current.delete(capability);
+                }
+                await updateMatch({ requires: current.size ? Array.from(current) : undefined });
+            });
+        });
+    };
+
+    renderRules();
+
+    new Setting(container)
+        .addButton(button => button
+            .setButtonText('Add rule')
+            .onClick(async () => {
+                rules.push({ name: `Rule ${rules.length + 1}`, match: {}, provider: providers[0] ?? '' });
+                await save();
+                renderRules();
+            }));
+}
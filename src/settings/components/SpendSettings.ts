@@ -0,0 +1,201 @@
+import { Notice, Setting } from 'obsidian';
+import { SampleSettingTab } from '../settings';
+import { providerMetadata } from '../providers/index';
+import { dayKey, monthKey, spendTracker, type SpendBudget } from '../../core/SpendTracker';
+import { DEFAULT_PRICES, type ModelPrice } from '../../core/pricing';
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 4 : 2)}`;
+
+const parseAmount = (value: string): number | undefined => {
+    const amount = parseFloat(value);
+    return value.trim() !== '' && Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+/** Month-to-date spend, monthly budgets and the editable price table */
+export function renderSpendSettings(tab: SampleSettingTab, container: HTMLElement): void {
+    const settings = tab.plugin.settings;
+    const save = async () => tab.plugin.saveSettings();
+
+    container.createEl('h3', { text: 'Spend and budgets' });
+    renderSummary(tab, container);
+
+    // --- Budgets ---
+    container.createEl('h4', { text: 'Monthly budgets' });
+    container.createEl('p', {
+        cls: 'setting-item-description',
+        text: 'Soft budgets only warn. Hard budgets make the gateway refuse requests once reached; '
+            + 'a capped provider falls back along the chain unless its fallback rules exclude budget caps.',
+    });
+
+    new Setting(container)
+        .setName('Warn at')
+        .setDesc('Percentage of a budget at which to show a warning.')
+        .addText(text => text
+            .setValue(String(settings.budgets.warnAtPercent))
+            .onChange(async value => {
+                const percent = parseAmount(value);
+                if (percent === undefined || percent > 100) return;
+                settings.budgets.warnAtPercent = percent;
+                await save();
+            }));
+
+    const budgetSetting = (name: string, budget: SpendBudget | undefined, update: (budget: SpendBudget | undefined) => void) => {
+        let current = budget;
+        new Setting(container)
+            .setName(name)
+            .setDesc('USD per month. Leave empty for no budget.')
+            .addText(text => text
+                .setPlaceholder('No budget')
+                .setValue(current ? String(current.limit) : '')
+                .onChange(async value => {
+                    const limit = parseAmount(value);
+                    current = limit === undefined ? undefined : { limit, hard: current?.hard ?? false };
+                    update(current);
+                    await save();
+                }))
+            .addToggle(toggle => toggle
+                .setTooltip('Hard cap: refuse requests once reached')
+                .setValue(current?.hard ?? false)
+                .onChange(async value => {
+                    if (!current) return;
+                    current.hard = value;
+                    update(current);
+                    await save();
+                }));
+    };
+
+    budgetSetting('All providers', settings.budgets.total, budget => {
+        settings.budgets.total = budget;
+    });
+    Object.keys(providerMetadata).forEach(provider => {
+        budgetSetting(provider, settings.budgets.providers[provider], budget => {
+            if (budget) {
+                settings.budgets.providers[provider] = budget;
+            } else {
+                delete settings.budgets.providers[provider];
+            }
+        });
+    });
+
+    renderPriceOverrides(tab, container);
+}
+
+function renderSummary(tab: SampleSettingTab, container: HTMLElement) {
+    const month = monthKey();
+    const summary = spendTracker.summary(month);
+    const today = summary.byDay[dayKey()] ?? 0;
+
+    new Setting(container)
+        .setName(`This month (${month})`)
+        .setDesc(`${formatUsd(summary.total)} across ${summary.requests} request(s). Today: ${formatUsd(today)}.`)
+        .addButton(button => button
+            .setButtonText('Clear history')
+            .setWarning()
+            .onClick(async () => {
+                await spendTracker.clear();
+                new Notice('Spend history cleared.');
+                tab.display();
+            }));
+
+    const table = container.createEl('table', { cls: 'spend-summary' });
+    const header = table.createEl('tr');
+    ['By provider', 'Spend'].forEach(text => header.createEl('th', { text }));
+    const addRows = (totals: Record<string, number>) => {
+        Object.keys(totals)
+            .sort((a, b) => totals[b] - totals[a])
+            .forEach(key => {
+                const row = table.createEl('tr');
+                row.createEl('td', { text: key });
+                row.createEl('td', { text: formatUsd(totals[key]) });
+            });
+    };
+    addRows(summary.byProvider);
+    const categoryHeader = table.createEl('tr');
+    ['By category', 'Spend'].forEach(text => categoryHeader.createEl('th', { text }));
+    addRows(summary.byCategory);
+}
+
+/** Prices in USD per million tokens; overrides win over the built-in table */
+function renderPriceOverrides(tab: SampleSettingTab, container: HTMLElement) {
+    const overrides = tab.plugin.settings.priceOverrides;
+    const save = async () => tab.plugin.saveSettings();
+
+    const details = container.createEl('details');
+    details.createEl('summary', { text: 'Model prices' });
+    details.createEl('p', {
+        cls: 'setting-item-description',
+        text: 'USD per million input and output tokens. Built-in prices cover common models; add a row to '
+            + 'price another model or correct a built-in price. A model name also matches longer names it is a prefix of.',
+    });
+
+    const listEl = details.createEl('div');
+    const renderRows = () => {
+        listEl.empty();
+        Object.keys(overrides).forEach(provider => {
+            Object.keys(overrides[provider]).forEach(model => renderRow(provider, model, overrides[provider][model]));
+        });
+    };
+
+    const renderRow = (provider: string, model: string, price: ModelPrice) => {
+        new Setting(listEl)
+            .setName(`${provider} / ${model || '(any model)'}`)
+            .addText(text => text
+                .setPlaceholder('Input')
+                .setValue(String(price.input))
+                .onChange(async value => {
+                    const amount = parseAmount(value);
+                    if (amount === undefined) return;
+                    price.input = amount;
+                    await save();
+                }))
+            .addText(text => text
+                .setPlaceholder('Output')
+                .setValue(String(price.output))
+                .onChange(async value => {
+                    const amount = parseAmount(value);
+                    if (amount === undefined) return;
+                    price.output = amount;
+                    await save();
+                }))
+            .addExtraButton(button => button
+                .setIcon('x')
+                .setTooltip('Remove price')
+                .onClick(async () => {
+                    delete overrides[provider][model];
+                    if (Object.keys(overrides[provider]).length === 0) delete overrides[provider];
+                    await save();
+                    renderRows();
+                }));
+    };
+
+    renderRows();
+
+    let newProvider = Object.keys(providerMetadata)[0] ?? '';
+    let newModel = '';
+    new Setting(details)
+        .setName('Add price')
+        .addDropdown(dropdown => {
+            Object.keys(providerMetadata).forEach(id => dropdown.addOption(id, id));
+            dropdown.setValue(newProvider).onChange(value => {
+                newProvider = value;
+            });
+        })
+        .addText(text => text
+            .setPlaceholder('Model or prefix')
+            .onChange(value => {
+                newModel = value.trim();
+            }))
+        .addButton(button => button
+            .setButtonText('Add')
+            .onClick(async () => {
+                if (!newModel) {
+                    new Notice('Enter a model name.');
+                    return;
+                }
+                const builtIn = DEFAULT_PRICES[newProvider]?.[newModel];
+                const prices = overrides[newProvider] ?? (overrides[newProvider] = {});
+                prices[newModel] = builtIn ? { ...builtIn } : { input: 0, output: 0 };
+                await save();
+                renderRows();
+            }));
+}
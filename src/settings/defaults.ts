@@ -1,12 +1,18 @@
 import { Category, ProviderConfig, MyPluginSettings } from './types';
 import { providerMetadata } from './providers/index';
+import { DEFAULT_RESPONSE_CACHE_SETTINGS } from '../core/ResponseCache';
+import { DEFAULT_PROVIDER_LIMITS } from '../core/scheduler';
+import { DEFAULT_BUDGET_SETTINGS } from '../core/SpendTracker';
+import { DEFAULT_OLLAMA_HOST } from '../adapters/base/OllamaBaseAdapter';
 
 // Define supported providers per category
 export const categoryProviders: Record<Category, string[]> = {
     text: ['openai', 'anthropic', 'groq', 'gemini', 'openrouter', 'grok', 'local'],
     image: ['openai', 'stabilityai', 'grok'],
+    embedding: ['openai', 'gemini', 'local'],
+    vision: ['openai', 'anthropic', 'gemini', 'grok', 'local'],
     video: [], // No providers yet; placeholder for future
-    audio: [], // No providers yet
+    audio: ['openai', 'groq', 'local'],
     ocr: [], // No providers yet
     '3D': ['stabilityai'] // Added 3D category with stabilityai as a provider
 };
@@ -14,17 +20,37 @@ export const categoryProviders: Record<Category, string[]> = {
 // Dynamically generate DEFAULT_SETTINGS
 export const DEFAULT_SETTINGS: MyPluginSettings = {
     categories: {
-        text: { defaultProvider: 'openai', backupProvider: '' },
-        image: { defaultProvider: 'openai', backupProvider: '' },
-        video: { defaultProvider: '', backupProvider: '' },
-        audio: { defaultProvider: '', backupProvider: '' },
-        ocr: { defaultProvider: '', backupProvider: '' },
-        '3D': { defaultProvider: '', backupProvider: '' }
+        text: { chain: [{ provider: 'openai' }] },
+        image: { chain: [{ provider: 'openai' }] },
+        embedding: { chain: [{ provider: 'openai' }] },
+        vision: { chain: [{ provider: 'openai' }] },
+        video: { chain: [] },
+        audio: { chain: [] },
+        ocr: { chain: [] },
+        '3D': { chain: [] }
     },
     providers: Object.keys(providerMetadata).reduce((acc, key) => {
         acc[key] = {
             model: providerMetadata[key].defaultModel
         };
         return acc;
-    }, {} as Record<string, ProviderConfig>)
+    }, {} as Record<string, ProviderConfig>),
+    responseCache: { ...DEFAULT_RESPONSE_CACHE_SETTINGS },
+    rateLimits: DEFAULT_PROVIDER_LIMITS,
+    budgets: DEFAULT_BUDGET_SETTINGS,
+    priceOverrides: {},
+    network: {
+        proxyUrl: ''
+    },
+    ollama: {
+        host: DEFAULT_OLLAMA_HOST,
+        keepAlive: '5m'
+    },
+    // Kokoro-FastAPI and whisper.cpp's example server on their default ports
+    localSpeech: {
+        ttsUrl: 'http://localhost:8880/v1',
+        ttsModel: 'kokoro',
+        ttsVoice: 'af_heart',
+        sttUrl: 'http://localhost:8080'
+    }
 };
@@ -7,6 +7,7 @@ import { OpenAIBaseAdapter } from '../../adapters/base/OpenAIBaseAdapter';
 import { OpenRouterBaseAdapter } from '../../adapters/base/OpenRouterBaseAdapter';
 import { StabilityAIBaseAdapter } from '../../adapters/base/StabilityAIBaseAdapter';
 import { fetchLocalModels } from './local';
+import type { MyPluginSettings } from '../types';
 
 export interface ProviderMetadata {
     key: string;
@@ -19,19 +20,21 @@ export const providerMetadata: Record<string, ProviderMetadata> = {
     local: { key: 'local', defaultModel: 'llama2', requiresApiKey: false },
     anthropic: { key: 'anthropic', defaultModel: 'claude-3-opus-20240229', requiresApiKey: true },
     groq: { key: 'groq', defaultModel: 'mixtral-8x7b-32768', requiresApiKey: true },
-    gemini: { key: 'gemini', defaultModel: 'models/gemini-pro', requiresApiKey: true },
+    gemini: { key: 'gemini', defaultModel: 'gemini-1.5-flash', requiresApiKey: true },
     openrouter: { key: 'openrouter', defaultModel: 'openrouter/google/gemma-7b-it', requiresApiKey: true },
     grok: { key: 'grok', defaultModel: 'grok-1', requiresApiKey: true },
-    stabilityai: { key: 'stabilityai', defaultModel: 'stable-diffusion-xl-v1', requiresApiKey: true }
+    stabilityai: { key: 'stabilityai', defaultModel: 'stable-image-core', requiresApiKey: true }
 };
 
-type FetchFunction = (apiKey: string, app?: App) => Promise<string[]>;
+type FetchFunction = (apiKey: string, app?: App, settings?: MyPluginSettings) => Promise<string[]>;
 
 export const providerFetchers: Record<string, FetchFunction> = {
     openai: async (apiKey: string) => {
         return await OpenAIBaseAdapter.fetchModels(apiKey);
     },
-    local: fetchLocalModels,
+    local: async (apiKey: string, app?: App, settings?: MyPluginSettings) => {
+        return await fetchLocalModels(settings?.ollama.host);
+    },
     anthropic: async (apiKey: string) => {
         return await AnthropicBaseAdapter.fetchModels(apiKey);
     },
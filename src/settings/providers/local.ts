@@ -1,13 +1,15 @@
 import { requestUrl } from 'obsidian';
+import { DEFAULT_OLLAMA_HOST } from '../../adapters/base/OllamaBaseAdapter';
 
-export async function fetchLocalModels(): Promise<string[]> {
+export async function fetchLocalModels(host = DEFAULT_OLLAMA_HOST): Promise<string[]> {
+	const baseUrl = host.replace(/\/+$/, '');
 	try {
 		// Check if Ollama is running
-		await requestUrl({ url: 'http://localhost:11434', method: 'GET' });
-		const response = await requestUrl({ url: 'http://localhost:11434/api/tags', method: 'GET' });
+		await requestUrl({ url: baseUrl, method: 'GET' });
+		const response = await requestUrl({ url: `${baseUrl}/api/tags`, method: 'GET' });
 		return response.json.models?.map((m: any) => m.name).sort() ?? [];
 	} catch (err) {
 		console.error('[Local] Model fetch error:', err);
-		throw new Error("Unable to connect to Ollama at http://localhost:11434");
+		throw new Error(`Unable to connect to Ollama at ${baseUrl}`);
 	}
-}
\ No newline at end of file
+}
@@ -5,6 +5,9 @@ import { validateAllStoredSecrets } from './validation';
 import { renderCategoryTabs } from './components/CategoryTabs';
 import { renderProviderSelector } from './components/ProviderSelector';
 import { renderProviderConfig } from './components/ProviderConfig';
+import { renderResponseCacheSettings } from './components/ResponseCacheSettings';
+import { renderSpendSettings } from './components/SpendSettings';
+import { renderNetworkSettings } from './components/NetworkSettings';
 import { ensureProviderConfigExists } from './utils';
 import { providerMetadata } from './providers/index';
 import { DEFAULT_SETTINGS } from './defaults';
@@ -25,7 +28,7 @@ export class SampleSettingTab extends PluginSettingTab {
 
         // Initialize selected provider
         const firstCategory = 'text';
-        const defaultProvider = this.plugin.settings.categories[firstCategory].defaultProvider;
+        const defaultProvider = this.plugin.settings.categories[firstCategory].chain[0]?.provider;
         if (defaultProvider && providerMetadata[defaultProvider]) {
             this.selectedProviderKey = defaultProvider;
         } else if (Object.keys(providerMetadata).length > 0) {
@@ -63,5 +66,9 @@ export class SampleSettingTab extends PluginSettingTab {
         } else {
             containerEl.createEl('p', { text: 'Please select a provider to configure.' });
         }
+
+        renderResponseCacheSettings(this, containerEl);
+        renderSpendSettings(this, containerEl);
+        renderNetworkSettings(this, containerEl);
     }
 }
\ No newline at end of file
@@ -1,15 +1,71 @@
-export type Category = 'text' | 'image' | 'video' | 'audio' | 'ocr' | '3D';
+import type { RetryPolicy } from '../core/retry';
+import type { ModelCatalogData } from '../core/ModelCatalog';
+import type { FallbackLink } from '../core/Gateway';
+import type { RoutingRule } from '../core/router';
+import type { ResponseCacheSettings } from '../core/ResponseCache';
+import type { ProviderLimits } from '../core/scheduler';
+import type { BudgetSettings, SpendLedger } from '../core/SpendTracker';
+import type { PriceTable } from '../core/pricing';
+
+export type Category = 'text' | 'image' | 'embedding' | 'vision' | 'video' | 'audio' | 'ocr' | '3D';
 
 export interface ProviderConfig {
     model: string;
 }
 
+export interface NetworkSettings {
+    /** Debugging proxy every request is sent through; empty for direct requests */
+    proxyUrl: string;
+}
+
+/** How the `local` provider talks to Ollama */
+export interface OllamaSettings {
+    /** Base URL of the Ollama server */
+    host: string;
+    /** How long Ollama keeps a model loaded after a request, e.g. '5m'; '-1' keeps it loaded */
+    keepAlive: string;
+    /** Context window in tokens; the model's own default when unset */
+    numCtx?: number;
+}
+
+/** Servers the `local` provider uses for audio */
+export interface LocalSpeechSettings {
+    /** Base URL of an OpenAI-compatible text-to-speech server, including `/v1` */
+    ttsUrl: string;
+    ttsModel: string;
+    /** Used when a request names no voice; local servers rarely know OpenAI's voice names */
+    ttsVoice: string;
+    /** Base URL of a whisper.cpp server */
+    sttUrl: string;
+}
+
 export interface CategorySettings {
-    defaultProvider: string;
-    backupProvider: string;
+    /** Providers tried in order until one succeeds */
+    chain: FallbackLink[];
+    /** @deprecated Migrated into `chain` on load */
+    defaultProvider?: string;
+    /** @deprecated Migrated into `chain` on load */
+    backupProvider?: string;
+    /** Overrides for DEFAULT_RETRY_POLICY; missing fields use the defaults */
+    retry?: Partial<RetryPolicy>;
 }
 
 export interface MyPluginSettings {
     categories: Record<Category, CategorySettings>;
     providers: Record<string, ProviderConfig>;
+    /** Text routing rules, checked in order; the first match wins */
+    routing?: RoutingRule[];
+    /** Cached model lists per provider, maintained by the ModelCatalog */
+    modelCatalog?: ModelCatalogData;
+    responseCache: ResponseCacheSettings;
+    /** Per-provider request limits enforced by the gateway scheduler */
+    rateLimits: Record<string, ProviderLimits>;
+    budgets: BudgetSettings;
+    /** Prices per model in USD per million tokens, on top of the built-in table */
+    priceOverrides: PriceTable;
+    network: NetworkSettings;
+    ollama: OllamaSettings;
+    localSpeech: LocalSpeechSettings;
+    /** Recorded spend, maintained by the SpendTracker */
+    spendLedger?: SpendLedger;
 }
\ No newline at end of file
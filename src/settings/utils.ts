@@ -1,6 +1,6 @@
 import { SampleSettingTab } from './settings';
 import { providerMetadata } from './providers/index';
-import { ProviderConfig } from './types';
+import { Category, MyPluginSettings, ProviderConfig } from './types';
 
 export function ensureProviderConfigExists(tab: SampleSettingTab, providerKey: string): ProviderConfig | undefined {
     if (!providerKey) return undefined;
@@ -24,10 +24,31 @@ export function getTabIcon(category: string): string {
     const tabIcons: Record<string, string> = {
         text: 'text',
         image: 'image',
+        embedding: 'binary',
+        vision: 'eye',
         video: 'video',
         audio: 'volume-2',
         ocr: 'scan',
         '3D': 'cube'
     };
     return tabIcons[category] || 'circle';
-}
\ No newline at end of file
+}
+
+/**
+ * Converts categories saved before fallback chains existed (one default and
+ * one backup provider) into chains. Returns true if anything changed.
+ */
+export function migrateFallbackChains(settings: MyPluginSettings): boolean {
+    let changed = false;
+    (Object.keys(settings.categories) as Category[]).forEach(category => {
+        const { defaultProvider, backupProvider, ...rest } = settings.categories[category];
+        if (Array.isArray(rest.chain)) return;
+
+        const providers = [defaultProvider, backupProvider]
+            .filter((provider, index, list): provider is string => !!provider && list.indexOf(provider) === index);
+        settings.categories[category] = { ...rest, chain: providers.map(provider => ({ provider })) };
+        console.log(`[Settings] Migrated ${category} providers to a fallback chain:`, providers);
+        changed = true;
+    });
+    return changed;
+}
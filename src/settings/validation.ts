@@ -2,6 +2,7 @@ import { Notice } from 'obsidian'; // Added import for Notice
 import { SampleSettingTab } from './settings';
 import { providerFetchers, providerMetadata } from './providers/index';
 import { ensureProviderConfigExists } from './utils'; // Fixed import
+import { modelCatalog } from '../core/ModelCatalog';
 
 export async function validateAllStoredSecrets(tab: SampleSettingTab): Promise<void> {
     if (tab.isValidating) return;
@@ -107,10 +108,12 @@ export async function validateAllStoredSecrets(tab: SampleSettingTab): Promise<v
     tab.display();
 }
 
+/** Uses the cached model list unless it is stale or `forceRefresh` is set */
 export async function fetchAvailableModels(
     tab: SampleSettingTab,
     providerKey: string,
-    apiKey: string | undefined
+    apiKey: string | undefined,
+    forceRefresh = false
 ): Promise<string[]> {
     const fetcher = providerFetchers[providerKey];
     const meta = providerMetadata[providerKey];
@@ -130,7 +133,9 @@ export async function fetchAvailableModels(
     }
 
     try {
-        const models = await fetcher(apiKey || '', tab.plugin.app);
+        const models = forceRefresh
+            ? await modelCatalog.refresh(providerKey, apiKey || '')
+            : await modelCatalog.getModels(providerKey, apiKey || '');
         return Array.isArray(models) ? models : [];
     } catch (err) {
         console.error(`[${providerKey}] Model fetch error during fetchAvailableModels:`, err);
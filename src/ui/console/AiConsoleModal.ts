@@ -85,6 +85,8 @@ export class AiConsoleModal extends Modal {
   }
 
   onClose() {
+    // Stop requests still in flight so they don't keep running after the modal is gone
+    this.tabs.forEach(tab => tab.cancel?.());
     this.tabComponent.cleanup();
     console.log('[AiConsoleModal] Modal closed.');
   }
@@ -96,5 +98,7 @@ interface ConsoleTab {
   icon: string;
   render(container: HTMLElement): void;
   cleanup(): void;
+  /** Aborts any request the tab has in flight */
+  cancel?(): void;
   renderHistory?(history: BaseHistoryEntry[]): void;
 }
\ No newline at end of file
@@ -0,0 +1,32 @@
+// src/ui/console/errorMessages.ts
+import { ProviderError } from '../../core/errors';
+
+/** Short, user-facing explanation of a failed request for Notices and output panes */
+export function describeError(error: unknown): string {
+  if (!(error instanceof ProviderError)) {
+    return error instanceof Error ? error.message || 'Unknown error' : String(error);
+  }
+
+  switch (error.code) {
+    case 'auth':
+      return `${error.provider} rejected the API key. Verify it in the plugin settings.`;
+    case 'rate_limit':
+      return error.retryAfterMs
+        ? `${error.provider} rate limit exceeded. Try again in ${Math.ceil(error.retryAfterMs / 1000)}s.`
+        : `${error.provider} rate limit exceeded. Try again later.`;
+    case 'quota':
+      return `${error.provider} quota or credits exhausted. Check your account billing.`;
+    case 'content_filtered':
+      return `${error.provider} blocked the prompt under its content policy. Please revise it.`;
+    case 'invalid_request':
+      return `${error.details ?? error.message}. Check model parameters.`;
+    case 'network':
+      return `Could not reach ${error.provider}. Check your connection.`;
+    case 'timeout':
+      return `${error.provider} took too long to respond. Try again.`;
+    case 'budget':
+      return `${error.message} Raise the cap in the plugin settings to continue.`;
+    default:
+      return error.message;
+  }
+}
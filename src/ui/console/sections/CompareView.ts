@@ -0,0 +1,213 @@
+// src/ui/console/sections/CompareView.ts
+import { App, Notice, moment } from 'obsidian';
+import type { MyPluginSettings } from '../../../settings/types';
+import type { LLMResponse } from '../../../core/Adapter';
+import type { FanOutResult, FanOutTarget } from '../../../core/Gateway';
+import { modelCatalog } from '../../../core/ModelCatalog';
+import { estimateCost, formatCost } from '../../../core/pricing';
+import { spendTracker } from '../../../core/SpendTracker';
+import { describeError } from '../errorMessages';
+
+const MAX_TARGETS = 4;
+
+interface Comparison {
+  prompt: string;
+  parameters: Record<string, unknown>;
+  results: FanOutResult<LLMResponse>[];
+}
+
+/** Picks up to four provider/model pairs and shows their answers to one prompt side by side */
+export class CompareView {
+  private targets: FanOutTarget[] = [];
+  private providers: string[] = [];
+  private targetsEl: HTMLElement;
+  private columnsEl: HTMLElement;
+  private saveBtn: HTMLButtonElement;
+  private comparison?: Comparison;
+
+  constructor(private app: App, private settings: MyPluginSettings) {}
+
+  render(targetsContainer: HTMLElement, outputContainer: HTMLElement) {
+    this.targetsEl = targetsContainer.createEl('div', { cls: 'ai-console-compare-targets' });
+
+    const outputSection = outputContainer.createEl('div', { cls: 'ai-console-output-section' });
+    const header = outputSection.createEl('div', { cls: 'ai-console-compare-header' });
+    header.createEl('h4', { text: 'Comparison' });
+    this.saveBtn = header.createEl('button', { text: 'Save as note' });
+    this.saveBtn.disabled = true;
+    this.saveBtn.addEventListener('click', () => this.saveAsNote());
+    this.columnsEl = outputSection.createEl('div', { cls: 'ai-console-compare-columns' });
+  }
+
+  /** Providers the gateway can call; the first two become the initial targets */
+  setProviders(providers: string[]) {
+    this.providers = providers;
+    if (this.targets.length === 0) {
+      this.targets = providers.slice(0, 2).map(provider => ({ provider, model: this.settings.providers[provider]?.model }));
+    }
+    this.renderTargets();
+  }
+
+  getTargets(): FanOutTarget[] {
+    return this.targets.filter(target => target.provider);
+  }
+
+  private renderTargets() {
+    this.targetsEl.empty();
+    this.targetsEl.createEl('h4', { text: 'Compare' });
+
+    this.targets.forEach((target, index) => {
+      const row = this.targetsEl.createEl('div', { cls: 'ai-console-compare-target' });
+
+      const providerSelect = row.createEl('select', { cls: 'dropdown' });
+      this.providers.forEach(p => providerSelect.add(new Option(p, p)));
+      providerSelect.value = target.provider;
+
+      const modelSelect = row.createEl('select', { cls: 'dropdown' });
+      this.fillModels(modelSelect, target);
+
+      providerSelect.addEventListener('change', () => {
+        target.provider = providerSelect.value;
+        target.model = this.settings.providers[target.provider]?.model;
+        this.fillModels(modelSelect, target);
+      });
+      modelSelect.addEventListener('change', () => {
+        target.model = modelSelect.value || undefined;
+      });
+
+      const removeBtn = row.createEl('button', { text: 'Remove' });
+      removeBtn.addEventListener('click', () => {
+        this.targets.splice(index, 1);
+        this.renderTargets();
+      });
+    });
+
+    const addBtn = this.targetsEl.createEl('button', { text: 'Add model' });
+    addBtn.disabled = this.targets.length >= MAX_TARGETS || this.providers.length === 0;
+    addBtn.addEventListener('click', () => {
+      const provider = this.providers[0];
+      this.targets.push({ provider, model: this.settings.providers[provider]?.model });
+      this.renderTargets();
+    });
+  }
+
+  private async fillModels(select: HTMLSelectElement, target: FanOutTarget) {
+    select.innerHTML = '';
+    let models: string[] = [];
+    try {
+      models = await modelCatalog.getModels(target.provider);
+    } catch (error) {
+      console.error('[CompareView] Error fetching models for', target.provider, ':', error);
+    }
+    if (target.model && !models.includes(target.model)) models.unshift(target.model);
+    if (!models.length) {
+      select.add(new Option('Configured model', ''));
+      return;
+    }
+    models.forEach(m => select.add(new Option(m, m)));
+    select.value = target.model ?? models[0];
+    target.model = select.value;
+  }
+
+  /** Shows a placeholder column per target while the requests run */
+  showPending(targets: FanOutTarget[]) {
+    this.comparison = undefined;
+    this.saveBtn.disabled = true;
+    this.columnsEl.empty();
+    targets.forEach(target => {
+      const column = this.createColumn(target);
+      column.createEl('div', { cls: 'ai-console-output', text: 'Generating...' });
+    });
+  }
+
+  showResults(prompt: string, parameters: Record<string, unknown>, results: FanOutResult<LLMResponse>[]) {
+    this.comparison = { prompt, parameters, results };
+    this.saveBtn.disabled = false;
+    this.columnsEl.empty();
+
+    results.forEach(result => {
+      const column = this.createColumn(result);
+      const stats = column.createEl('div', { cls: 'ai-console-compare-stats' });
+      stats.createEl('span', { text: `${result.latencyMs} ms` });
+      stats.createEl('span', { text: formatTokens(result.value) });
+      stats.createEl('span', { text: formatCost(costOf(result)) });
+      column.createEl('div', {
+        cls: 'ai-console-output',
+        text: result.value ? result.value.output.trim() : `Error: ${describeError(result.error)}`,
+      });
+    });
+  }
+
+  private createColumn(target: FanOutTarget): HTMLElement {
+    const column = this.columnsEl.createEl('div', { cls: 'ai-console-compare-column' });
+    column.createEl('div', { cls: 'ai-console-compare-title', text: targetLabel(target) });
+    return column;
+  }
+
+  private async saveAsNote() {
+    const comparison = this.comparison;
+    if (!comparison) return;
+
+    const path = `Model comparison ${moment().format('YYYY-MM-DD HHmmss')}.md`;
+    try {
+      const file = await this.app.vault.create(path, toMarkdown(comparison));
+      await this.app.workspace.getLeaf(true).openFile(file);
+      new Notice(`Saved comparison to ${path}`);
+    } catch (error) {
+      console.error('[CompareView] Failed to save comparison:', error);
+      new Notice(`Failed to save comparison: ${describeError(error)}`);
+    }
+  }
+
+  clear() {
+    this.comparison = undefined;
+    this.saveBtn.disabled = true;
+    this.columnsEl.empty();
+  }
+
+  cleanup() {
+    this.comparison = undefined;
+  }
+}
+
+function targetLabel(target: FanOutTarget): string {
+  return target.model ? `${target.provider} / ${target.model}` : target.provider;
+}
+
+function costOf(result: FanOutResult<LLMResponse>): number | undefined {
+  const value = result.value;
+  if (!value) return undefined;
+  return value.costUsd ?? estimateCost(result.provider, value.model ?? result.model ?? '', value.usage, spendTracker.priceTable());
+}
+
+function formatTokens(value: LLMResponse | undefined): string {
+  const usage = value?.usage;
+  if (usage?.promptTokens !== undefined || usage?.completionTokens !== undefined) {
+    return `${usage?.promptTokens ?? '?'} in / ${usage?.completionTokens ?? '?'} out`;
+  }
+  return value?.tokensUsed ? `${value.tokensUsed} tokens` : 'tokens n/a';
+}
+
+function toMarkdown({ prompt, parameters, results }: Comparison): string {
+  const lines = [
+    '# Model comparison',
+    '',
+    `Run ${moment().format('YYYY-MM-DD HH:mm')} with \`${JSON.stringify(parameters)}\``,
+    '',
+    '## Prompt',
+    '',
+    ...prompt.split('\n').map(line => `> ${line}`),
+    '',
+    '| Provider | Model | Latency | Tokens | Cost |',
+    '| --- | --- | --- | --- | --- |',
+    ...results.map(result =>
+      `| ${result.provider} | ${result.value?.model ?? result.model ?? ''} | ${result.latencyMs} ms | ${formatTokens(result.value)} | ${formatCost(costOf(result))} |`
+    ),
+  ];
+
+  results.forEach(result => {
+    lines.push('', `## ${targetLabel(result)}`, '');
+    lines.push(result.value ? result.value.output.trim() : `*Error: ${describeError(result.error)}*`);
+  });
+  return lines.join('\n') + '\n';
+}
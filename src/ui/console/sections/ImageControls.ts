@@ -1,16 +1,25 @@
 import { Setting } from 'obsidian';
+import {
+  STABILITY_ASPECT_RATIOS,
+  STABILITY_IMAGE_MODELS,
+  STABILITY_STYLE_PRESETS,
+} from '../../../adapters/base/StabilityAIBaseAdapter';
 
 export class ImageControls {
   private sizeDropdown: HTMLSelectElement;
   private nImagesInput: HTMLInputElement;
   private qualityDropdown: HTMLSelectElement;
   private outputFormatDropdown: HTMLSelectElement;
+  // Stability AI only
+  private aspectRatioDropdown: HTMLSelectElement;
+  private stylePresetDropdown: HTMLSelectElement;
+  private negativePromptInput: HTMLInputElement;
+  private seedInput: HTMLInputElement;
 
   private modelSizes: Record<string, string[]> = {
     'dall-e-3': ['1024x1024', '1792x1024', '1024x1792'],
     'dall-e-2': ['256x256', '512x512', '1024x1024'],
     'gpt-image-1': ['1024x1024', '1536x1024', '1024x1536'],
-    'stable-diffusion': ['512x512', '1024x1024'],
     'grok-2-image-1212': ['1024x1024'],
   };
 
@@ -18,7 +27,6 @@ export class ImageControls {
     'dall-e-3': 1,
     'dall-e-2': 10,
     'gpt-image-1': 10,
-    'stable-diffusion': 4,
     'grok-2-image-1212': 10,
   };
 
@@ -26,7 +34,6 @@ export class ImageControls {
     'dall-e-3': ['standard', 'hd'],
     'dall-e-2': [],
     'gpt-image-1': ['low', 'medium', 'high', 'auto'],
-    'stable-diffusion': [],
     'grok-2-image-1212': ['standard'],
   };
 
@@ -34,7 +41,6 @@ export class ImageControls {
     'dall-e-3': ['png'],
     'dall-e-2': ['png'],
     'gpt-image-1': ['png', 'jpeg', 'webp'],
-    'stable-diffusion': ['png'],
     'grok-2-image-1212': ['jpeg'],
   };
 
@@ -72,9 +78,55 @@ export class ImageControls {
         this.outputFormatDropdown = dropdown.selectEl;
       })
       .controlEl.style.flex = '0 0 auto';
+
+    new Setting(controlsRow)
+      .setName('Aspect Ratio')
+      .addDropdown(dropdown => {
+        this.aspectRatioDropdown = dropdown.selectEl;
+        STABILITY_ASPECT_RATIOS.forEach(ratio => dropdown.addOption(ratio, ratio));
+      })
+      .controlEl.style.flex = '0 0 auto';
+
+    new Setting(controlsRow)
+      .setName('Style')
+      .addDropdown(dropdown => {
+        this.stylePresetDropdown = dropdown.selectEl;
+        dropdown.addOption('', 'None');
+        STABILITY_STYLE_PRESETS.forEach(preset => dropdown.addOption(preset, preset));
+      })
+      .controlEl.style.flex = '0 0 auto';
+
+    new Setting(controlsRow)
+      .setName('Seed')
+      .addText(text => {
+        this.seedInput = text.inputEl;
+        this.seedInput.type = 'number';
+        this.seedInput.min = '0';
+        this.seedInput.placeholder = 'Random';
+        this.seedInput.style.width = '100px';
+      })
+      .controlEl.style.flex = '0 0 auto';
+
+    new Setting(controlsRow)
+      .setName('Negative Prompt')
+      .addText(text => {
+        this.negativePromptInput = text.inputEl;
+        text.setPlaceholder('What to leave out');
+      });
+  }
+
+  private static settingEl(control: HTMLElement): HTMLElement {
+    return control.parentElement?.parentElement as HTMLElement;
   }
 
   updateControls(model: string) {
+    const stability = STABILITY_IMAGE_MODELS[model];
+    ImageControls.settingEl(this.sizeDropdown).style.display = stability ? 'none' : 'block';
+    ImageControls.settingEl(this.aspectRatioDropdown).style.display = stability ? 'block' : 'none';
+    ImageControls.settingEl(this.seedInput).style.display = stability ? 'block' : 'none';
+    ImageControls.settingEl(this.stylePresetDropdown).style.display = stability?.stylePreset ? 'block' : 'none';
+    ImageControls.settingEl(this.negativePromptInput).style.display = stability?.negativePrompt ? 'block' : 'none';
+
     // Update size dropdown
     const currentSize = this.sizeDropdown.value || '1024x1024';
     this.sizeDropdown.innerHTML = '';
@@ -84,7 +136,7 @@ export class ImageControls {
     console.log('[ImageControls] Updated size dropdown:', this.sizeDropdown.value);
 
     // Update max N
-    const max = this.maxN[model] || 1;
+    const max = this.maxN[model] || (stability ? 4 : 1);
     this.nImagesInput.max = max.toString();
     const currentN = parseInt(this.nImagesInput.value) || 1;
     this.nImagesInput.value = Math.min(currentN, max).toString();
@@ -106,7 +158,7 @@ export class ImageControls {
 
     // Update output format dropdown
     const outputFormatSetting = this.outputFormatDropdown.parentElement?.parentElement as HTMLElement;
-    const formats = this.outputFormats[model] || ['png'];
+    const formats = this.outputFormats[model] || stability?.outputFormats || ['png'];
     if (formats.length <= 1) {
       outputFormatSetting.style.display = 'none';
       this.outputFormatDropdown.value = formats[0];
@@ -120,8 +172,9 @@ export class ImageControls {
     }
   }
 
-  setControls(size: string, n: number, quality: string, outputFormat: string) {
+  setControls(size: string, n: number, quality: string, outputFormat: string, aspectRatio?: string) {
     if (this.sizeDropdown) this.sizeDropdown.value = size;
+    if (this.aspectRatioDropdown && aspectRatio) this.aspectRatioDropdown.value = aspectRatio;
     if (this.nImagesInput) this.nImagesInput.value = n.toString();
     if (this.qualityDropdown) this.qualityDropdown.value = quality;
     if (this.outputFormatDropdown) this.outputFormatDropdown.value = outputFormat;
@@ -143,6 +196,24 @@ export class ImageControls {
     return this.outputFormatDropdown.value || 'png';
   }
 
+  getAspectRatio(): string {
+    return this.aspectRatioDropdown.value || '1:1';
+  }
+
+  getStylePreset(): string | undefined {
+    return this.stylePresetDropdown.value || undefined;
+  }
+
+  getNegativePrompt(): string | undefined {
+    return this.negativePromptInput.value.trim() || undefined;
+  }
+
+  /** Undefined when empty, letting the provider pick a random seed */
+  getSeed(): number | undefined {
+    const seed = parseInt(this.seedInput.value);
+    return Number.isFinite(seed) && seed > 0 ? seed : undefined;
+  }
+
   cleanup() {
     // No cleanup needed for dropdowns and inputs
   }
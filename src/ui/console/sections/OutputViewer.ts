@@ -13,6 +13,11 @@ export class OutputViewer {
     setOutput(output: string) {
       this.outputArea.setText(output);
     }
+
+    appendOutput(delta: string) {
+      this.outputArea.appendText(delta);
+      this.outputArea.scrollTop = this.outputArea.scrollHeight;
+    }
   
     setCode(code: string) {
       this.codeBlock.setText(code);
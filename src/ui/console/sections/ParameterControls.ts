@@ -1,9 +1,29 @@
 // src/ui/console/sections/ParameterControls.ts
 import { Setting, SliderComponent, TextComponent, Notice } from 'obsidian';
+import { SAMPLING_SUPPORT, type SamplingOptions, type SamplingParameter } from '../../../core/sampling';
+
+interface AdvancedField {
+  param: SamplingParameter;
+  name: string;
+  desc: string;
+  placeholder: string;
+  integer?: boolean;
+}
+
+const ADVANCED_FIELDS: AdvancedField[] = [
+  { param: 'topP', name: 'Top P', desc: 'Nucleus sampling (0.0 to 1.0).', placeholder: '1.0' },
+  { param: 'topK', name: 'Top K', desc: 'Sample from the K most likely tokens.', placeholder: '40', integer: true },
+  { param: 'stop', name: 'Stop sequences', desc: 'Comma-separated; generation stops before any of them.', placeholder: 'END, ###' },
+  { param: 'seed', name: 'Seed', desc: 'Repeatable sampling where supported.', placeholder: '42', integer: true },
+  { param: 'presencePenalty', name: 'Presence penalty', desc: 'Penalizes tokens that already appeared (-2.0 to 2.0).', placeholder: '0' },
+  { param: 'frequencyPenalty', name: 'Frequency penalty', desc: 'Penalizes tokens by how often they appeared (-2.0 to 2.0).', placeholder: '0' },
+];
 
 export class ParameterControls {
   private temperatureSlider?: SliderComponent;
   private maxTokensInput?: TextComponent;
+  private advancedInputs: Partial<Record<SamplingParameter, TextComponent>> = {};
+  private advancedSettings: Partial<Record<SamplingParameter, Setting>> = {};
 
   render(container: HTMLElement) {
     const paramsContainer = container.createEl('div', { cls: 'ai-console-params' });
@@ -40,6 +60,61 @@ export class ParameterControls {
       console.error('[ParameterControls] Error creating max tokens input:', error);
       paramsContainer.createEl('p', { text: 'Error loading max tokens input.' });
     }
+
+    this.renderAdvanced(paramsContainer);
+  }
+
+  /** Optional sampling parameters; blank fields are not sent */
+  private renderAdvanced(container: HTMLElement) {
+    const details = container.createEl('details', { cls: 'ai-console-advanced-params' });
+    details.createEl('summary', { text: 'Advanced' });
+
+    ADVANCED_FIELDS.forEach(field => {
+      const setting = new Setting(details)
+        .setName(field.name)
+        .setDesc(field.desc)
+        .addText(text => {
+          this.advancedInputs[field.param] = text
+            .setPlaceholder(field.placeholder)
+            .onChange(value => {
+              if (field.param !== 'stop' && value.trim() !== '' && isNaN(Number(value))) {
+                new Notice(`${field.name} must be a number.`);
+                text.setValue('');
+              }
+            });
+        });
+      this.advancedSettings[field.param] = setting;
+    });
+  }
+
+  /** Marks the advanced parameters the provider ignores */
+  setProvider(provider: string) {
+    const supported = SAMPLING_SUPPORT[provider] ?? [];
+    ADVANCED_FIELDS.forEach(field => {
+      const setting = this.advancedSettings[field.param];
+      if (!setting) return;
+      const isSupported = supported.includes(field.param);
+      setting.setDesc(isSupported ? field.desc : `Not supported by ${provider}; ignored.`);
+      setting.settingEl.toggleClass('is-disabled', !isSupported);
+    });
+  }
+
+  getSampling(): SamplingOptions {
+    const options: SamplingOptions = {};
+    ADVANCED_FIELDS.forEach(field => {
+      const raw = this.advancedInputs[field.param]?.getValue().trim();
+      if (!raw) return;
+      if (field.param === 'stop') {
+        const stop = raw.split(',').map(seq => seq.trim()).filter(Boolean);
+        if (stop.length > 0) options.stop = stop;
+        return;
+      }
+      const value = field.integer ? parseInt(raw) : parseFloat(raw);
+      if (!isNaN(value)) {
+        (options as Record<string, number>)[field.param] = value;
+      }
+    });
+    return options;
   }
 
   getTemperature(): number {
@@ -3,16 +3,30 @@ import { Notice } from 'obsidian';
 
 export class PromptInput {
   private promptInput: HTMLTextAreaElement;
+  private runBtn?: HTMLButtonElement;
+  private stopBtn?: HTMLButtonElement;
 
-  render(container: HTMLElement, onRun: () => void) {
+  render(container: HTMLElement, onRun: () => void, onStop?: () => void) {
     const promptSection = container.createEl('div', { cls: 'ai-console-prompt-section' });
     this.promptInput = promptSection.createEl('textarea', {
       attr: { placeholder: 'Enter your prompt here...' },
       cls: 'ai-console-prompt'
     }) as HTMLTextAreaElement;
 
-    const runBtn = promptSection.createEl('button', { text: 'Run', cls: 'ai-console-run-btn' });
-    runBtn.addEventListener('click', onRun);
+    this.runBtn = promptSection.createEl('button', { text: 'Run', cls: 'ai-console-run-btn' });
+    this.runBtn.addEventListener('click', onRun);
+
+    if (onStop) {
+      this.stopBtn = promptSection.createEl('button', { text: 'Stop', cls: 'ai-console-stop-btn' });
+      this.stopBtn.disabled = true;
+      this.stopBtn.addEventListener('click', onStop);
+    }
+  }
+
+  /** Swaps which of Run/Stop is enabled while a request is in flight */
+  setRunning(running: boolean) {
+    if (this.runBtn) this.runBtn.disabled = running;
+    if (this.stopBtn) this.stopBtn.disabled = !running;
   }
 
   getPrompt(): string {
@@ -2,7 +2,8 @@
 import { App, Setting, Notice } from 'obsidian';
 import type { MyPluginSettings } from '../../../settings/types';
 import type { SecretsManager } from '../../../utils/secrets';
-import { providerMetadata, providerFetchers } from '../../../settings/providers/index';
+import { providerMetadata } from '../../../settings/providers/index';
+import { modelCatalog } from '../../../core/ModelCatalog';
 import type { TextGateway } from '../../../gateways/TextGateway';
 
 export class ProviderSelector {
@@ -55,7 +56,7 @@ export class ProviderSelector {
           dropdown.addOption('', 'No providers available');
         } else {
           this.providers.forEach(p => dropdown.addOption(p, p));
-          const defaultProvider = this.settings.categories?.text?.defaultProvider;
+          const defaultProvider = this.settings.categories?.text?.chain?.[0]?.provider;
           const initial = defaultProvider && this.providers.includes(defaultProvider)
             ? defaultProvider
             : this.providers[0];
@@ -109,18 +110,11 @@ export class ProviderSelector {
     try {
       let models: string[] = [];
 
-      // Use provided providerModels if available, otherwise fetch dynamically
+      // Use provided providerModels if available, otherwise the cached catalog
       if (this.providerModels && this.providerModels[provider]) {
         models = this.providerModels[provider];
-      } else {
-        if (providerMetadata[provider].requiresApiKey) {
-          const apiKey = await this.secrets.getSecret(provider);
-          if (apiKey) {
-            models = await providerFetchers[provider](apiKey, this.app);
-          }
-        } else {
-          models = await providerFetchers[provider]('', this.app);
-        }
+      } else if (!providerMetadata[provider].requiresApiKey || await this.secrets.getSecret(provider)) {
+        models = await modelCatalog.getModels(provider);
       }
 
       if (!models.length) {
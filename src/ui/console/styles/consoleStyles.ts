@@ -197,6 +197,45 @@ export const consoleCSS = `
   color: var(--text-normal);
 }
 
+.ai-console-queue-status {
+  margin-top: 6px;
+  font-size: 12px;
+  color: var(--text-muted);
+}
+
+.ai-console-compare-target {
+  display: flex;
+  gap: 8px;
+  margin-bottom: 8px;
+}
+
+.ai-console-compare-header {
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+}
+
+.ai-console-compare-columns {
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+  gap: 10px;
+}
+
+.ai-console-compare-title {
+  font-weight: bold;
+  margin-bottom: 4px;
+  word-break: break-all;
+}
+
+.ai-console-compare-stats {
+  display: flex;
+  flex-wrap: wrap;
+  gap: 8px;
+  margin-bottom: 6px;
+  font-size: 12px;
+  color: var(--text-muted);
+}
+
 .ai-console-code {
   margin-top: 10px;
   padding: 15px;
@@ -315,6 +354,17 @@ export const consoleCSS = `
 }
 .ai-console-run-btn:hover {
   background-color: #5c3a9e;
+}
+.ai-console-stop-btn {
+  margin-left: 8px;
+  padding: 8px 16px;
+  border-radius: 4px;
+  cursor: pointer;
+}
+.ai-console-stop-btn:disabled,
+.ai-console-run-btn:disabled {
+  opacity: 0.5;
+  cursor: default;
 }
   .ai-console-history-section {
   margin-top: 16px;
@@ -2,12 +2,16 @@ import { App, Notice } from 'obsidian';
 import type { MyPluginSettings } from '../../../settings/types';
 import type { SecretsManager } from '../../../utils/secrets';
 import { ImageGateway } from '../../../gateways/ImageGateway';
+import { providerRegistry } from '../../../adapters/providers';
+import { STABILITY_IMAGE_MODELS } from '../../../adapters/base/StabilityAIBaseAdapter';
 import { ProviderSelector } from '../sections/ProviderSelector';
 import { PromptInput } from '../sections/PromptInput';
 import { PromptHistory } from '../sections/PromptHistory';
 import { ImageControls } from '../sections/ImageControls';
 import { ImageOutputViewer } from '../sections/ImageOutputViewer';
 import { ImageHistoryEntry, BaseHistoryEntry } from '../../../utils/historyManager';
+import { isAbortError } from '../../../utils/abort';
+import { describeError } from '../errorMessages';
 
 export class ImageConsoleTab {
   id = 'image';
@@ -20,18 +24,20 @@ export class ImageConsoleTab {
   private promptHistory: PromptHistory;
   private imageControls: ImageControls;
   private imageOutputViewer: ImageOutputViewer;
-  private validProviders = ['openai', 'stabilityai', 'grok'];
   private blobUrls: string[] = [];
+  private abortController?: AbortController;
+  private runButton?: HTMLButtonElement;
+  private stopButton?: HTMLButtonElement;
 
   private providerModels: Record<string, string[]> = {
     openai: ['dall-e-3', 'dall-e-2', 'gpt-image-1'],
-    stabilityai: ['stable-diffusion'],
+    stabilityai: Object.keys(STABILITY_IMAGE_MODELS),
     grok: ['grok-2-image-1212'], // Updated to match xAI API model
   };
 
   private defaultModels: Record<string, string> = {
     openai: 'gpt-image-1',
-    stabilityai: 'stable-diffusion',
+    stabilityai: 'stable-image-core',
     grok: 'grok-2-image-1212', // Updated to match xAI API model
   };
 
@@ -41,7 +47,7 @@ export class ImageConsoleTab {
     private secrets: SecretsManager,
     private addToHistory: (entry: ImageHistoryEntry) => void
   ) {
-    this.providerSelector = new ProviderSelector(app, settings, secrets, this.validProviders, this.providerModels);
+    this.providerSelector = new ProviderSelector(app, settings, secrets, providerRegistry.withCapability('image'), this.providerModels);
     this.promptInput = new PromptInput();
     this.promptHistory = new PromptHistory();
     this.imageControls = new ImageControls();
@@ -94,8 +100,11 @@ export class ImageConsoleTab {
     this.imageControls.render(fixedSection);
 
     const runButtonRow = fixedSection.createEl('div', { cls: 'ai-console-run-button-row' });
-    const runButton = runButtonRow.createEl('button', { text: 'Run', cls: 'ai-console-run-btn' });
-    runButton.addEventListener('click', this.runPrompt.bind(this));
+    this.runButton = runButtonRow.createEl('button', { text: 'Run', cls: 'ai-console-run-btn' });
+    this.runButton.addEventListener('click', this.runPrompt.bind(this));
+    this.stopButton = runButtonRow.createEl('button', { text: 'Stop', cls: 'ai-console-stop-btn' });
+    this.stopButton.disabled = true;
+    this.stopButton.addEventListener('click', this.cancel.bind(this));
 
     const scrollableSection = container.createEl('div', { cls: 'ai-console-scrollable-section' });
 
@@ -165,26 +174,37 @@ export class ImageConsoleTab {
         request.quality = quality;
       }
     } else if (provider === 'stabilityai') {
-      request.response_format = 'b64_json';
-      // Add stabilityai-specific parameters if needed
+      request.output_format = outputFormat;
+      request.aspect_ratio = this.imageControls.getAspectRatio();
+      request.style_preset = this.imageControls.getStylePreset();
+      request.negative_prompt = this.imageControls.getNegativePrompt();
+      request.seed = this.imageControls.getSeed();
     }
 
     console.log('[ImageConsoleTab] Generated request:', request);
 
-    const adapter = (this.imageGateway as any).adapters[provider];
-    if (!adapter) {
+    const imageGateway = this.imageGateway;
+    if (!imageGateway.providers.includes(provider)) {
       new Notice(`No adapter found for provider: ${provider}.`);
       console.error('[ImageConsoleTab] No adapter found for provider:', provider);
       return;
     }
 
+    this.cancel();
+    const controller = new AbortController();
+    this.abortController = controller;
+    request.signal = controller.signal;
+
     try {
+      this.setRunning(true);
       this.imageOutputViewer.setLoading();
 
-      const result = await adapter.generate(request);
+      // Through the gateway so budgets and spend tracking apply to console runs too
+      const result = await imageGateway.generateWith(provider, request);
 
       const base64Urls: string[] = result.imageUrls || [];
-      const format = provider === 'grok' || model === 'gpt-image-1' ? outputFormat : 'png';
+      const keepsFormat = provider === 'grok' || provider === 'stabilityai' || model === 'gpt-image-1';
+      const format = keepsFormat ? outputFormat : 'png';
       this.imageOutputViewer.setImages(base64Urls, format);
 
       const historyEntry: ImageHistoryEntry = {
@@ -195,26 +215,40 @@ export class ImageConsoleTab {
         timestamp: new Date().toLocaleString(),
         size,
         quality,
-        output_format: provider === 'grok' || model === 'gpt-image-1' ? outputFormat : undefined,
+        output_format: keepsFormat ? outputFormat : undefined,
+        aspect_ratio: request.aspect_ratio,
       };
 
       this.addToHistory(historyEntry);
       console.log('[ImageConsoleTab] Image(s) generated, base64 count:', base64Urls.length);
     } catch (error: any) {
-      console.error('[ImageConsoleTab] Generation error:', error);
-      let errorMessage = error.message || 'Unknown error';
-      if (error.message.includes('400')) {
-        errorMessage += '. Check model parameters.';
-      } else if (error.message.includes('401')) {
-        errorMessage += '. Verify your API key.';
-      } else if (error.message.includes('429')) {
-        errorMessage += '. Rate limit exceeded. Try again later.';
+      if (isAbortError(error)) {
+        console.log('[ImageConsoleTab] Generation stopped.');
+        this.imageOutputViewer.setError('Generation stopped.');
+        return;
       }
+      console.error('[ImageConsoleTab] Generation error:', error);
+      const errorMessage = describeError(error);
       new Notice(`Failed to generate image: ${errorMessage}`);
       this.imageOutputViewer.setError(errorMessage);
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = undefined;
+        this.setRunning(false);
+      }
     }
   }
 
+  /** Aborts the request in flight, if any */
+  cancel() {
+    this.abortController?.abort();
+  }
+
+  private setRunning(running: boolean) {
+    if (this.runButton) this.runButton.disabled = running;
+    if (this.stopButton) this.stopButton.disabled = !running;
+  }
+
   private historyClickHandler(entry: ImageHistoryEntry) {
     this.providerSelector.setProvider(entry.provider, entry.model);
     this.promptInput.setPrompt(entry.prompt);
@@ -222,7 +256,8 @@ export class ImageConsoleTab {
       entry.size || '1024x1024',
       1, // N is not stored in history, default to 1
       entry.quality || (entry.model === 'dall-e-3' ? 'standard' : entry.provider === 'grok' ? 'standard' : 'auto'),
-      entry.output_format || 'png'
+      entry.output_format || 'png',
+      entry.aspect_ratio
     );
     this.imageOutputViewer.setImages(entry.imageUrls || [], entry.output_format || 'png');
     console.log('[ImageConsoleTab] History entry selected:', entry);
@@ -2,13 +2,17 @@ import { App, Notice, Setting, SliderComponent, TextComponent } from 'obsidian';
 import type { MyPluginSettings } from '../../../settings/types';
 import type { SecretsManager } from '../../../utils/secrets';
 import { TextGateway } from '../../../gateways/TextGateway';
-import type { LLMRequest, LLMResponse } from '../../../core/Adapter';
+import type { LLMRequest } from '../../../core/Adapter';
 import { ProviderSelector } from '../sections/ProviderSelector';
 import { ParameterControls } from '../sections/ParameterControls';
 import { PromptInput } from '../sections/PromptInput';
 import { OutputViewer } from '../sections/OutputViewer';
 import { PromptHistory } from '../sections/PromptHistory';
+import { CompareView } from '../sections/CompareView';
 import { PromptHistoryEntry, BaseHistoryEntry } from '../../../utils/historyManager';
+import { isAbortError } from '../../../utils/abort';
+import { describeError } from '../errorMessages';
+import { requestScheduler } from '../../../core/scheduler';
 
 export class TextConsoleTab {
   id = 'text';
@@ -20,6 +24,13 @@ export class TextConsoleTab {
   private promptInput: PromptInput;
   private outputViewer: OutputViewer;
   private promptHistory: PromptHistory;
+  private compareView: CompareView;
+  private compareMode = false;
+  private singleEls: HTMLElement[] = [];
+  private compareEls: HTMLElement[] = [];
+  private abortController?: AbortController;
+  private queueStatusEl?: HTMLElement;
+  private unsubscribeQueue?: () => void;
 
   constructor(
     private app: App,
@@ -32,6 +43,8 @@ export class TextConsoleTab {
     this.promptInput = new PromptInput();
     this.outputViewer = new OutputViewer();
     this.promptHistory = new PromptHistory();
+    this.compareView = new CompareView(app, settings);
+    this.providerSelector.onProviderChange(provider => this.parameterControls.setProvider(provider));
     console.log('[TextConsoleTab] Constructor initialized');
   }
 
@@ -51,21 +64,46 @@ export class TextConsoleTab {
 
     const fixedSection = container.createEl('div', { cls: 'ai-console-fixed-section' });
     
+    new Setting(fixedSection)
+      .setName('Compare models')
+      .setDesc('Run the prompt against several providers at once and show the answers side by side.')
+      .addToggle(toggle => toggle
+        .setValue(this.compareMode)
+        .onChange(value => this.setCompareMode(value)));
+
     // Render sections
-    this.providerSelector.render(fixedSection, this.textGateway);
+    const selectorEl = fixedSection.createEl('div');
+    const compareTargetsEl = fixedSection.createEl('div');
+    this.providerSelector.render(selectorEl, this.textGateway)
+      .then(() => this.parameterControls.setProvider(this.providerSelector.getSelectedProvider()));
     this.parameterControls.render(fixedSection);
-    this.promptInput.render(fixedSection, this.runPrompt.bind(this));
+    this.promptInput.render(fixedSection, this.runPrompt.bind(this), this.cancel.bind(this));
+    this.queueStatusEl = fixedSection.createEl('div', { cls: 'ai-console-queue-status' });
+    this.unsubscribeQueue?.();
+    this.unsubscribeQueue = requestScheduler.onChange(() => this.renderQueueStatus());
+    this.renderQueueStatus();
     
     const scrollableSection = container.createEl('div', { cls: 'ai-console-scrollable-section' });
-    this.outputViewer.render(scrollableSection);
+    const outputEl = scrollableSection.createEl('div');
+    const compareOutputEl = scrollableSection.createEl('div');
+    this.outputViewer.render(outputEl);
+    this.compareView.render(compareTargetsEl, compareOutputEl);
+    this.compareView.setProviders(this.textGateway?.providers ?? []);
     this.promptHistory.render(scrollableSection, this.historyClickHandler.bind(this));
 
+    this.singleEls = [selectorEl, outputEl];
+    this.compareEls = [compareTargetsEl, compareOutputEl];
+    this.setCompareMode(this.compareMode);
+
     // Add styles
     const styleEl = container.createEl('style');
     styleEl.textContent = `
       .ai-console-fixed-section {
         flex-shrink: 0;
       }
+      .ai-console-advanced-params .is-disabled {
+        opacity: 0.5;
+      }
       .ai-console-scrollable-section {
         flex: 1;
         overflow-y: auto;
@@ -75,13 +113,24 @@ export class TextConsoleTab {
     `;
   }
 
+  private setCompareMode(enabled: boolean) {
+    this.compareMode = enabled;
+    this.singleEls.forEach(el => (el.style.display = enabled ? 'none' : ''));
+    this.compareEls.forEach(el => (el.style.display = enabled ? '' : 'none'));
+  }
+
   private async runPrompt() {
     console.log('[TextConsoleTab] Run button clicked.');
+    if (this.compareMode) {
+      await this.runComparison();
+      return;
+    }
     const provider = this.providerSelector.getSelectedProvider();
     const model = this.providerSelector.getSelectedModel() || this.settings.providers[provider]?.model || '';
     const prompt = this.promptInput.getPrompt().trim();
     const temperature = this.parameterControls.getTemperature();
     const maxTokens = this.parameterControls.getMaxTokens();
+    const sampling = this.parameterControls.getSampling();
 
     this.outputViewer.clear();
 
@@ -99,50 +148,130 @@ export class TextConsoleTab {
       return;
     }
 
-    const request: LLMRequest = { prompt, model, temperature, maxTokens };
-    const adapter = (this.textGateway as any).adapters[provider];
-    if (!adapter) {
+    this.cancel();
+    const controller = new AbortController();
+    this.abortController = controller;
+    const request: LLMRequest = { prompt, model, temperature, maxTokens, ...sampling, priority: 'high', signal: controller.signal };
+    const textGateway = this.textGateway;
+    if (!textGateway.providers.includes(provider)) {
       new Notice(`No adapter found for provider: ${provider}. Please check configuration.`);
       this.outputViewer.setOutput(`Error: No adapter for ${provider}.`);
       console.error('[TextConsoleTab] No adapter found for provider:', provider);
       return;
     }
 
+    let streamed = '';
     try {
+      this.promptInput.setRunning(true);
       this.outputViewer.setOutput('Generating...');
       console.log('[TextConsoleTab] Testing provider:', provider, 'with request:', {
         prompt: prompt.length > 50 ? prompt.slice(0, 50) + '...' : prompt,
         model,
         temperature,
         maxTokens,
+        ...sampling,
       });
 
-      const result: LLMResponse = await adapter.generate(request);
-      let output = '[No result returned]';
-      let tokensUsed = 0;
-
-      if (result && typeof result.output === 'string') {
-        output = result.output.trim();
-        tokensUsed = result.tokensUsed || 0;
-      } else {
-        console.warn('[TextConsoleTab] Unexpected response format from provider:', provider, result);
-        output = '[Unexpected response format]';
+      // Through the gateway so console runs share rate limits, budgets and spend tracking with aiNNS callers
+      for await (const delta of textGateway.streamWith(provider, request)) {
+        if (!streamed) this.outputViewer.setOutput('');
+        streamed += delta;
+        this.outputViewer.appendOutput(delta);
       }
+      const output = streamed.trim() || '[No result returned]';
 
       this.outputViewer.setOutput(output);
-      this.outputViewer.setCode(`await window.aiNNS.text.generate("${prompt.replace(/"/g, '\\"')}", { model: "${model}", temperature: ${temperature}, maxTokens: ${maxTokens} });`);
+      const codeOptions = JSON.stringify({ model, temperature, maxTokens, ...sampling });
+      this.outputViewer.setCode(`await window.aiNNS.text.generate("${prompt.replace(/"/g, '\\"')}", ${codeOptions});`);
       const historyEntry: PromptHistoryEntry = { provider, model, prompt, output, timestamp: new Date().toLocaleString() };
       this.addToHistory(historyEntry);
       console.log('[TextConsoleTab] Response received for', provider, ':', {
         output: output.length > 50 ? output.slice(0, 50) + '...' : output,
-        tokensUsed,
       });
     } catch (error: any) {
+      if (isAbortError(error)) {
+        console.log('[TextConsoleTab] Generation stopped for', provider);
+        this.outputViewer.setOutput(streamed ? `${streamed}\n\n[Stopped]` : 'Generation stopped.');
+        return;
+      }
       console.error('[TextConsoleTab] Generation error for', provider, ':', error);
       let errorMessage = `Error: ${error.message || 'Unknown error'}`;
       this.outputViewer.setOutput(errorMessage);
-      new Notice(`Failed to generate with ${provider}: ${error.message || 'Unknown error'}`);
+      new Notice(`Failed to generate with ${provider}: ${describeError(error)}`);
+    } finally {
+      // A newer run may have replaced this controller already
+      if (this.abortController === controller) {
+        this.abortController = undefined;
+        this.promptInput.setRunning(false);
+      }
+    }
+  }
+
+  /** Sends the prompt to every compare target in parallel and fills one column per target */
+  private async runComparison() {
+    const prompt = this.promptInput.getPrompt().trim();
+    const targets = this.compareView.getTargets();
+    const parameters = {
+      temperature: this.parameterControls.getTemperature(),
+      maxTokens: this.parameterControls.getMaxTokens(),
+      ...this.parameterControls.getSampling(),
+    };
+
+    if (!prompt) {
+      new Notice('Please enter a prompt.');
+      return;
+    }
+    if (targets.length < 2) {
+      new Notice('Add at least two models to compare.');
+      return;
     }
+    if (!this.textGateway) {
+      new Notice('TextGateway not initialized. Cannot generate response.');
+      return;
+    }
+
+    this.cancel();
+    const controller = new AbortController();
+    this.abortController = controller;
+    try {
+      this.promptInput.setRunning(true);
+      this.compareView.showPending(targets);
+      console.log('[TextConsoleTab] Comparing', targets.length, 'targets:', targets);
+      const results = await this.textGateway.fanOut(
+        { prompt, ...parameters, signal: controller.signal },
+        { mode: 'all', providers: targets }
+      );
+      if (controller.signal.aborted) {
+        this.compareView.clear();
+        return;
+      }
+      this.compareView.showResults(prompt, parameters, results);
+    } catch (error: any) {
+      console.error('[TextConsoleTab] Comparison error:', error);
+      new Notice(`Comparison failed: ${describeError(error)}`);
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = undefined;
+        this.promptInput.setRunning(false);
+      }
+    }
+  }
+
+  /** One line per provider with requests running or queued */
+  private renderQueueStatus() {
+    if (!this.queueStatusEl) return;
+    const busy = requestScheduler.stats().filter(stats => stats.active > 0 || stats.queued > 0);
+    this.queueStatusEl.setText(busy.length
+      ? 'Queue: ' + busy.map(stats => {
+        const waiting = stats.queued ? `, ${stats.queued} waiting (oldest ${(stats.oldestWaitMs / 1000).toFixed(1)}s)` : '';
+        return `${stats.provider} ${stats.active} running${waiting}`;
+      }).join('; ')
+      : '');
+  }
+
+  /** Aborts the request in flight, if any */
+  cancel() {
+    this.abortController?.abort();
   }
 
   private historyClickHandler(entry: PromptHistoryEntry) {
@@ -158,6 +287,9 @@ export class TextConsoleTab {
     this.promptInput.cleanup();
     this.outputViewer.cleanup();
     this.promptHistory.cleanup();
+    this.compareView.cleanup();
+    this.unsubscribeQueue?.();
+    this.unsubscribeQueue = undefined;
   }
 
   renderHistory(history: BaseHistoryEntry[]) {
@@ -0,0 +1,77 @@
+// src/utils/abort.ts
+// Obsidian's requestUrl cannot be aborted, so cancellation stops waiting for the
+// response and rejects right away; the underlying request runs to completion.
+
+/** Error thrown when a request is cancelled through its AbortSignal */
+export function createAbortError(): Error {
+  const error = new Error('Request was cancelled.');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
+
+/**
+ * Resolves with `promise` unless `signal` aborts first, in which case it
+ * rejects with an AbortError.
+ */
+export function withAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/** Waits `ms` milliseconds, rejecting early with an AbortError if `signal` aborts */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  throwIfAborted(signal);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * A controller that also aborts when `parent` does, so one branch of a
+ * fan-out can be cancelled on its own. Call `dispose` once it is done.
+ */
+export function createLinkedController(parent?: AbortSignal): { controller: AbortController; dispose: () => void } {
+  const controller = new AbortController();
+  if (!parent) return { controller, dispose: () => undefined };
+
+  const onAbort = () => controller.abort();
+  if (parent.aborted) {
+    controller.abort();
+  } else {
+    parent.addEventListener('abort', onAbort, { once: true });
+  }
+  return { controller, dispose: () => parent.removeEventListener('abort', onAbort) };
+}
@@ -20,6 +20,8 @@ export interface ImageHistoryEntry extends BaseHistoryEntry {
   size?: string;
   quality?: string;
   output_format?: string;
+  /** Stability AI requests pick an aspect ratio instead of a size */
+  aspect_ratio?: string;
 }
 
 // Unified entry type
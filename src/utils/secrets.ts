@@ -17,6 +17,8 @@ export class SecretsManager {
     private isLoaded: boolean = false;
     // Promise to ensure loading completes before other operations if needed
     private loadPromise: Promise<void> | null = null;
+    // Called with the key after a secret is set or deleted
+    private changeListeners: ((key: string) => void)[] = [];
 
     /**
      * Creates an instance of SecretsManager.
@@ -150,6 +152,7 @@ export class SecretsManager {
         }
         this.secrets[key] = value;
         await this.saveSecretsToFile();
+        this.notifyChange(key);
     }
 
     /**
@@ -182,11 +185,34 @@ export class SecretsManager {
         if (this.secrets.hasOwnProperty(key)) {
             delete this.secrets[key];
             await this.saveSecretsToFile();
+            this.notifyChange(key);
         } else {
              console.log(`[SecretsManager] Attempted to delete non-existent secret key: ${key}`);
         }
     }
 
+    /**
+     * Registers a listener for secret changes.
+     * @param listener - Called with the key of each secret that is set or deleted.
+     * @returns A function that removes the listener.
+     */
+    onChange(listener: (key: string) => void): () => void {
+        this.changeListeners.push(listener);
+        return () => {
+            this.changeListeners = this.changeListeners.filter(l => l !== listener);
+        };
+    }
+
+    private notifyChange(key: string): void {
+        this.changeListeners.forEach(listener => {
+            try {
+                listener(key);
+            } catch (error) {
+                console.error('[SecretsManager] Change listener failed:', error);
+            }
+        });
+    }
+
     /**
      * Lists the keys of all stored secrets.
      * Ensures secrets are loaded before listing.
@@ -0,0 +1,64 @@
+// src/utils/sse.ts
+// Helpers for reading streaming responses incrementally. Streams are opened
+// through HttpClient.stream, which uses fetch because requestUrl buffers the body.
+
+/**
+ * Splits a body into lines as chunks arrive. Trailing partial lines are held back
+ * until the next chunk (or the end of the stream) completes them.
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        yield buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.length > 0) {
+      yield buffer;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yields the `data:` payload of each Server-Sent Event. Comment lines
+ * (OpenRouter keep-alives) are skipped and `[DONE]` ends the stream.
+ */
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  let dataLines: string[] = [];
+
+  for await (const line of readLines(response)) {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        const data = dataLines.join('\n');
+        dataLines = [];
+        if (data === '[DONE]') return;
+        yield data;
+      }
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+    if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (dataLines.length > 0) {
+    const data = dataLines.join('\n');
+    if (data !== '[DONE]') yield data;
+  }
+}
@@ -0,0 +1,10 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			obsidian: fileURLToPath(new URL("./src/__mocks__/obsidian.ts", import.meta.url)),
+		},
+	},
+});